@@ -0,0 +1,271 @@
+/**
+ * Round-Trip Fixture Generator
+ *
+ * Rewrites the post_content fixtures in tests/fixtures/post-content with the
+ * markup the plugin's own save() functions produce. The editor bundle of the
+ * vendored free plugin (assets/js/admin/blocks.js) is evaluated with the
+ * WordPress editor globals stubbed, so its blocks register as in the editor;
+ * each fixture block is then saved from its attributes:
+ *
+ *   tsx scripts/generate-round-trip-fixtures.ts [file.html ...]
+ *
+ * A fixture is its own input: the attributes in each block's delimiter, plus
+ * the ones the editor reads back from the markup (source: html). To add a
+ * fixture, write its blocks as self-closing delimiters holding every
+ * attribute, e.g. <!-- wp:tpgb/tp-heading {"block_id":"ab12","title":"Hi"} /-->,
+ * and run the generator on it
+ */
+
+import fs from 'fs';
+import path from 'path';
+import vm from 'vm';
+import React from 'react';
+import * as element from '@wordpress/element';
+import { parseHTML } from 'linkedom';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { parseBlocks, serializeBlockAttributes, ParsedBlock } from '../src/utils/block-parser.js';
+import { queryInnerHtml } from '../src/utils/content-exporter.js';
+
+const ROOT = path.join(path.dirname(new URL(import.meta.url).pathname), '..');
+const BUNDLE = path.join(ROOT, 'the-plus-addons-for-block-editor', 'assets', 'js', 'admin', 'blocks.js');
+const FIXTURES_DIR = path.join(ROOT, 'tests', 'fixtures', 'post-content');
+
+/** Where InnerBlocks.Content renders, replaced by the serialized inner blocks */
+const INNER_BLOCKS = '<!--INNER_BLOCKS-->';
+
+/** Blocks the bundle registers under another name than the PHP registration */
+const BUNDLE_NAMES: Record<string, string> = {
+  'tpgb/tp-form-message-field': 'tpgb/nxt-message-field'
+};
+
+interface BlockSettings {
+  attributes?: Record<string, any>;
+  supports?: Record<string, any>;
+  save: (props: { attributes: Record<string, any> }) => any;
+}
+
+interface FixtureBlock {
+  name: string;
+  attrs: Record<string, any>;
+  innerBlocks: FixtureBlock[];
+}
+
+/**
+ * Stand-in for a WordPress global the bundle only touches at load time or in
+ * edit(): every property and call returns another stand-in
+ */
+function stub(): any {
+  const store: Record<string | symbol, any> = {};
+  return new Proxy(function () {}, {
+    get(target, key) {
+      if (key in store) {
+        return store[key];
+      }
+      if (key === Symbol.toPrimitive) {
+        return () => '';
+      }
+      if (key === Symbol.iterator) {
+        return function* () {};
+      }
+      if (key === 'then' || typeof key === 'symbol') {
+        return undefined;
+      }
+      if (key === 'prototype') {
+        return {};
+      }
+      return (store[key] = stub());
+    },
+    set(target, key, value) {
+      store[key] = value;
+      return true;
+    },
+    apply: () => stub(),
+    construct: () => stub(),
+    has: () => true
+  });
+}
+
+/**
+ * Object whose missing properties are stand-ins
+ */
+function withStubs(known: Record<string, any>): any {
+  return new Proxy(known, { get: (target, key) => (key in target ? target[key as string] : stub()) });
+}
+
+/**
+ * DOM for the save functions that parse markup; linkedom keeps the first
+ * content of a <template>, so it is rebuilt from innerHTML on each read
+ */
+function createDom(): any {
+  const dom: any = parseHTML('<!doctype html><html><head></head><body></body></html>');
+  const createElement = dom.document.createElement.bind(dom.document);
+  dom.document.createElement = (tag: string, ...rest: any[]) => {
+    const created = createElement(tag, ...rest);
+    if (String(tag).toLowerCase() === 'template') {
+      Object.defineProperty(created, 'content', {
+        configurable: true,
+        get() {
+          const holder = createElement('div');
+          holder.innerHTML = created.innerHTML;
+          const fragment = dom.document.createDocumentFragment();
+          while (holder.firstChild) {
+            fragment.appendChild(holder.firstChild);
+          }
+          return fragment;
+        }
+      });
+    }
+    return created;
+  };
+  return dom;
+}
+
+/**
+ * Evaluate the editor bundle and collect the settings of every block it registers
+ */
+function loadBundle(): { registered: Record<string, BlockSettings>; current: { name: string; attributes: any; supports?: any } } {
+  const registered: Record<string, BlockSettings> = {};
+  const current = { name: '', attributes: {} as any, supports: undefined as any };
+
+  // useBlockProps.save(): the generated class, then align and className, as in the editor
+  const useBlockProps: any = () => ({});
+  useBlockProps.save = (props: Record<string, any> = {}) => {
+    const { name, attributes, supports } = current;
+    let className: string = props.className || '';
+    if (attributes.align && supports?.align) {
+      className = [`align${attributes.align}`, className].filter(Boolean).join(' ');
+    }
+    if (attributes.className) {
+      className = [className, attributes.className].filter(Boolean).join(' ');
+    }
+    className = [...new Set([`wp-block-${name.replace('/', '-')}`, ...className.split(' ')])].join(' ').trim();
+    return { ...props, className, ...(supports?.anchor && attributes.anchor ? { id: attributes.anchor } : {}) };
+  };
+
+  const RichText: any = () => null;
+  RichText.Content = ({ tagName, value, ...props }: any) => {
+    const html = React.createElement(element.RawHTML, null, value == null ? '' : String(value));
+    return tagName ? React.createElement(tagName, props, html) : html;
+  };
+  const InnerBlocks: any = () => null;
+  InnerBlocks.Content = () => React.createElement(element.RawHTML, null, INNER_BLOCKS);
+
+  const wp = stub();
+  wp.element = element;
+  wp.i18n = { __: (text: string) => text, _x: (text: string) => text, _n: (text: string) => text, sprintf: (text: string) => text };
+  wp.blocks = withStubs({
+    registerBlockType: (name: any, settings: BlockSettings) => {
+      registered[typeof name === 'string' ? name : name.name] = settings;
+      return settings;
+    }
+  });
+  wp.blockEditor = withStubs({ useBlockProps, RichText, InnerBlocks });
+
+  const dom = createDom();
+  const sandbox: any = {
+    wp,
+    React,
+    console,
+    JSON, Math, Object, Array, String, Number, Boolean, Symbol, Promise, Map, Set, WeakMap, RegExp, Error, Date,
+    parseInt, parseFloat, encodeURIComponent, decodeURIComponent,
+    setTimeout: () => 0, clearTimeout: () => {}, setInterval: () => 0, clearInterval: () => {}, requestAnimationFrame: () => 0,
+    document: dom.document, DOMParser: dom.DOMParser, Node: dom.Node, Element: dom.Element, HTMLElement: dom.HTMLElement,
+    HTMLTemplateElement: dom.HTMLTemplateElement,
+    MutationObserver: function () {
+      return stub();
+    },
+    // Localized by PHP in the editor
+    tpgb_blocks_load: new Proxy({ preview_image: 'PREVIEW_IMAGE' }, { get: (target: any, key) => (key in target ? target[key] : '') })
+  };
+  // Any other global (jQuery, lodash, ReactDOM, ...) is a stand-in
+  Object.setPrototypeOf(sandbox, new Proxy({}, {
+    get: (target, key) => (typeof key === 'symbol' ? undefined : stub()),
+    has: (target, key) => typeof key !== 'symbol'
+  }));
+  sandbox.window = sandbox;
+  sandbox.self = sandbox;
+  sandbox.globalThis = sandbox;
+
+  vm.createContext(sandbox);
+  vm.runInContext(fs.readFileSync(BUNDLE, 'utf8'), sandbox, { filename: 'blocks.js' });
+
+  return { registered, current };
+}
+
+const { registered, current } = loadBundle();
+const schemaLoader = new SchemaLoader(path.join(ROOT, 'schemas'));
+
+/**
+ * Save markup of one block, with the registered defaults filled in as the
+ * editor does before calling save()
+ */
+function save(name: string, attrs: Record<string, any>): string {
+  const settings = registered[name];
+  if (!settings) {
+    throw new Error(`Block not registered by the editor bundle: ${name}`);
+  }
+
+  const attributes: Record<string, any> = {};
+  for (const [key, definition] of Object.entries<any>(settings.attributes || {})) {
+    if (definition && 'default' in definition) {
+      attributes[key] = JSON.parse(JSON.stringify(definition.default));
+    }
+  }
+  Object.assign(attributes, attrs);
+
+  Object.assign(current, { name, attributes, supports: settings.supports });
+  return element.renderToString(React.createElement(settings.save, { attributes }));
+}
+
+/**
+ * A block as the editor stores it: "\n" around its markup, "\n\n" between
+ * inner blocks, and only the attributes that differ from their registered
+ * default and aren't read back from the markup in the delimiter
+ */
+function serialize(block: FixtureBlock): string {
+  const bundleName = BUNDLE_NAMES[block.name] || block.name;
+  const defaults = registered[bundleName]?.attributes || {};
+  const sourced = schemaLoader.getAttributeSources(block.name);
+
+  const comment = Object.fromEntries(Object.entries(block.attrs).filter(([key, value]) =>
+    !sourced[key] && !(defaults[key] && 'default' in defaults[key] && JSON.stringify(defaults[key].default) === JSON.stringify(value))
+  ));
+  const attrs = Object.keys(comment).length > 0 ? `${serializeBlockAttributes(comment)} ` : '';
+  const html = save(bundleName, block.attrs).split(INNER_BLOCKS).join(block.innerBlocks.map(serialize).join('\n\n'));
+
+  return html === '' ? `<!-- wp:${block.name} ${attrs}/-->` : `<!-- wp:${block.name} ${attrs}-->\n${html}\n<!-- /wp:${block.name} -->`;
+}
+
+/**
+ * Attributes of a parsed fixture block, with the sourced ones read back from its markup
+ */
+function toFixtureBlock(block: ParsedBlock): FixtureBlock {
+  const attrs = { ...block.attrs };
+  for (const [name, source] of Object.entries(schemaLoader.getAttributeSources(block.blockName!))) {
+    const value = source.source === 'html' && source.selector ? queryInnerHtml(block.innerHTML, source.selector) : undefined;
+    if (value !== undefined) {
+      attrs[name] = value;
+    }
+  }
+
+  return { name: block.blockName!, attrs, innerBlocks: block.innerBlocks.map(toFixtureBlock) };
+}
+
+function main() {
+  const requested = process.argv.slice(2).map(file => path.basename(file));
+  const files = requested.length > 0
+    ? requested
+    : fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html')).sort();
+
+  for (const file of files) {
+    const fixturePath = path.join(FIXTURES_DIR, file);
+    const blocks = parseBlocks(fs.readFileSync(fixturePath, 'utf8'))
+      .filter(block => block.blockName)
+      .map(toFixtureBlock);
+
+    fs.writeFileSync(fixturePath, blocks.map(serialize).join('\n\n') + '\n');
+    console.log(`  ✅ ${file}: ${blocks.length} blocks`);
+  }
+}
+
+main();
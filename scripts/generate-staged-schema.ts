@@ -3,10 +3,34 @@
  *
  * Generates staged schema files (meta, core, styling, examples, full)
  * for all Nexter blocks based on existing flat schemas
+ *
+ * With --from-source, generates them from the attributes the Nexter plugins
+ * register instead, and reports drift against the curated schemas:
+ *
+ *   tsx scripts/generate-staged-schema.ts --from-source [--out dir] [--block name]
+ *   tsx scripts/generate-staged-schema.ts --from-source --check
+ *
+ * With --defaults, only writes _meta/plugin-defaults.json: the registered
+ * defaults the server leaves out of post_content, as the editor does, and
+ * the names of all registered attributes, which tell a misspelled attribute
+ * from one the curated schema lacks
+ *
+ *   tsx scripts/generate-staged-schema.ts --from-source --defaults
  */
 
 import fs from 'fs';
 import path from 'path';
+import {
+  BlockDrift,
+  SourceBlock,
+  diffAttributes,
+  hasDrift,
+  pluginAttributeNames,
+  pluginDefaults,
+  readPluginVersion,
+  readSharedAttributes,
+  readSourceBlocks
+} from './plugin-source.js';
 
 interface BlockInfo {
   name: string;
@@ -391,8 +415,279 @@ async function generateAll() {
   console.log(`   📊 Total: ${generated + skipped + errors}/${catalog.totalBlocks}\n`);
 }
 
+interface SourceOptions {
+  schemasPath: string;
+  freeRoot: string;
+  proRoot: string;
+  outPath: string;
+  /** Only report drift, don't write schemas */
+  check: boolean;
+  /** Only write _meta/plugin-defaults.json */
+  defaults: boolean;
+  blocks: string[];
+}
+
+/**
+ * Contents of _meta/plugin-defaults.json for the plugin sources
+ */
+function pluginDefaultsFile(sourceBlocks: Map<string, SourceBlock>, options: SourceOptions): string {
+  const file = {
+    plugins: {
+      free: readPluginVersion(options.freeRoot),
+      pro: readPluginVersion(options.proRoot)
+    },
+    blocks: pluginDefaults(sourceBlocks),
+    attributes: pluginAttributeNames(sourceBlocks),
+    shared: [...new Set([...readSharedAttributes(options.freeRoot), ...readSharedAttributes(options.proRoot)])].sort()
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+/** Curated attribute properties kept over the generated ones (the plugins have no prose) */
+const CURATED_ATTRIBUTE_PROPERTIES = ['description', 'required', 'enum', 'examples'];
+
+/**
+ * Curated full schemas by block name, with the directory they live in
+ * (directories don't always match block names)
+ */
+function readCuratedSchemas(schemasPath: string): Map<string, { dir: string; schema: any }> {
+  const curated = new Map<string, { dir: string; schema: any }>();
+  const blocksPath = path.join(schemasPath, 'blocks');
+  if (!fs.existsSync(blocksPath)) {
+    return curated;
+  }
+
+  for (const dir of fs.readdirSync(blocksPath).sort()) {
+    const fullPath = path.join(blocksPath, dir, 'full.json');
+    if (!fs.existsSync(fullPath)) {
+      continue;
+    }
+    try {
+      const schema = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+      if (schema.blockName) {
+        curated.set(schema.blockName, { dir, schema });
+      }
+    } catch (error: any) {
+      console.warn(`⚠️  Skipping ${fullPath}: ${error.message}`);
+    }
+  }
+
+  return curated;
+}
+
+/**
+ * Catalog entries by block name
+ */
+function readCatalogBlocks(schemasPath: string): Map<string, BlockInfo> {
+  const blocks = new Map<string, BlockInfo>();
+  const catalogPath = path.join(schemasPath, '_meta', 'catalog.json');
+  if (!fs.existsSync(catalogPath)) {
+    return blocks;
+  }
+
+  const catalog = JSON.parse(fs.readFileSync(catalogPath, 'utf8'));
+  for (const [categoryName, categoryData] of Object.entries<any>(catalog.categories || {})) {
+    for (const block of categoryData.blocks || []) {
+      blocks.set(block.name, {
+        name: block.name,
+        title: block.title,
+        complexity: block.complexity,
+        keywords: block.keywords || [],
+        useCases: block.useCases || [],
+        category: categoryName
+      });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Full schema from the registered attributes, keeping the curated schema's
+ * descriptions and guidelines where there is one
+ */
+function buildSourceSchema(source: SourceBlock, blockInfo: BlockInfo, curated?: any): any {
+  const attributes: Record<string, any> = {};
+  for (const [name, attribute] of Object.entries<any>(source.attributes)) {
+    const curatedAttribute = curated?.attributes?.[name] || {};
+    const prose = Object.fromEntries(
+      CURATED_ATTRIBUTE_PROPERTIES.filter(key => curatedAttribute[key] !== undefined && attribute[key] === undefined)
+        .map(key => [key, curatedAttribute[key]])
+    );
+    attributes[name] = { ...attribute, ...prose };
+  }
+
+  return {
+    ...curated,
+    "$schema": "http://json-schema.org/draft-07/schema#",
+    blockName: source.blockName,
+    version: curated?.version || source.version || "1.0.0",
+    title: curated?.title || source.title || blockInfo.title,
+    category: blockInfo.category,
+    description: curated?.description || source.description || "",
+    source: source.editions.includes('free') ? 'free' : 'pro',
+    attributes,
+    usesContext: source.usesContext || curated?.usesContext,
+    supports: source.supports || curated?.supports
+  };
+}
+
+/**
+ * Generate staged schemas from the plugin sources and report drift
+ * against the curated schemas; returns whether any block drifted
+ */
+async function generateFromSource(options: SourceOptions): Promise<boolean> {
+  const { blocks: sourceBlocks, errors } = readSourceBlocks(options.freeRoot, options.proRoot);
+  const curated = readCuratedSchemas(options.schemasPath);
+  const catalog = readCatalogBlocks(options.schemasPath);
+
+  for (const error of errors) {
+    console.error(`  ❌ ${error}`);
+  }
+
+  const defaultsPath = path.join(options.schemasPath, '_meta', 'plugin-defaults.json');
+  const defaults = pluginDefaultsFile(sourceBlocks, options);
+  if (options.defaults) {
+    fs.writeFileSync(defaultsPath, defaults);
+    console.log(`\n✅ Wrote registered attributes and defaults of ${sourceBlocks.size} blocks to ${defaultsPath}\n`);
+    return errors.length > 0;
+  }
+  const staleDefaults = !fs.existsSync(defaultsPath) || fs.readFileSync(defaultsPath, 'utf8') !== defaults;
+
+  const selected = options.blocks.length > 0
+    ? options.blocks.filter(name => {
+        if (!sourceBlocks.has(name)) {
+          console.warn(`⚠️  ${name} is not registered by the plugins, skipping...`);
+        }
+        return sourceBlocks.has(name);
+      })
+    : [...sourceBlocks.keys()].sort();
+
+  console.log(`\n📦 ${selected.length} blocks registered in the plugin sources\n`);
+
+  const drift: BlockDrift[] = [];
+  const uncurated: string[] = [];
+  let generated = 0;
+
+  for (const blockName of selected) {
+    const source = sourceBlocks.get(blockName)!;
+    const existing = curated.get(blockName);
+
+    if (existing) {
+      const blockDrift = diffAttributes(blockName, existing.schema.attributes || {}, source.attributes);
+      if (hasDrift(blockDrift)) {
+        drift.push(blockDrift);
+      }
+    } else {
+      uncurated.push(blockName);
+    }
+
+    if (options.check) {
+      continue;
+    }
+
+    const blockInfo: BlockInfo = catalog.get(blockName) || {
+      name: blockName,
+      title: source.title || blockName,
+      complexity: 'medium',
+      keywords: [],
+      useCases: [],
+      category: 'uncategorized'
+    };
+    const fullSchema = buildSourceSchema(source, blockInfo, existing?.schema);
+    const blockDir = path.join(options.outPath, 'blocks', existing?.dir || blockName.replace(/^tpgb\//, ''));
+    fs.mkdirSync(blockDir, { recursive: true });
+
+    fs.writeFileSync(path.join(blockDir, 'meta.json'), JSON.stringify(generateMeta(fullSchema, blockInfo), null, 2));
+    fs.writeFileSync(path.join(blockDir, 'core.json'), JSON.stringify(generateCore(fullSchema, blockInfo), null, 2));
+    fs.writeFileSync(path.join(blockDir, 'styling.json'), JSON.stringify(generateStyling(fullSchema, blockInfo), null, 2));
+    fs.writeFileSync(path.join(blockDir, 'full.json'), JSON.stringify(fullSchema, null, 2));
+    generated++;
+  }
+
+  // Curated schemas for blocks the plugins no longer register
+  const unregistered = options.blocks.length > 0
+    ? []
+    : [...curated.keys()].filter(name => !sourceBlocks.has(name)).sort();
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    blocks: selected.length,
+    drifted: drift.length,
+    uncurated,
+    unregistered,
+    errors,
+    drift
+  };
+
+  if (!options.check) {
+    fs.mkdirSync(options.outPath, { recursive: true });
+    fs.writeFileSync(path.join(options.outPath, 'drift-report.json'), JSON.stringify(report, null, 2));
+  }
+
+  for (const blockDrift of drift) {
+    const counts = [
+      ['missing in schema', blockDrift.missingInSchema.length],
+      ['not in source', blockDrift.notInSource.length],
+      ['type', blockDrift.typeMismatches.length],
+      ['default', blockDrift.defaultMismatches.length],
+      ['source', blockDrift.sourceMismatches.length]
+    ].filter(([, count]) => count).map(([label, count]) => `${count} ${label}`);
+    console.log(`  ⚠️  ${blockDrift.blockName}: ${counts.join(', ')}`);
+  }
+  for (const name of unregistered) {
+    console.log(`  ⚠️  ${name}: curated schema, not registered by the plugins`);
+  }
+  if (staleDefaults) {
+    console.log(`  ⚠️  ${defaultsPath} is out of date (npm run schemas:defaults)`);
+  }
+
+  console.log(`\n✨ ${options.check ? 'Drift check' : 'Generation'} complete!`);
+  if (!options.check) {
+    console.log(`   ✅ Generated: ${generated} (in ${options.outPath})`);
+  }
+  console.log(`   ⚠️  Drifted: ${drift.length}`);
+  console.log(`   🆕 Without curated schema: ${uncurated.length}`);
+  console.log(`   🗑️  Not registered: ${unregistered.length}`);
+  console.log(`   ❌ Errors: ${errors.length}\n`);
+
+  return drift.length > 0 || unregistered.length > 0 || errors.length > 0 || staleDefaults;
+}
+
+/**
+ * Value of a --flag <value> argument
+ */
+function argValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (!args.includes('--from-source')) {
+    await generateAll();
+    return;
+  }
+
+  const drifted = await generateFromSource({
+    schemasPath: argValue(args, '--schemas') || './schemas',
+    freeRoot: argValue(args, '--free') || './the-plus-addons-for-block-editor',
+    proRoot: argValue(args, '--pro') || './the-plus-addons-for-block-editor-pro',
+    outPath: argValue(args, '--out') || './generated-schemas',
+    check: args.includes('--check'),
+    defaults: args.includes('--defaults'),
+    blocks: args.flatMap((arg, index) => args[index - 1] === '--block' ? [arg] : [])
+  });
+
+  // CI fails the check until the curated schemas are brought in line
+  if (drifted && args.includes('--check')) {
+    process.exit(1);
+  }
+}
+
 // Run the generator
-generateAll().catch(error => {
+main().catch(error => {
   console.error('Fatal error:', error);
   process.exit(1);
 });
@@ -0,0 +1,581 @@
+/**
+ * Nexter Plugin Source Reader
+ *
+ * Extracts the attributes each block registers in the vendored plugins:
+ * block.json files, and the $attributesOptions arrays of blocks registered
+ * from PHP. Also compares them with the curated schemas to report drift
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type PluginEdition = 'free' | 'pro';
+
+/**
+ * A PHP expression whose value is only known at runtime (a variable,
+ * a function call, a constant)
+ */
+export class PhpExpression {
+  constructor(readonly code: string) {}
+}
+
+export interface SourceBlock {
+  blockName: string;
+  plugin: PluginEdition;
+  /** Editions that register the block */
+  editions: PluginEdition[];
+  /** File the attributes were read from, relative to the plugin root */
+  file: string;
+  title?: string;
+  description?: string;
+  version?: string;
+  parent?: string[];
+  supports?: Record<string, any>;
+  usesContext?: string[];
+  attributes: Record<string, any>;
+  /** Attributes whose default is computed at runtime (left out of attributes' default) */
+  dynamicDefaults: string[];
+}
+
+export interface AttributeMismatch {
+  attribute: string;
+  schema: any;
+  source: any;
+}
+
+export interface BlockDrift {
+  blockName: string;
+  /** Registered by the plugin, missing from the curated schema */
+  missingInSchema: string[];
+  /** In the curated schema, not registered by the plugin */
+  notInSource: string[];
+  typeMismatches: AttributeMismatch[];
+  defaultMismatches: AttributeMismatch[];
+  /** source/selector/attribute differences (where the editor reads the value from) */
+  sourceMismatches: AttributeMismatch[];
+}
+
+/** Translation helpers whose first argument is the value */
+const TRANSLATION_FUNCTIONS = new Set(['__', '_e', '_x', 'esc_html__', 'esc_attr__', 'esc_html_x', 'esc_attr_x']);
+
+/** Attribute properties kept in schemas (style rules and editor flags are dropped) */
+const SCHEMA_PROPERTIES = ['type', 'enum', 'default', 'source', 'selector', 'attribute', 'query', 'multiline'];
+
+/** Where the editor reads a sourced attribute from */
+const SOURCE_PROPERTIES = ['source', 'selector', 'attribute'];
+
+/**
+ * Recursive-descent reader for PHP array literals ([...] and array(...))
+ * with scalar, string and translated-string values
+ */
+class PhpValueReader {
+  private pos: number;
+
+  constructor(private readonly code: string, start: number) {
+    this.pos = start;
+  }
+
+  get position(): number {
+    return this.pos;
+  }
+
+  private skipSpace() {
+    for (;;) {
+      const rest = this.code.slice(this.pos);
+      const match = rest.match(/^(\s+|\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/)/);
+      if (!match) {
+        return;
+      }
+      this.pos += match[0].length;
+    }
+  }
+
+  private peek(text: string): boolean {
+    this.skipSpace();
+    return this.code.startsWith(text, this.pos);
+  }
+
+  private expect(text: string) {
+    if (!this.peek(text)) {
+      throw new Error(`Expected "${text}" at offset ${this.pos}: ${this.code.slice(this.pos, this.pos + 40)}`);
+    }
+    this.pos += text.length;
+  }
+
+  private readString(): string | PhpExpression {
+    const quote = this.code[this.pos];
+    const start = this.pos;
+    let value = '';
+    this.pos++;
+
+    while (this.pos < this.code.length && this.code[this.pos] !== quote) {
+      let char = this.code[this.pos];
+      if (char === '\\') {
+        const next = this.code[this.pos + 1];
+        if (quote === "'") {
+          char = next === "'" || next === '\\' ? next : `\\${next}`;
+        } else {
+          char = ({ n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', $: '$' } as Record<string, string>)[next] ?? `\\${next}`;
+        }
+        this.pos++;
+      } else if (quote === '"' && char === '$' && /[a-zA-Z_{]/.test(this.code[this.pos + 1] || '')) {
+        // Interpolated variable
+        this.pos = this.code.indexOf('"', this.pos + 1) + 1;
+        return new PhpExpression(this.code.slice(start, this.pos));
+      }
+      value += char;
+      this.pos++;
+    }
+
+    this.pos++;
+    return value;
+  }
+
+  /**
+   * Skip the rest of an expression we can't evaluate, up to the next , ] ) or ;
+   */
+  private skipExpression(start: number): PhpExpression {
+    let depth = 0;
+    while (this.pos < this.code.length) {
+      const char = this.code[this.pos];
+      if (char === "'" || char === '"') {
+        this.readString();
+        continue;
+      }
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if ((char === ',' || char === ';') && depth === 0) {
+        break;
+      } else if (char === '=' && this.code[this.pos + 1] === '>' && depth === 0) {
+        break;
+      }
+      this.pos++;
+    }
+    return new PhpExpression(this.code.slice(start, this.pos).trim());
+  }
+
+  private readArray(close: string): any {
+    const entries: Array<[string | number | null, any]> = [];
+
+    while (!this.peek(close)) {
+      const first = this.readValue();
+      if (this.peek('=>')) {
+        this.pos += 2;
+        entries.push([first instanceof PhpExpression ? first.code : first, this.readValue()]);
+      } else {
+        entries.push([null, first]);
+      }
+
+      if (!this.peek(',')) {
+        break;
+      }
+      this.pos++;
+    }
+    this.expect(close);
+
+    if (entries.some(([key]) => key !== null)) {
+      let index = 0;
+      return Object.fromEntries(entries.map(([key, value]) => [key ?? index++, value]));
+    }
+    return entries.map(([, value]) => value);
+  }
+
+  private readPrimary(): any {
+    this.skipSpace();
+    const start = this.pos;
+    const rest = this.code.slice(this.pos);
+
+    if (rest.startsWith('[')) {
+      this.pos++;
+      return this.readArray(']');
+    }
+
+    const arrayCall = rest.match(/^array\s*\(/i);
+    if (arrayCall) {
+      this.pos += arrayCall[0].length;
+      return this.readArray(')');
+    }
+
+    // (object) turns a list into an object keyed by index, as json_encode writes it;
+    // other casts keep the value
+    const cast = rest.match(/^\(\s*(object|array|string|int|integer|float|bool|boolean)\s*\)/i);
+    if (cast) {
+      this.pos += cast[0].length;
+      const value = this.readPrimary();
+      return cast[1].toLowerCase() === 'object' && Array.isArray(value) ? { ...value } : value;
+    }
+
+    if (rest[0] === "'" || rest[0] === '"') {
+      return this.readString();
+    }
+
+    const number = rest.match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      this.pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    const word = rest.match(/^[a-zA-Z_\\][\w\\]*/);
+    if (word) {
+      const lower = word[0].toLowerCase();
+      if (['true', 'false', 'null'].includes(lower) && !/^[\w(]/.test(rest.slice(word[0].length).trimStart())) {
+        this.pos += word[0].length;
+        return lower === 'null' ? null : lower === 'true';
+      }
+
+      if (TRANSLATION_FUNCTIONS.has(word[0])) {
+        this.pos += word[0].length;
+        this.expect('(');
+        const args = this.readArray(')');
+        return Array.isArray(args) && typeof args[0] === 'string' ? args[0] : new PhpExpression(this.code.slice(start, this.pos));
+      }
+    }
+
+    return this.skipExpression(start);
+  }
+
+  /**
+   * Read one value, joining string concatenations ('a' . 'b')
+   */
+  readValue(): any {
+    this.skipSpace();
+    const start = this.pos;
+    let value = this.readPrimary();
+
+    while (this.peek('.') && !this.peek('...')) {
+      this.pos++;
+      const next = this.readPrimary();
+      value = typeof value === 'string' && typeof next === 'string'
+        ? value + next
+        : new PhpExpression(this.code.slice(start, this.pos).trim());
+    }
+
+    // Anything else (ternaries, arithmetic) is evaluated at runtime
+    this.skipSpace();
+    if (!/^(,|\]|\)|;|=>|$)/.test(this.code.slice(this.pos))) {
+      return this.skipExpression(start);
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Parse the PHP value that starts at an offset (an array literal, string, ...)
+ */
+export function parsePhpValue(code: string, start: number = 0): any {
+  return new PhpValueReader(code, start).readValue();
+}
+
+/**
+ * Attributes and block name from a PHP file that registers a block with
+ * register_block_type( 'tpgb/...', array( 'attributes' => $attributesOptions ) )
+ */
+export function extractPhpBlock(code: string): { blockName: string; attributes: Record<string, any> } | null {
+  const registration = code.match(/register_block_type\(\s*['"]([^'"]+)['"]/);
+  const assignment = code.match(/\$attributesOptions\s*=\s*(?=\[|array\s*\()/i);
+  if (!registration || !assignment || assignment.index === undefined) {
+    return null;
+  }
+
+  const attributes = parsePhpValue(code, assignment.index + assignment[0].length);
+  if (!attributes || typeof attributes !== 'object' || Array.isArray(attributes)) {
+    throw new Error('$attributesOptions is not an associative array');
+  }
+
+  return { blockName: registration[1], attributes };
+}
+
+/**
+ * Attribute definition as schemas store it, without runtime defaults
+ */
+function toSchemaAttribute(attribute: any): { attribute: Record<string, any>; dynamicDefault: boolean } {
+  const result: Record<string, any> = {};
+  let dynamicDefault = false;
+
+  for (const key of SCHEMA_PROPERTIES) {
+    if (attribute?.[key] === undefined) {
+      continue;
+    }
+
+    if (key === 'default' && containsExpression(attribute.default)) {
+      dynamicDefault = true;
+      continue;
+    }
+    result[key] = attribute[key];
+  }
+
+  return { attribute: result, dynamicDefault };
+}
+
+function containsExpression(value: any): boolean {
+  if (value instanceof PhpExpression) {
+    return true;
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(containsExpression);
+  }
+  return false;
+}
+
+/**
+ * Every block one plugin registers, from block.json files and PHP registrations
+ */
+export function readPluginBlocks(pluginRoot: string, plugin: PluginEdition): { blocks: SourceBlock[]; errors: string[] } {
+  const blocks: SourceBlock[] = [];
+  const errors: string[] = [];
+  const blocksRoot = path.join(pluginRoot, 'classes', 'blocks');
+
+  const addBlock = (file: string, blockName: string, rawAttributes: Record<string, any>, metadata: any = {}) => {
+    const attributes: Record<string, any> = {};
+    const dynamicDefaults: string[] = [];
+    for (const [name, raw] of Object.entries<any>(rawAttributes)) {
+      const converted = toSchemaAttribute(raw);
+      attributes[name] = converted.attribute;
+      if (converted.dynamicDefault) {
+        dynamicDefaults.push(name);
+      }
+    }
+
+    blocks.push({
+      blockName,
+      plugin,
+      editions: [plugin],
+      file: path.relative(pluginRoot, file),
+      title: metadata.title,
+      description: metadata.description,
+      version: metadata.version,
+      parent: metadata.parent,
+      supports: metadata.supports,
+      usesContext: metadata.usesContext,
+      attributes,
+      dynamicDefaults
+    });
+  };
+
+  const visit = (dir: string) => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    const blockJson = path.join(dir, 'block.json');
+
+    if (fs.existsSync(blockJson)) {
+      try {
+        const metadata = JSON.parse(fs.readFileSync(blockJson, 'utf8'));
+        if (metadata.name) {
+          addBlock(blockJson, metadata.name, metadata.attributes || {}, metadata);
+        }
+      } catch (error: any) {
+        errors.push(`${path.relative(pluginRoot, blockJson)}: ${error.message}`);
+      }
+    } else {
+      for (const entry of entries.filter(entry => entry.isFile() && entry.name.endsWith('.php'))) {
+        const file = path.join(dir, entry.name);
+        const code = fs.readFileSync(file, 'utf8');
+        if (!code.includes('$attributesOptions')) {
+          continue;
+        }
+        try {
+          const block = extractPhpBlock(code);
+          if (block) {
+            addBlock(file, block.blockName, block.attributes);
+          }
+        } catch (error: any) {
+          errors.push(`${path.relative(pluginRoot, file)}: ${error.message}`);
+        }
+      }
+    }
+
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      visit(path.join(dir, entry.name));
+    }
+  };
+
+  if (fs.existsSync(blocksRoot)) {
+    visit(blocksRoot);
+  }
+
+  return { blocks, errors };
+}
+
+/**
+ * Whether a parsed value is a map of attribute definitions by name
+ */
+function isAttributeMap(value: any): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0 &&
+    Object.values<any>(value).every(attribute => attribute && typeof attribute === 'object' && typeof attribute.type === 'string');
+}
+
+/**
+ * Names of the attributes a plugin merges into many blocks at registration
+ * (background, positioning, carousel, Plus button, display rules, ...): the
+ * option files and attribute arrays outside classes/blocks
+ */
+export function readSharedAttributes(pluginRoot: string): string[] {
+  const names = new Set<string>();
+
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== 'blocks') {
+          visit(file);
+        }
+        continue;
+      }
+
+      if (entry.name.endsWith('.json')) {
+        try {
+          const options = JSON.parse(fs.readFileSync(file, 'utf8'));
+          if (isAttributeMap(options)) {
+            Object.keys(options).forEach(name => names.add(name));
+          }
+        } catch {
+          // Not an option file
+        }
+      } else if (entry.name.endsWith('.php')) {
+        const code = fs.readFileSync(file, 'utf8');
+        for (const assignment of code.matchAll(/\$\w+\s*=\s*(?=\[|array\s*\()/gi)) {
+          let options: any;
+          try {
+            options = parsePhpValue(code, (assignment.index ?? 0) + assignment[0].length);
+          } catch {
+            continue;
+          }
+          if (isAttributeMap(options)) {
+            Object.keys(options).forEach(name => names.add(name));
+          }
+        }
+      }
+    }
+  };
+
+  const classesRoot = path.join(pluginRoot, 'classes');
+  if (fs.existsSync(classesRoot)) {
+    visit(classesRoot);
+  }
+
+  return [...names].sort();
+}
+
+/**
+ * Blocks from both editions; the Pro plugin re-registers free blocks, so its
+ * attributes win, while editions records where the block is available
+ */
+export function readSourceBlocks(freeRoot: string, proRoot: string): { blocks: Map<string, SourceBlock>; errors: string[] } {
+  const blocks = new Map<string, SourceBlock>();
+  const errors: string[] = [];
+
+  for (const [root, plugin] of [[freeRoot, 'free'], [proRoot, 'pro']] as Array<[string, PluginEdition]>) {
+    const read = readPluginBlocks(root, plugin);
+    errors.push(...read.errors.map(error => `${plugin}: ${error}`));
+
+    for (const block of read.blocks) {
+      const existing = blocks.get(block.blockName);
+      if (existing && existing.plugin === plugin) {
+        continue;
+      }
+      blocks.set(block.blockName, existing ? { ...block, editions: [...existing.editions, plugin] } : block);
+    }
+  }
+
+  return { blocks, errors };
+}
+
+/**
+ * JSON equality ignoring key order
+ */
+function sameValue(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => sameValue(a[key], b[key]));
+}
+
+/**
+ * Compare a curated schema's attributes with the ones the plugin registers
+ * ($ref attributes are only checked for presence)
+ */
+export function diffAttributes(
+  blockName: string,
+  schemaAttributes: Record<string, any>,
+  sourceAttributes: Record<string, any>
+): BlockDrift {
+  const drift: BlockDrift = {
+    blockName,
+    missingInSchema: Object.keys(sourceAttributes).filter(name => !(name in schemaAttributes)),
+    notInSource: Object.keys(schemaAttributes).filter(name => !(name in sourceAttributes)),
+    typeMismatches: [],
+    defaultMismatches: [],
+    sourceMismatches: []
+  };
+
+  for (const [name, schema] of Object.entries<any>(schemaAttributes)) {
+    const source = sourceAttributes[name];
+    if (!source || !schema || schema.$ref) {
+      continue;
+    }
+
+    if (schema.type && source.type && !sameValue(schema.type, source.type)) {
+      drift.typeMismatches.push({ attribute: name, schema: schema.type, source: source.type });
+    }
+
+    if (schema.default !== undefined && source.default !== undefined && !sameValue(schema.default, source.default)) {
+      drift.defaultMismatches.push({ attribute: name, schema: schema.default, source: source.default });
+    }
+
+    const schemaSource = Object.fromEntries(SOURCE_PROPERTIES.map(key => [key, schema[key]]));
+    const sourceSource = Object.fromEntries(SOURCE_PROPERTIES.map(key => [key, source[key]]));
+    if (!sameValue(schemaSource, sourceSource)) {
+      drift.sourceMismatches.push({ attribute: name, schema: schemaSource, source: sourceSource });
+    }
+  }
+
+  return drift;
+}
+
+export function hasDrift(drift: BlockDrift): boolean {
+  return drift.missingInSchema.length + drift.notInSource.length + drift.typeMismatches.length +
+    drift.defaultMismatches.length + drift.sourceMismatches.length > 0;
+}
+
+/**
+ * Version from a plugin's main file header (the-plus-addons-for-block-editor.php)
+ */
+export function readPluginVersion(pluginRoot: string): string | undefined {
+  const mainFile = path.join(pluginRoot, `${path.basename(path.resolve(pluginRoot))}.php`);
+  if (!fs.existsSync(mainFile)) {
+    return undefined;
+  }
+  return fs.readFileSync(mainFile, 'utf8').match(/^[\s*]*Version:\s*(\S+)/m)?.[1];
+}
+
+/**
+ * Registered default of every attribute that has one known statically, by
+ * block name; defaults computed at runtime are left out
+ */
+export function pluginDefaults(blocks: Map<string, SourceBlock>): Record<string, Record<string, any>> {
+  const defaults: Record<string, Record<string, any>> = {};
+  for (const blockName of [...blocks.keys()].sort()) {
+    defaults[blockName] = Object.fromEntries(
+      Object.entries<any>(blocks.get(blockName)!.attributes)
+        .filter(([, attribute]) => attribute.default !== undefined)
+        .map(([name, attribute]) => [name, attribute.default])
+    );
+  }
+  return defaults;
+}
+
+/**
+ * Names of the attributes each block registers itself, by block name
+ */
+export function pluginAttributeNames(blocks: Map<string, SourceBlock>): Record<string, string[]> {
+  return Object.fromEntries([...blocks.keys()].sort().map(blockName => [blockName, Object.keys(blocks.get(blockName)!.attributes)]));
+}
@@ -7,17 +7,25 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
 import express, { Request, Response } from 'express';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
-import { registerTools, toolHandlers, toolDefinitions } from './tools/index.js';
+import { registerTools } from './tools/index.js';
 import { registerResources } from './resources/index.js';
-import { WordPressClient } from './services/wordpress-client.js';
+import { registerPrompts } from './prompts/index.js';
+import { SiteRegistry } from './services/site-registry.js';
 import { SchemaLoader } from './services/schema-loader.js';
+import { TemplateLibrary } from './services/template-library.js';
 import { logger } from './utils/logger.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createAuthMiddleware, hasScope, isAuthEnabled, loadAuthConfig, requiredScopeForTool } from './utils/auth.js';
+import { insufficientScopeError, schemaReloadRejectedError } from './utils/error-handler.js';
 
 // ES module __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
@@ -26,8 +34,8 @@ const __dirname = path.dirname(__filename);
 // Load environment variables
 dotenv.config();
 
-// Validate required environment variables
-const requiredEnvVars = ['WORDPRESS_URL', 'WP_USERNAME', 'WP_APP_PASSWORD'];
+// Validate required environment variables (a sites file replaces the single-site settings)
+const requiredEnvVars = process.env.WP_SITES_FILE ? [] : ['WORDPRESS_URL', 'WP_USERNAME', 'WP_APP_PASSWORD'];
 for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
     console.error(`❌ Missing required environment variable: ${envVar}`);
@@ -36,36 +44,151 @@ for (const envVar of requiredEnvVars) {
 }
 
 // Initialize services
-const wpClient = new WordPressClient();
+let sites: SiteRegistry;
+try {
+  sites = new SiteRegistry(process.env.WP_SITES_FILE);
+} catch (error: any) {
+  console.error(`❌ Invalid site configuration: ${error.message}`);
+  process.exit(1);
+}
+// Connect to the default site up front, other sites on first use
+sites.getClient();
 const schemaLoader = new SchemaLoader(path.join(__dirname, '../schemas'));
+const templates = new TemplateLibrary(path.join(__dirname, '../templates'));
+
+// Pick up schema edits without a restart (SCHEMAS_WATCH=false to disable)
+if (process.env.SCHEMAS_WATCH !== 'false') {
+  schemaLoader.watch();
+}
 
-// Create MCP server
-const mcpServer = new Server(
-  {
-    name: 'nexter-mcp-server',
-    version: '1.0.0'
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {}
+/**
+ * Create an MCP server with all tools, resources and prompts registered
+ * Stdio uses a single server; HTTP creates one per session
+ */
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'nexter-mcp-server',
+      version: '1.0.0'
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {}
+      }
     }
+  );
+
+  registerTools(server, sites, schemaLoader, templates);
+  registerResources(server, schemaLoader);
+  registerPrompts(server, schemaLoader);
+
+  return server;
+}
+
+/**
+ * Split a JSON-RPC batch into the entries for the transport and one
+ * Invalid Request error per malformed entry
+ */
+function splitBatch(batch: unknown[]): { valid: unknown[]; errors: object[] } {
+  const valid: unknown[] = [];
+  const errors: object[] = [];
+
+  batch.forEach((entry: any, index) => {
+    if (JSONRPCMessageSchema.safeParse(entry).success) {
+      valid.push(entry);
+    } else {
+      errors.push({
+        jsonrpc: '2.0',
+        error: { code: -32600, message: `Invalid Request: batch entry ${index} is not a JSON-RPC 2.0 message` },
+        id: typeof entry?.id === 'string' || typeof entry?.id === 'number' ? entry.id : null
+      });
+    }
+  });
+
+  return { valid, errors };
+}
+
+/**
+ * Let the transport answer the valid entries of a batch into a buffer, then
+ * send its responses together with the errors for the malformed entries
+ */
+async function handleBatchWithErrors(
+  transport: StreamableHTTPServerTransport,
+  req: Request,
+  res: Response,
+  entries: unknown[],
+  errors: object[]
+) {
+  const original = { writeHead: res.writeHead, write: res.write, end: res.end, flushHeaders: res.flushHeaders };
+  const chunks: Buffer[] = [];
+  let status = 200;
+  let headers: Record<string, any> = {};
+
+  const finished = new Promise<void>(resolve => {
+    const capture = (chunk: any) => {
+      if (chunk && typeof chunk !== 'function') {
+        chunks.push(Buffer.from(chunk));
+      }
+    };
+    (res as any).writeHead = (code: number, ...rest: any[]) => {
+      status = code;
+      headers = { ...headers, ...rest.find(arg => arg && typeof arg === 'object') };
+      return res;
+    };
+    (res as any).write = (chunk: any) => {
+      capture(chunk);
+      return true;
+    };
+    (res as any).end = (chunk?: any) => {
+      capture(chunk);
+      resolve();
+      return res;
+    };
+    (res as any).flushHeaders = () => {};
+  });
+
+  try {
+    await transport.handleRequest(req, res, entries);
+    await finished;
+  } finally {
+    Object.assign(res, original);
   }
-);
 
-// Register tools and resources
-registerTools(mcpServer, wpClient, schemaLoader);
-registerResources(mcpServer, schemaLoader);
+  const body = Buffer.concat(chunks).toString('utf8');
+  const isJson = String(headers['content-type'] || headers['Content-Type'] || '').includes('application/json');
+
+  // 200 with the responses, or 202 when every valid entry was a notification
+  if ((status === 200 && isJson) || (status === 202 && !body)) {
+    const responses = body ? JSON.parse(body) : [];
+    for (const [name, value] of Object.entries(headers)) {
+      if (!/^content-(type|length)$/i.test(name)) {
+        res.setHeader(name, value);
+      }
+    }
+    return res.status(200).json([...(Array.isArray(responses) ? responses : [responses]), ...errors]);
+  }
+
+  // Transport-level failures (unknown session, bad headers) are sent as they are
+  res.writeHead(status, headers);
+  res.end(body);
+}
 
 // Transport mode
 const transportMode = process.env.MCP_TRANSPORT || 'http';
 const port = parseInt(process.env.PORT || '3000', 10);
 
+// HTTP sessions without a request for this long are closed, so clients that
+// never send DELETE /mcp don't keep their server and transport alive forever
+const sessionIdleMs = parseInt(process.env.MCP_SESSION_IDLE_MS || String(30 * 60 * 1000), 10);
+const SESSION_SWEEP_MS = 60 * 1000;
+
 async function startServer() {
   if (transportMode === 'stdio') {
     // Stdio transport (for local CLI usage)
     const transport = new StdioServerTransport();
-    await mcpServer.connect(transport);
+    await createMcpServer().connect(transport);
     logger.info('MCP Server running on stdio transport');
     
   } else {
@@ -77,7 +200,13 @@ async function startServer() {
     app.set('trust proxy', 1);
     
     // Middleware
-    app.use(express.json({ limit: '10mb' }));
+    app.use(express.json({
+      limit: '10mb',
+      // Keep the raw body for HMAC signature checks
+      verify: (req, _res, buf) => {
+        (req as any).rawBody = buf;
+      }
+    }));
     app.use(compression());
     
     // Rate limiting
@@ -90,30 +219,82 @@ async function startServer() {
     });
     
     app.use('/mcp', limiter);
+    app.use('/admin', limiter);
+    app.use('/test-connection', limiter);
+
+    // Built-in auth (bearer tokens and/or HMAC), enabled when credentials are configured
+    const authConfig = loadAuthConfig();
+    if (isAuthEnabled(authConfig)) {
+      app.use('/mcp', createAuthMiddleware(authConfig));
+      app.use('/admin', createAuthMiddleware(authConfig));
+      app.use('/test-connection', createAuthMiddleware(authConfig));
+    }
+
+    // Streamable HTTP sessions, keyed by Mcp-Session-Id, with the time of their last request
+    const transports = new Map<string, StreamableHTTPServerTransport>();
+    const lastActivity = new Map<string, number>();
+
+    const sweepTimer = setInterval(() => {
+      const cutoff = Date.now() - sessionIdleMs;
+      for (const [id, transport] of transports) {
+        if ((lastActivity.get(id) ?? 0) < cutoff) {
+          logger.info('Closing idle MCP session', { sessionId: id });
+          // onclose removes the session from both maps
+          transport.close().catch(error => logger.error('Failed to close idle MCP session:', error));
+        }
+      }
+    }, SESSION_SWEEP_MS);
+    sweepTimer.unref();
     
-    // Health check endpoint
+    // Health check endpoint (unauthenticated: aggregate status only, no site names, URLs or errors)
     app.get('/health', (req: Request, res: Response) => {
+      const siteList = sites.listSites();
       res.json({
         status: 'healthy',
         version: '1.0.0',
         uptime: process.uptime(),
         wordpress: {
-          url: process.env.WORDPRESS_URL,
-          connected: wpClient.isConnected()
+          sites: siteList.length,
+          healthy: siteList.filter(site => site.health.connected).length
         },
         schemas: {
           loaded: schemaLoader.getLoadedCount(),
-          total: schemaLoader.getTotalCount(),
-          path: path.join(__dirname, '../schemas')
+          total: schemaLoader.getTotalCount()
+        },
+        mcp: {
+          sessions: transports.size
         }
       });
     });
-    
-    // Test connection endpoint
+
+    // Per-site URL and connection health, for operators (the list_sites tool, for scripts)
+    app.get('/admin/sites', (req: Request, res: Response) => {
+      const auth = (req as Request & { auth?: AuthInfo }).auth;
+      if (!hasScope(auth, requiredScopeForTool('list_sites'))) {
+        return res.status(403).json(insufficientScopeError('list_sites', requiredScopeForTool('list_sites'), auth?.scopes || []));
+      }
+
+      res.json({
+        default_site: sites.getDefaultName(),
+        sites: sites.listSites().map(({ name, label, url, health }) => ({ name, label, url, ...health }))
+      });
+    });
+
+    // Test connection endpoint (?site=name, defaults to the default site); authenticated like /admin
     app.post('/test-connection', async (req: Request, res: Response) => {
+      const auth = (req as Request & { auth?: AuthInfo }).auth;
+      if (!hasScope(auth, requiredScopeForTool('list_sites'))) {
+        return res.status(403).json(insufficientScopeError('test_connection', requiredScopeForTool('list_sites'), auth?.scopes || []));
+      }
+
+      const site = (req.query.site as string | undefined) || req.body?.site;
+      if (!sites.has(site)) {
+        return res.status(404).json({ success: false, error: `Unknown site: ${site}` });
+      }
+
       try {
-        await wpClient.testConnection();
-        res.json({ success: true, message: 'WordPress connection successful' });
+        await sites.getClient(site).testConnection();
+        res.json({ success: true, site: site || sites.getDefaultName(), message: 'WordPress connection successful' });
       } catch (error: any) {
         res.status(500).json({ 
           success: false, 
@@ -121,219 +302,174 @@ async function startServer() {
         });
       }
     });
-    
-    // GET /mcp - Return 405 Method Not Allowed (MCP spec compliance)
-    app.get('/mcp', (req: Request, res: Response) => {
-      res.setHeader('Allow', 'POST');
-      res.status(405).send('GET /mcp is not supported. This server only supports POST /mcp for MCP protocol.');
+
+    // Reload schemas from disk and report what changed (the reload_schemas tool, for scripts)
+    app.post('/admin/reload-schemas', async (req: Request, res: Response) => {
+      const auth = (req as Request & { auth?: AuthInfo }).auth;
+      if (!hasScope(auth, 'schemas:admin')) {
+        return res.status(403).json(insufficientScopeError('reload_schemas', 'schemas:admin', auth?.scopes || []));
+      }
+
+      try {
+        const report = await schemaLoader.reload();
+        if (!report.applied) {
+          return res.status(422).json(schemaReloadRejectedError(report.errors, report));
+        }
+        res.json({ success: true, ...report });
+      } catch (error: any) {
+        logger.error('Schema reload failed:', error);
+        res.status(500).json({ success: false, error: error.message });
+      }
     });
 
-    // POST /mcp - Main MCP endpoint (HTTP transport)
+    // POST /mcp - MCP Streamable HTTP endpoint (JSON-RPC requests, responses and notifications)
     //
     // SECURITY MODEL:
-    // This endpoint intentionally has NO authentication because:
+    // With MCP_AUTH_TOKENS or MCP_HMAC_SECRET set, every /mcp request must carry
+    // a bearer token or HMAC signature, and each tool call is checked against
+    // the credential's scopes (schemas:read, content:read, content:write, schemas:admin).
+    // Without them the endpoint has NO authentication and relies on:
     // 1. Runs in isolated Docker network (not exposed to internet)
     // 2. Traefik handles external auth/routing at proxy layer
     // 3. All WordPress operations use WordPress Application Passwords
     // 4. Rate limiting prevents abuse from within network
-    // 5. Only accepts JSON-RPC 2.0 formatted requests
+    // 5. Only accepts JSON-RPC 2.0 formatted requests (single or batch arrays)
     //
     // External access: https://nexter.aiengineops.com/mcp → Traefik → internal:3000/mcp
     app.post('/mcp', async (req: Request, res: Response) => {
       try {
-        const request = req.body;
-        logger.info('MCP request received:', request?.method);
-        
-        // Validate JSON-RPC structure
-        if (!request || !request.jsonrpc || request.jsonrpc !== '2.0') {
-          return res.status(400).json({
-            jsonrpc: '2.0',
-            error: { code: -32600, message: 'Invalid Request' },
-            id: request?.id ?? 0
-          });
-        }
-        
-        // Route based on method
-        let result: any;
-        
-        // Handle notifications (methods that don't expect a response)
-        if (request.method && request.method.startsWith('notifications/')) {
-          logger.info('Notification received:', request.method);
-          // Don't send a response for notifications per JSON-RPC 2.0 spec
-          return res.status(204).end();
-        }
-        
-        if (request.method === 'initialize') {
-          result = {
-            protocolVersion: '2024-11-05',
-            capabilities: {
-              tools: {},
-              resources: {}
-            },
-            serverInfo: {
-              name: 'nexter-mcp-server',
-              version: '1.0.0'
-            }
-          };
-        } else if (request.method === 'tools/list') {
-          result = { tools: toolDefinitions };
-        } else if (request.method === 'resources/list') {
-          // Expose schema-related resources over HTTP transport
-          result = {
-            resources: [
-              {
-                uri: 'nexter://schemas/index',
-                name: 'All Nexter Block Schemas Index',
-                description: 'Master index of all available Nexter blocks with categories and use cases',
-                mimeType: 'application/json'
-              },
-              {
-                uri: 'nexter://schemas/categories',
-                name: 'Blocks by Category',
-                description: 'All blocks organized by category (content, layout, interactive, etc.)',
-                mimeType: 'application/json'
-              },
-              {
-                uri: 'nexter://schemas/use-cases',
-                name: 'Common Block Patterns',
-                description: 'Pre-defined block combinations for common use cases (hero, FAQ, pricing, etc.)',
-                mimeType: 'application/json'
-              }
-            ]
-          };
-        } else if (request.method === 'resources/read') {
-          const uri = request.params?.uri;
-
-          if (!uri) {
+        // Malformed batch entries get an error each; the rest are handled normally
+        let body = req.body;
+        let batchErrors: object[] = [];
+        if (Array.isArray(req.body)) {
+          if (req.body.length === 0) {
             return res.status(400).json({
               jsonrpc: '2.0',
-              error: { code: -32602, message: 'Missing required param: uri' },
-              id: request.id ?? 0
+              error: { code: -32600, message: 'Invalid Request: empty batch' },
+              id: null
             });
           }
 
-          if (uri === 'nexter://schemas/index') {
-            const index = schemaLoader.getIndex();
-            result = {
-              contents: [{
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(index, null, 2)
-              }]
-            };
-          } else if (uri === 'nexter://schemas/categories') {
-            const categories = schemaLoader.getCategories();
-            result = {
-              contents: [{
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(categories, null, 2)
-              }]
-            };
-          } else if (uri === 'nexter://schemas/use-cases') {
-            const useCases = schemaLoader.getUseCases();
-            result = {
-              contents: [{
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(useCases, null, 2)
-              }]
-            };
-          } else if (uri.startsWith('nexter://schemas/block/')) {
-            const blockName = uri.replace('nexter://schemas/block/', '');
-            const schemas = await schemaLoader.getSchemas([blockName]);
-
-            if (schemas.length === 0) {
-              return res.status(404).json({
-                jsonrpc: '2.0',
-                error: { code: -32602, message: `Schema not found: ${blockName}` },
-                id: request.id ?? 0
-              });
-            }
+          const batch = splitBatch(req.body);
+          if (batch.valid.length === 0) {
+            return res.status(400).json(batch.errors);
+          }
+          body = batch.valid;
+          batchErrors = batch.errors;
+        }
 
-            result = {
-              contents: [{
-                uri,
-                mimeType: 'application/json',
-                text: JSON.stringify(schemas[0], null, 2)
-              }]
-            };
-          } else {
-            return res.status(400).json({
+        const sessionId = req.header('mcp-session-id');
+        let transport = sessionId ? transports.get(sessionId) : undefined;
+
+        if (transport) {
+          lastActivity.set(sessionId!, Date.now());
+        } else {
+          if (sessionId) {
+            return res.status(404).json({
               jsonrpc: '2.0',
-              error: { code: -32601, message: `Unknown resource URI: ${uri}` },
-              id: request.id ?? 0
+              error: { code: -32001, message: `Session not found: ${sessionId}` },
+              id: null
             });
           }
-        } else if (request.method === 'resources/templates/list') {
-          result = { resourceTemplates: [] };
-        } else if (request.method === 'prompts/list') {
-          result = { prompts: [] };
-        } else if (request.method === 'tools/call') {
-          // Call the actual tool handler
-          const toolName = request.params?.name;
-          const toolArgs = request.params?.arguments || {};
-
-          // Note: Using 'as any' here because toolHandlers have different signatures
-          // and TypeScript can't infer which one is being called at runtime
-          const handler = (toolHandlers as any)[toolName];
-          if (!handler) {
+
+          if (!isInitializeRequest(req.body)) {
             return res.status(400).json({
               jsonrpc: '2.0',
-              error: { code: -32601, message: `Tool not found: ${toolName}` },
-              id: request.id ?? 0
+              error: { code: -32000, message: 'Bad Request: initialize first or send a valid Mcp-Session-Id header' },
+              id: null
             });
           }
-          
-          // Execute tool with appropriate dependencies
-          let toolResult;
-          if (toolName === 'get_block_schemas') {
-            toolResult = await handler(toolArgs, schemaLoader);
-          } else if (toolName === 'analyze_content' || toolName === 'edit_content') {
-            toolResult = await handler(toolArgs, wpClient, schemaLoader);
-          } else {
-            toolResult = await handler(toolArgs, wpClient);
-          }
-          
-          result = {
-            content: [{
-              type: 'text',
-              text: JSON.stringify(toolResult, null, 2)
-            }]
+
+          // New session: its own server instance, sharing the tool and resource handlers
+          const newTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            // Reply with plain JSON instead of SSE, so a batch gets one array
+            // of responses in request order (notifications get none)
+            enableJsonResponse: true,
+            onsessioninitialized: (id) => {
+              transports.set(id, newTransport);
+              lastActivity.set(id, Date.now());
+              logger.info('MCP session initialized', { sessionId: id });
+            }
+          });
+
+          newTransport.onclose = () => {
+            if (newTransport.sessionId) {
+              transports.delete(newTransport.sessionId);
+              lastActivity.delete(newTransport.sessionId);
+              logger.info('MCP session closed', { sessionId: newTransport.sessionId });
+            }
           };
+
+          await createMcpServer().connect(newTransport);
+          transport = newTransport;
+        }
+
+        if (batchErrors.length > 0) {
+          await handleBatchWithErrors(transport, req, res, body, batchErrors);
         } else {
-          return res.status(400).json({
-            jsonrpc: '2.0',
-            error: { code: -32601, message: `Method not found: ${request.method}` },
-            id: request.id ?? 0
-          });
+          await transport.handleRequest(req, res, body);
         }
-        
-        res.json({
-          jsonrpc: '2.0',
-          result,
-          id: request.id ?? 0
-        });
-        
-        logger.info('MCP request completed:', request.method);
       } catch (error: any) {
         logger.error('MCP request error:', error);
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: { code: -32603, message: error.message || 'Internal server error' },
-          id: req.body?.id ?? 0
-        });
+        if (!res.headersSent) {
+          res.status(500).json({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: error.message || 'Internal server error' },
+            id: null
+          });
+        }
       }
     });
+
+    // GET /mcp opens the SSE stream for server-initiated notifications,
+    // DELETE /mcp terminates the session
+    const handleSessionRequest = async (req: Request, res: Response) => {
+      try {
+        const sessionId = req.header('mcp-session-id');
+        const transport = sessionId ? transports.get(sessionId) : undefined;
+
+        if (!transport) {
+          return res.status(sessionId ? 404 : 400).json({
+            jsonrpc: '2.0',
+            error: {
+              code: sessionId ? -32001 : -32000,
+              message: sessionId ? `Session not found: ${sessionId}` : 'Missing Mcp-Session-Id header'
+            },
+            id: null
+          });
+        }
+
+        lastActivity.set(sessionId!, Date.now());
+        await transport.handleRequest(req, res);
+      } catch (error: any) {
+        logger.error('MCP session request error:', error);
+        if (!res.headersSent) {
+          res.status(500).json({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: error.message || 'Internal server error' },
+            id: null
+          });
+        }
+      }
+    };
+
+    app.get('/mcp', handleSessionRequest);
+    app.delete('/mcp', handleSessionRequest);
     
     // Start HTTP server
     app.listen(port, () => {
       logger.info(`🚀 MCP Server listening on port ${port}`);
       logger.info(`📡 Transport mode: ${transportMode}`);
-      logger.info(`🌐 WordPress URL: ${process.env.WORDPRESS_URL}`);
+      logger.info(`🌐 WordPress sites: ${sites.getNames().join(', ')} (default: ${sites.getDefaultName()})`);
       logger.info(`📚 Schemas path: ${path.join(__dirname, '../schemas')}`);
       logger.info(`✅ Health check: http://localhost:${port}/health`);
-      logger.info(`🔌 MCP HTTP endpoint: POST http://localhost:${port}/mcp`);
+      logger.info(`🏷️  Site status: http://localhost:${port}/admin/sites`);
+      logger.info(`🔄 Schema reload: POST http://localhost:${port}/admin/reload-schemas`);
+      logger.info(`🔌 MCP Streamable HTTP endpoint: http://localhost:${port}/mcp`);
+      logger.info(isAuthEnabled(authConfig)
+        ? `🔒 Auth enabled: ${authConfig.tokens.size} token(s)${authConfig.hmacSecret ? ' + HMAC' : ''}`
+        : '⚠️  Auth disabled: set MCP_AUTH_TOKENS or MCP_HMAC_SECRET unless a proxy authenticates requests');
     });
   }
 }
@@ -0,0 +1,221 @@
+/**
+ * MCP Prompts Registration
+ *
+ * Parameterised prompts for common page-building workflows
+ * Each prompt embeds the relevant block schemas (core level) so agents
+ * start from the same vetted instructions and attribute names
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { GetPromptRequestSchema, ListPromptsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { SchemaLoader } from '../services/schema-loader.js';
+import { logger } from '../utils/logger.js';
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Blocks whose core schemas are embedded in the prompt */
+  blocks: string[];
+  /** Common definitions embedded in the prompt */
+  definitions?: string[];
+  instructions: (args: Record<string, string>) => string;
+}
+
+/**
+ * Rules shared by every workflow, matching how the tools expect content
+ */
+const GROUND_RULES = [
+  'Use only attribute names that appear in the embedded schemas; call get_block_schemas for any other block before using it.',
+  'Run validate_content on new blocks before create_content or edit_content, and fix every reported error.',
+  'When editing, call analyze_content first and never change block_id or className values.',
+  'Save as draft; publishing is a separate, explicit set_post_status step.'
+];
+
+function rules(): string {
+  return GROUND_RULES.map(rule => `- ${rule}`).join('\n');
+}
+
+/**
+ * "heroSection" -> "hero section"
+ */
+function humanize(useCase: string): string {
+  return useCase
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[-_]+/g, ' ')
+    .toLowerCase();
+}
+
+/**
+ * Use case blocks as plain names (catalog lists names, the legacy file lists { name } objects)
+ */
+function useCaseBlocks(useCases: Record<string, any>, useCase: string): string[] {
+  const entry = useCases?.[useCase];
+  const blocks = Array.isArray(entry) ? entry : entry?.blocks || [];
+  return blocks.map((block: any) => (typeof block === 'string' ? block : block.name)).filter(Boolean);
+}
+
+/**
+ * Build the prompt list from the use cases in the catalog
+ */
+function buildPrompts(schemaLoader: SchemaLoader): PromptDefinition[] {
+  const useCases = schemaLoader.getUseCases() || {};
+  const prompts: PromptDefinition[] = [];
+
+  for (const useCase of Object.keys(useCases)) {
+    const label = humanize(useCase);
+    const blocks = useCaseBlocks(useCases, useCase);
+
+    prompts.push({
+      name: `build-${label.replace(/ /g, '-')}`,
+      description: `Build a ${label} with ${blocks.map(block => block.replace('tpgb/', '')).join(', ') || 'Nexter blocks'}`,
+      arguments: [
+        { name: 'brief', description: 'What the section should say or achieve (copy, audience, tone)' },
+        { name: 'post_id', description: 'Existing post to add the section to (omit to create a new draft)' }
+      ],
+      blocks,
+      instructions: args => [
+        `Build a ${label} using Nexter blocks.`,
+        args.brief ? `Brief: ${args.brief}` : 'No brief was given: use realistic placeholder copy.',
+        args.post_id
+          ? `Add it to post ${args.post_id} with edit_content (add_block), after reviewing the post with analyze_content.`
+          : 'Create it as a new draft with create_content.',
+        `Preferred blocks: ${blocks.join(', ')}. Their core schemas are attached.`,
+        '',
+        'Rules:',
+        rules()
+      ].join('\n')
+    });
+  }
+
+  prompts.push({
+    name: 'convert-to-faq-page',
+    description: 'Convert an existing post into an FAQ page built from accordion blocks',
+    arguments: [
+      { name: 'post_id', description: 'Post to convert', required: true },
+      { name: 'max_questions', description: 'Maximum number of questions to keep (default: all)' }
+    ],
+    blocks: useCaseBlocks(useCases, 'faqSection').length > 0
+      ? useCaseBlocks(useCases, 'faqSection')
+      : ['tpgb/tp-accordion', 'tpgb/tp-accordion-inner'],
+    instructions: args => [
+      `Convert post ${args.post_id} into an FAQ page.`,
+      '1. Call analyze_content and read the existing text.',
+      `2. Rewrite it as question/answer pairs${args.max_questions ? ` (at most ${args.max_questions})` : ''}, keeping the original facts and wording where possible.`,
+      '3. Replace the body with accordion blocks (one item per question) using edit_content, using dry_run first to review the diff.',
+      '',
+      'Rules:',
+      rules()
+    ].join('\n')
+  });
+
+  prompts.push({
+    name: 'restyle-to-brand-colors',
+    description: 'Restyle every block in a post to brand colours and typography without touching content',
+    arguments: [
+      { name: 'post_id', description: 'Post to restyle', required: true },
+      { name: 'brand_colors', description: 'Brand palette, e.g. "primary #1a73e8, accent #fbbc04, text #202124"', required: true },
+      { name: 'font_family', description: 'Brand font family for headings and body text' }
+    ],
+    blocks: [],
+    definitions: ['typography', 'background', 'border'],
+    instructions: args => [
+      `Restyle post ${args.post_id} to the brand palette: ${args.brand_colors}.`,
+      args.font_family ? `Use the font family "${args.font_family}".` : 'Keep the existing font families.',
+      '1. Call analyze_content to list the blocks, then get_block_schemas for their styling attributes.',
+      '2. Change only colour, background, border and typography attributes with edit_content (modify_block); never change text, links or media.',
+      '3. Preview with dry_run and make sure the diff only touches styling attributes.',
+      'The shared typography, background and border definitions are attached.',
+      '',
+      'Rules:',
+      rules()
+    ].join('\n')
+  });
+
+  return prompts;
+}
+
+export function registerPrompts(server: Server, schemaLoader: SchemaLoader) {
+
+  // List all available prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: buildPrompts(schemaLoader).map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments
+      }))
+    };
+  });
+
+  // Render a prompt with its embedded schemas
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name } = request.params;
+    const args: Record<string, string> = request.params.arguments || {};
+
+    const prompt = buildPrompts(schemaLoader).find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    const messages: any[] = [{
+      role: 'user',
+      content: { type: 'text', text: prompt.instructions(args) }
+    }];
+
+    for (const blockName of prompt.blocks) {
+      const schema = await schemaLoader.getBlockSchema(blockName, ['core'], true);
+      if (!schema) {
+        logger.warn(`Prompt ${name}: no schema for ${blockName}`);
+        continue;
+      }
+
+      messages.push({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: `nexter://schemas/block/${blockName.replace('tpgb/', '')}?levels=core`,
+            mimeType: 'application/json',
+            text: JSON.stringify(schema, null, 2)
+          }
+        }
+      });
+    }
+
+    for (const defName of prompt.definitions || []) {
+      const definition = schemaLoader.getDefinition(defName);
+      if (!definition) {
+        continue;
+      }
+
+      messages.push({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: `nexter://schemas/definition/${defName}`,
+            mimeType: 'application/json',
+            text: JSON.stringify(definition, null, 2)
+          }
+        }
+      });
+    }
+
+    return {
+      description: prompt.description,
+      messages
+    };
+  });
+}
@@ -3,50 +3,145 @@
  *
  * Exposes block schemas as MCP resources for AI context
  * Supports progressive loading and common definitions
+ *
+ * Every resource and URI template is declared once in the registry below,
+ * which drives resources/list, resources/templates/list and resources/read
+ * for all transports
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { ListResourcesRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { SchemaLoader } from '../services/schema-loader.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { SchemaLoader, SchemaLevel } from '../services/schema-loader.js';
 import { logger } from '../utils/logger.js';
 
+interface StaticResource {
+  uri: string;
+  name: string;
+  description: string;
+  read: (schemaLoader: SchemaLoader) => any;
+}
+
+interface TemplateResource {
+  uriTemplate: string;
+  /** URI prefix handled by this template */
+  prefix: string;
+  name: string;
+  description: string;
+  read: (schemaLoader: SchemaLoader, name: string, params: URLSearchParams) => Promise<any> | any;
+}
+
+const STATIC_RESOURCES: StaticResource[] = [
+  {
+    uri: 'nexter://schemas/catalog',
+    name: 'Block Catalog (New)',
+    description: '84 blocks organized by category, complexity, keywords, and use cases',
+    read: schemaLoader => schemaLoader.getCatalog()
+  },
+  {
+    uri: 'nexter://schemas/index',
+    name: 'All Nexter Block Schemas Index (Legacy)',
+    description: 'Master index of all available Nexter blocks - use catalog instead',
+    read: schemaLoader => schemaLoader.getIndex()
+  },
+  {
+    uri: 'nexter://schemas/categories',
+    name: 'Blocks by Category',
+    description: 'All blocks organized by category (content, layout, interactive, etc.)',
+    read: schemaLoader => schemaLoader.getCategories()
+  },
+  {
+    uri: 'nexter://schemas/use-cases',
+    name: 'Common Block Patterns',
+    description: 'Pre-defined block combinations for common use cases (hero, FAQ, pricing, etc.)',
+    read: schemaLoader => schemaLoader.getUseCases()
+  },
+  {
+    uri: 'nexter://schemas/definitions',
+    name: 'Common Definitions',
+    description: 'Shared object definitions (typography, background, border, shadow, etc.)',
+    read: schemaLoader => schemaLoader.getDefinitions()
+  }
+];
+
+const TEMPLATE_RESOURCES: TemplateResource[] = [
+  {
+    // Progressive block schema loading, e.g. nexter://schemas/block/tp-accordion?levels=meta,core
+    uriTemplate: 'nexter://schemas/block/{blockName}?levels={levels}',
+    prefix: 'nexter://schemas/block/',
+    name: 'Block Schema',
+    description: 'Schema for one block. levels: comma-separated meta, core, styling, examples or full (default full). Add &resolve=false to keep $ref pointers',
+    read: async (schemaLoader, blockName, params) => {
+      const levels = (params.get('levels')?.split(',') || ['full']) as SchemaLevel[];
+      const resolve$refs = params.has('resolve') ? params.get('resolve') === 'true' : true;
+
+      const schema = await schemaLoader.getBlockSchema(blockName, levels, resolve$refs);
+      if (!schema) {
+        throw new Error(`Schema not found: ${blockName}`);
+      }
+      return schema;
+    }
+  },
+  {
+    uriTemplate: 'nexter://schemas/definition/{definitionName}',
+    prefix: 'nexter://schemas/definition/',
+    name: 'Common Definition',
+    description: 'One shared definition (e.g. typography, background) referenced by block schemas',
+    read: (schemaLoader, defName) => {
+      const definition = schemaLoader.getDefinition(defName);
+      if (!definition) {
+        throw new Error(`Definition not found: ${defName}`);
+      }
+      return definition;
+    }
+  }
+];
+
+/**
+ * Read a resource by URI from the registry
+ */
+async function readResource(schemaLoader: SchemaLoader, uri: string): Promise<any> {
+  const staticResource = STATIC_RESOURCES.find(resource => resource.uri === uri);
+  if (staticResource) {
+    return staticResource.read(schemaLoader);
+  }
+
+  const [baseUri, queryString] = uri.split('?');
+  const template = TEMPLATE_RESOURCES.find(resource => baseUri.startsWith(resource.prefix));
+  if (template) {
+    const name = decodeURIComponent(baseUri.slice(template.prefix.length));
+    return template.read(schemaLoader, name, new URLSearchParams(queryString || ''));
+  }
+
+  throw new Error(`Unknown resource URI: ${uri}`);
+}
+
 export function registerResources(server: Server, schemaLoader: SchemaLoader) {
 
   // List all available resources
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     return {
-      resources: [
-        {
-          uri: 'nexter://schemas/catalog',
-          name: 'Block Catalog (New)',
-          description: '84 blocks organized by category, complexity, keywords, and use cases',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'nexter://schemas/index',
-          name: 'All Nexter Block Schemas Index (Legacy)',
-          description: 'Master index of all available Nexter blocks - use catalog instead',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'nexter://schemas/categories',
-          name: 'Blocks by Category',
-          description: 'All blocks organized by category (content, layout, interactive, etc.)',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'nexter://schemas/use-cases',
-          name: 'Common Block Patterns',
-          description: 'Pre-defined block combinations for common use cases (hero, FAQ, pricing, etc.)',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'nexter://schemas/definitions',
-          name: 'Common Definitions',
-          description: 'Shared object definitions (typography, background, border, shadow, etc.)',
-          mimeType: 'application/json'
-        }
-      ]
+      resources: STATIC_RESOURCES.map(({ uri, name, description }) => ({
+        uri,
+        name,
+        description,
+        mimeType: 'application/json'
+      }))
+    };
+  });
+
+  // List URI templates for parameterised resources
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: TEMPLATE_RESOURCES.map(({ uriTemplate, name, description }) => ({
+        uriTemplate,
+        name,
+        description,
+        mimeType: 'application/json'
+      }))
     };
   });
 
@@ -55,123 +150,18 @@ export function registerResources(server: Server, schemaLoader: SchemaLoader) {
     const uri = request.params.uri;
 
     try {
-      // New catalog resource
-      if (uri === 'nexter://schemas/catalog') {
-        const catalog = schemaLoader.getCatalog();
-        return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(catalog, null, 2)
-          }]
-        };
-      }
-
-      // Legacy index (backward compatible)
-      if (uri === 'nexter://schemas/index') {
-        const index = schemaLoader.getIndex();
-        return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(index, null, 2)
-          }]
-        };
-      }
-
-      // Categories
-      if (uri === 'nexter://schemas/categories') {
-        const categories = schemaLoader.getCategories();
-        return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(categories, null, 2)
-          }]
-        };
-      }
-
-      // Use cases
-      if (uri === 'nexter://schemas/use-cases') {
-        const useCases = schemaLoader.getUseCases();
-        return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(useCases, null, 2)
-          }]
-        };
-      }
-
-      // Common definitions
-      if (uri === 'nexter://schemas/definitions') {
-        const definitions = schemaLoader.getDefinitions();
-        return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(definitions, null, 2)
-          }]
-        };
-      }
-
-      // Specific definition (e.g., nexter://schemas/definition/typography)
-      if (uri.startsWith('nexter://schemas/definition/')) {
-        const defName = uri.replace('nexter://schemas/definition/', '');
-        const definition = schemaLoader.getDefinition(defName);
-
-        if (!definition) {
-          throw new Error(`Definition not found: ${defName}`);
-        }
-
-        return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(definition, null, 2)
-          }]
-        };
-      }
-
-      // Progressive block schema loading
-      // Supports: nexter://schemas/block/{blockName}?levels=meta,core,styling
-      if (uri.startsWith('nexter://schemas/block/')) {
-        const [baseUri, queryString] = uri.split('?');
-        const blockName = baseUri.replace('nexter://schemas/block/', '');
-
-        // Parse query parameters for levels
-        let levels: any[] = ['full'];
-        let resolve$refs = true;
-
-        if (queryString) {
-          const params = new URLSearchParams(queryString);
-          if (params.has('levels')) {
-            levels = params.get('levels')!.split(',') as any[];
-          }
-          if (params.has('resolve')) {
-            resolve$refs = params.get('resolve') === 'true';
-          }
-        }
-
-        const schema = await schemaLoader.getBlockSchema(blockName, levels, resolve$refs);
-
-        if (!schema) {
-          throw new Error(`Schema not found: ${blockName}`);
-        }
-
-        return {
-          contents: [{
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(schema, null, 2)
-          }]
-        };
-      }
-
-      throw new Error(`Unknown resource URI: ${uri}`);
+      const data = await readResource(schemaLoader, uri);
+
+      return {
+        contents: [{
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(data, null, 2)
+        }]
+      };
     } catch (error: any) {
       logger.error(`Resource read error for ${uri}:`, error);
       throw error;
     }
   });
-}
\ No newline at end of file
+}
@@ -5,9 +5,11 @@
  * Supports progressive loading and $ref resolution
  */
 
+import { createHash } from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger.js';
+import type { AttributeSource } from '../utils/block-renderers.js';
 
 export interface BlockSchema {
   blockName: string;
@@ -32,95 +34,256 @@ export interface BlockSchema {
 
 export type SchemaLevel = 'meta' | 'core' | 'styling' | 'examples' | 'full';
 
+export interface SchemaChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface SchemaReloadReport {
+  /** Whether the new snapshot replaced the loaded one */
+  applied: boolean;
+  /** Block names whose schema files changed (staged or legacy) */
+  blocks: SchemaChanges;
+  definitions: SchemaChanges;
+  /** Changed index files (_meta/catalog.json, _meta/plugin-defaults.json, index.json, categories.json, use-cases.json) */
+  indexes: string[];
+  /** Validation problems introduced since the last load; any of them keeps the old snapshot */
+  errors: string[];
+  totalBlocks: number;
+}
+
+/**
+ * Everything read from the schemas directory at one point in time, with the
+ * caches derived from it. Reloads build a new snapshot and swap it in whole,
+ * so callers never see schemas from two different loads
+ */
+interface SchemaSnapshot {
+  /** Parsed JSON by path relative to the schemas directory */
+  files: Map<string, any>;
+  /** Content hash by relative path, including files that failed validation */
+  hashes: Map<string, string>;
+  /** Files that could not be used, as "path: problem" */
+  errors: string[];
+  /** Block directories under blocks/ */
+  stagedBlocks: Set<string>;
+  definitions: Map<string, any>;
+  index: any;
+  catalog: any;
+  /** Registered attribute defaults by block name (_meta/plugin-defaults.json) */
+  pluginDefaults: Record<string, Record<string, any>>;
+  /** Names of the attributes the plugins register, shared ones included, by block name */
+  registeredAttributes: Map<string, Set<string>>;
+  categories: any;
+  useCases: any;
+  cache: Map<string, BlockSchema>;
+  sourcesCache: Map<string, Record<string, AttributeSource>>;
+}
+
+const INDEX_FILES = ['_meta/catalog.json', '_meta/plugin-defaults.json', 'index.json', 'categories.json', 'use-cases.json'];
+
+const LEVEL_FILES: Record<SchemaLevel, string> = {
+  meta: 'meta.json',
+  core: 'core.json',
+  styling: 'styling.json',
+  examples: 'examples.json',
+  full: 'full.json'
+};
+
+/** Quiet period after the last filesystem event before reloading */
+const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Block name a schema file belongs to (blocks/tp-x/core.json, tp-x.json), if any
+ */
+function blockNameForFile(file: string): string | null {
+  const staged = file.match(/^blocks\/([^/]+)\/[^/]+\.json$/);
+  if (staged) {
+    return `tpgb/${staged[1]}`;
+  }
+  if (!file.includes('/') && !INDEX_FILES.includes(file)) {
+    return `tpgb/${file.replace(/\.json$/, '')}`;
+  }
+  return null;
+}
+
+/**
+ * Compare two name -> hash maps
+ */
+function diffHashes(before: Map<string, string>, after: Map<string, string>): SchemaChanges {
+  return {
+    added: [...after.keys()].filter(name => !before.has(name)).sort(),
+    removed: [...before.keys()].filter(name => !after.has(name)).sort(),
+    changed: [...after.keys()].filter(name => before.has(name) && before.get(name) !== after.get(name)).sort()
+  };
+}
+
 export class SchemaLoader {
-  private cache: Map<string, BlockSchema> = new Map();
-  private stagedCache: Map<string, Map<SchemaLevel, any>> = new Map();
-  private definitionsCache: Map<string, any> = new Map();
-  private index: any = null;
-  private catalog: any = null;
-  private categories: any = null;
-  private useCases: any = null;
+  private snapshot: SchemaSnapshot;
   private schemasPath: string;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
 
   constructor(schemasPath: string) {
     this.schemasPath = schemasPath;
-    this.loadIndexes();
-    this.loadDefinitions();
+    this.snapshot = this.loadSnapshot();
+    this.logSnapshot(this.snapshot);
   }
 
   /**
-   * Load master indexes and catalog
+   * Read every schema file into a new snapshot
+   * Files that fail to parse or validate are left out and reported in errors
    */
-  private loadIndexes() {
-    // Reset to safe defaults so callers always get a consistent shape
-    this.index = {
-      totalBlocks: 0,
-      blocks: []
+  private loadSnapshot(): SchemaSnapshot {
+    const snapshot: SchemaSnapshot = {
+      files: new Map(),
+      hashes: new Map(),
+      errors: [],
+      stagedBlocks: new Set(),
+      definitions: new Map(),
+      // Safe defaults so callers always get a consistent shape
+      index: { totalBlocks: 0, blocks: [] },
+      catalog: null,
+      pluginDefaults: {},
+      registeredAttributes: new Map(),
+      categories: {},
+      useCases: {},
+      cache: new Map(),
+      sourcesCache: new Map()
     };
-    this.categories = {};
-    this.useCases = {};
-    this.catalog = null;
 
-    try {
-      // Load new catalog (priority)
-      const catalogPath = path.join(this.schemasPath, '_meta', 'catalog.json');
-      if (fs.existsSync(catalogPath)) {
-        this.catalog = JSON.parse(fs.readFileSync(catalogPath, 'utf8'));
-        logger.info(`📚 Loaded block catalog: ${this.catalog.totalBlocks} blocks`);
+    const listJson = (dir: string): string[] => {
+      const absolute = path.join(this.schemasPath, dir);
+      if (!fs.existsSync(absolute)) {
+        return [];
+      }
+      return fs.readdirSync(absolute).filter(f => f.endsWith('.json')).sort().map(f => (dir ? `${dir}/${f}` : f));
+    };
+
+    const blocksPath = path.join(this.schemasPath, 'blocks');
+    const blockDirs = fs.existsSync(blocksPath)
+      ? fs.readdirSync(blocksPath, { withFileTypes: true }).filter(entry => entry.isDirectory()).map(entry => entry.name).sort()
+      : [];
+    blockDirs.forEach(dir => snapshot.stagedBlocks.add(dir));
+
+    const files = [
+      ...listJson(''),
+      ...listJson('_meta').filter(file => INDEX_FILES.includes(file)),
+      ...listJson('_definitions'),
+      ...blockDirs.flatMap(dir => listJson(`blocks/${dir}`))
+    ];
+
+    for (const file of files) {
+      let text: string;
+      try {
+        text = fs.readFileSync(path.join(this.schemasPath, file), 'utf8');
+      } catch (error: any) {
+        // Deleted between listing and reading
+        continue;
       }
+      snapshot.hashes.set(file, createHash('sha1').update(text).digest('hex'));
 
-      // Load legacy master index (fallback)
-      const indexPath = path.join(this.schemasPath, 'index.json');
-      if (fs.existsSync(indexPath)) {
-        this.index = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
-        if (!this.catalog) {
-          logger.info(`📚 Loaded schema index: ${this.index.totalBlocks} blocks`);
+      try {
+        const data = JSON.parse(text);
+        const problem = this.checkFile(file, data);
+        if (problem) {
+          snapshot.errors.push(`${file}: ${problem}`);
+          continue;
         }
+        snapshot.files.set(file, data);
+      } catch (error: any) {
+        snapshot.errors.push(`${file}: ${error.message}`);
       }
+    }
 
-      // Load legacy category index (fallback)
-      const categoriesPath = path.join(this.schemasPath, 'categories.json');
-      if (fs.existsSync(categoriesPath)) {
-        this.categories = JSON.parse(fs.readFileSync(categoriesPath, 'utf8'));
+    for (const [file, data] of snapshot.files) {
+      if (file.startsWith('_definitions/')) {
+        snapshot.definitions.set(path.basename(file, '.json'), data);
       }
+    }
 
-      // Load legacy use case patterns (fallback)
-      const useCasesPath = path.join(this.schemasPath, 'use-cases.json');
-      if (fs.existsSync(useCasesPath)) {
-        this.useCases = JSON.parse(fs.readFileSync(useCasesPath, 'utf8'));
+    snapshot.catalog = snapshot.files.get('_meta/catalog.json') || null;
+    const registered = snapshot.files.get('_meta/plugin-defaults.json');
+    snapshot.pluginDefaults = registered?.blocks || snapshot.pluginDefaults;
+    for (const [blockName, names] of Object.entries<string[]>(registered?.attributes || {})) {
+      snapshot.registeredAttributes.set(blockName, new Set([...names, ...(registered.shared || [])]));
+    }
+    snapshot.index = snapshot.files.get('index.json') || snapshot.index;
+    snapshot.categories = snapshot.files.get('categories.json') || snapshot.categories;
+    snapshot.useCases = snapshot.files.get('use-cases.json') || snapshot.useCases;
+
+    // Every definitions:// reference must point at a loaded definition
+    for (const [file, data] of snapshot.files) {
+      const missing = [...new Set(this.collectRefs(data))].filter(ref => !this.findDefinition(ref, snapshot.definitions));
+      if (missing.length > 0) {
+        snapshot.errors.push(`${file}: unresolved $ref ${missing.join(', ')}`);
       }
-    } catch (error: any) {
-      logger.error('Failed to load schema indexes:', error);
     }
+
+    return snapshot;
   }
 
   /**
-   * Load all common definitions for $ref resolution
+   * Shape checks for one parsed file; returns the problem, if any
    */
-  private loadDefinitions() {
-    try {
-      const definitionsPath = path.join(this.schemasPath, '_definitions');
-      if (!fs.existsSync(definitionsPath)) {
-        logger.warn('No _definitions directory found, $ref resolution unavailable');
-        return;
+  private checkFile(file: string, data: any): string | null {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return 'expected a JSON object';
+    }
+
+    if (file === '_meta/catalog.json') {
+      if (!data.categories || typeof data.categories !== 'object') {
+        return 'catalog needs a categories object';
+      }
+      const invalid = Object.entries<any>(data.categories).filter(([, category]) => !Array.isArray(category?.blocks));
+      if (invalid.length > 0) {
+        return `categories without a blocks array: ${invalid.map(([name]) => name).join(', ')}`;
+      }
+    } else if (file === '_meta/plugin-defaults.json') {
+      if (!data.blocks || typeof data.blocks !== 'object' || Array.isArray(data.blocks)) {
+        return 'plugin defaults need a blocks object';
       }
+    } else if (file === 'index.json') {
+      if (!Array.isArray(data.blocks)) {
+        return 'index needs a blocks array';
+      }
+    } else if (blockNameForFile(file) && data.attributes !== undefined) {
+      if (!data.attributes || typeof data.attributes !== 'object' || Array.isArray(data.attributes)) {
+        return 'attributes must be an object';
+      }
+    }
 
-      const files = fs.readdirSync(definitionsPath).filter(f => f.endsWith('.json'));
+    return null;
+  }
 
-      for (const file of files) {
-        const filePath = path.join(definitionsPath, file);
-        const defName = file.replace('.json', '');
-        try {
-          const definition = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-          this.definitionsCache.set(defName, definition);
-        } catch (error: any) {
-          logger.error(`Failed to load definition ${defName}:`, error);
-        }
+  /**
+   * All definitions:// references in a schema value
+   */
+  private collectRefs(value: any, refs: string[] = []): string[] {
+    if (value && typeof value === 'object') {
+      if (typeof value.$ref === 'string' && value.$ref.startsWith('definitions://')) {
+        refs.push(value.$ref);
+      }
+      for (const entry of Object.values(value)) {
+        this.collectRefs(entry, refs);
       }
+    }
+    return refs;
+  }
 
-      logger.info(`📦 Loaded ${this.definitionsCache.size} common definitions`);
-    } catch (error: any) {
-      logger.error('Failed to load definitions:', error);
+  private logSnapshot(snapshot: SchemaSnapshot) {
+    if (snapshot.catalog) {
+      logger.info(`📚 Loaded block catalog: ${snapshot.catalog.totalBlocks} blocks`);
+    } else if (snapshot.files.has('index.json')) {
+      logger.info(`📚 Loaded schema index: ${snapshot.index.totalBlocks} blocks`);
+    }
+    if (snapshot.definitions.size === 0) {
+      logger.warn('No _definitions found, $ref resolution unavailable');
+    } else {
+      logger.info(`📦 Loaded ${snapshot.definitions.size} common definitions`);
+    }
+    for (const error of snapshot.errors) {
+      logger.error(`Skipped schema file ${error}`);
     }
   }
 
@@ -147,24 +310,9 @@ export class SchemaLoader {
 
       // Handle definitions:// protocol
       if (refPath.startsWith('definitions://')) {
-        const defName = refPath.replace('definitions://', '');
-
-        // Try to find in loaded definitions
-        for (const [name, definition] of this.definitionsCache.entries()) {
-          if (definition.$id === refPath) {
-            // Return the structure or definition, removing $id
-            const resolved = { ...definition };
-            delete resolved.$id;
-            delete resolved.$schema;
-            return this.resolve$ref(resolved.structure || resolved, depth + 1);
-          }
-
-          // Check nested definitions (e.g., responsive.json has multiple definitions)
-          if (definition.definitions && definition.definitions[defName]) {
-            const resolved = { ...definition.definitions[defName] };
-            delete resolved.$id;
-            return this.resolve$ref(resolved.structure || resolved, depth + 1);
-          }
+        const definition = this.findDefinition(refPath);
+        if (definition) {
+          return this.resolve$ref(definition.structure || definition, depth + 1);
         }
 
         logger.warn(`Could not resolve $ref: ${refPath}`);
@@ -182,6 +330,43 @@ export class SchemaLoader {
     return resolved;
   }
 
+  /**
+   * Find the raw definition a definitions:// reference points to
+   */
+  private findDefinition(refPath: string, definitions: Map<string, any> = this.snapshot.definitions): any | null {
+    const defName = refPath.replace('definitions://', '');
+
+    for (const definition of definitions.values()) {
+      if (definition.$id === refPath) {
+        // Return the definition itself, without schema bookkeeping
+        const resolved = { ...definition };
+        delete resolved.$id;
+        delete resolved.$schema;
+        return resolved;
+      }
+
+      // Check nested definitions (e.g., responsive.json has multiple definitions)
+      if (definition.definitions && definition.definitions[defName]) {
+        const resolved = { ...definition.definitions[defName] };
+        delete resolved.$id;
+        return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a definitions:// reference to its definition (type, properties, default)
+   * without flattening it to its structure
+   */
+  resolveRef(refPath: string): any | null {
+    if (!refPath.startsWith('definitions://')) {
+      return null;
+    }
+    return this.findDefinition(refPath);
+  }
+
   /**
    * Get block schema with progressive loading
    * Supports staged loading (meta, core, styling, examples) or full schema
@@ -192,75 +377,102 @@ export class SchemaLoader {
     resolve$refs: boolean = true
   ): Promise<any | null> {
     const blockPath = blockName.replace('tpgb/', '');
+    const snapshot = this.snapshot;
 
     // Try new staged structure first (blocks/{block-name}/)
-    const stagedDir = path.join(this.schemasPath, 'blocks', blockPath);
-
-    if (fs.existsSync(stagedDir)) {
-      return this.loadStagedSchema(blockName, stagedDir, levels, resolve$refs);
+    if (snapshot.stagedBlocks.has(blockPath)) {
+      return this.loadStagedSchema(snapshot, blockPath, levels, resolve$refs);
     }
 
     // Fallback to legacy flat structure ({block-name}.json)
-    const legacyPath = path.join(this.schemasPath, `${blockPath}.json`);
-    if (fs.existsSync(legacyPath)) {
-      try {
-        const schema = JSON.parse(fs.readFileSync(legacyPath, 'utf8'));
-        return resolve$refs ? this.resolve$ref(schema) : schema;
-      } catch (error: any) {
-        logger.error(`Failed to load schema for ${blockName}:`, error);
-        return null;
-      }
+    const schema = snapshot.files.get(`${blockPath}.json`);
+    if (schema) {
+      return resolve$refs ? this.resolve$ref(schema) : schema;
     }
 
     logger.warn(`Schema not found: ${blockName}`);
     return null;
   }
 
+  /**
+   * Attributes the block's save markup is built from (source/selector metadata)
+   * Synchronous so innerHTML rendering can use it while formatting blocks
+   */
+  getAttributeSources(blockName: string): Record<string, AttributeSource> {
+    const snapshot = this.snapshot;
+    const cached = snapshot.sourcesCache.get(blockName);
+    if (cached) {
+      return cached;
+    }
+
+    const blockPath = blockName.replace('tpgb/', '');
+    const schema = [`blocks/${blockPath}/core.json`, `blocks/${blockPath}/full.json`, `${blockPath}.json`]
+      .map(file => snapshot.files.get(file))
+      .find(Boolean);
+
+    const sources: Record<string, AttributeSource> = {};
+    for (const [name, attr] of Object.entries<any>(schema?.attributes || {})) {
+      if (attr && typeof attr.source === 'string' && attr.selector) {
+        sources[name] = { source: attr.source, selector: attr.selector, attribute: attr.attribute };
+      }
+    }
+
+    snapshot.sourcesCache.set(blockName, sources);
+    return sources;
+  }
+
+  /**
+   * Default of each attribute as the plugins register it, from
+   * _meta/plugin-defaults.json (npm run schemas:defaults). The curated
+   * schema defaults aren't used: some differ from the registered ones, and
+   * leaving out a value the plugin doesn't default to changes the block.
+   * Blocks missing from that file have no defaults
+   */
+  getAttributeDefaults(blockName: string): Record<string, any> {
+    return this.snapshot.pluginDefaults[blockName] || {};
+  }
+
+  /**
+   * Names of the attributes the plugins register on a block, with the ones
+   * they merge into many blocks (background, positioning, carousel, ...),
+   * from _meta/plugin-defaults.json. Undefined for blocks missing from that
+   * file, whose registered attributes aren't known
+   */
+  getRegisteredAttributes(blockName: string): Set<string> | undefined {
+    return this.snapshot.registeredAttributes.get(blockName);
+  }
+
   /**
    * Load staged schema files and merge based on requested levels
    */
   private async loadStagedSchema(
-    blockName: string,
-    dir: string,
+    snapshot: SchemaSnapshot,
+    blockPath: string,
     levels: SchemaLevel[],
     resolve$refs: boolean
   ): Promise<any> {
-    const levelFiles: Record<SchemaLevel, string> = {
-      meta: 'meta.json',
-      core: 'core.json',
-      styling: 'styling.json',
-      examples: 'examples.json',
-      full: 'full.json'
-    };
+    const levelFile = (level: SchemaLevel) => snapshot.files.get(`blocks/${blockPath}/${LEVEL_FILES[level]}`);
 
     // If 'full' is requested, just load that
     if (levels.includes('full')) {
-      const fullPath = path.join(dir, 'full.json');
-      if (fs.existsSync(fullPath)) {
-        const schema = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+      const schema = levelFile('full');
+      if (schema) {
         return resolve$refs ? this.resolve$ref(schema) : schema;
       }
     }
 
-    // Load and merge requested levels
+    // Merge requested levels
     let merged: any = {};
 
     for (const level of levels) {
-      const filePath = path.join(dir, levelFiles[level]);
-      if (fs.existsSync(filePath)) {
-        try {
-          const levelData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-
-          // Merge attributes from each level
-          if (levelData.attributes) {
-            merged.attributes = { ...merged.attributes, ...levelData.attributes };
-          }
-
-          // Merge other properties (shallow merge)
-          merged = { ...merged, ...levelData };
-        } catch (error: any) {
-          logger.error(`Failed to load ${level} for ${blockName}:`, error);
-        }
+      const levelData = levelFile(level);
+      if (levelData) {
+        // Merge other properties (shallow merge), keeping attributes from every level
+        merged = {
+          ...merged,
+          ...levelData,
+          attributes: { ...merged.attributes, ...levelData.attributes }
+        };
       }
     }
 
@@ -272,18 +484,19 @@ export class SchemaLoader {
    */
   async getSchemas(blockNames: string[]): Promise<BlockSchema[]> {
     const schemas: BlockSchema[] = [];
+    const cache = this.snapshot.cache;
 
     for (const blockName of blockNames) {
       // Check cache first
-      if (this.cache.has(blockName)) {
-        schemas.push(this.cache.get(blockName)!);
+      if (cache.has(blockName)) {
+        schemas.push(cache.get(blockName)!);
         continue;
       }
 
       // Try new progressive loading (full schema)
       const schema = await this.getBlockSchema(blockName, ['full'], true);
       if (schema) {
-        this.cache.set(blockName, schema);
+        cache.set(blockName, schema);
         schemas.push(schema);
         continue;
       }
@@ -296,29 +509,53 @@ export class SchemaLoader {
   }
 
   /**
-   * Get schemas for a common use case
+   * Block names for a common use case ("hero-section" is "heroSection" in the catalog)
    */
-  async getSchemasForUseCase(useCase: string): Promise<BlockSchema[]> {
-    if (!this.useCases || !this.useCases[useCase]) {
+  getBlockNamesForUseCase(useCase: string): string[] {
+    const key = useCase.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+    const entries = this.getUseCases()?.[key] || this.snapshot.useCases?.useCases?.[useCase]?.blocks;
+    if (!Array.isArray(entries) || entries.length === 0) {
       logger.warn(`Unknown use case: ${useCase}`);
       return [];
     }
 
-    const blockNames = this.useCases[useCase].map((b: any) => b.name);
-    return this.getSchemas(blockNames);
+    return entries.map((b: any) => (typeof b === 'string' ? b : b.name));
   }
 
   /**
-   * Get schemas by category
+   * Block names in a category
    */
-  async getSchemasByCategory(category: string): Promise<BlockSchema[]> {
-    if (!this.categories || !this.categories[category]) {
+  getBlockNamesForCategory(category: string): string[] {
+    const entries = this.getCategories()?.[category]?.blocks || this.snapshot.categories?.categories?.[category]?.blocks;
+    if (!Array.isArray(entries) || entries.length === 0) {
       logger.warn(`Unknown category: ${category}`);
       return [];
     }
 
-    const blockNames = this.categories[category].map((b: any) => b.name);
-    return this.getSchemas(blockNames);
+    return entries.map((b: any) => (typeof b === 'string' ? b : b.name));
+  }
+
+  /**
+   * Get schemas for a common use case
+   */
+  async getSchemasForUseCase(useCase: string): Promise<BlockSchema[]> {
+    return this.getSchemas(this.getBlockNamesForUseCase(useCase));
+  }
+
+  /**
+   * Get schemas by category
+   */
+  async getSchemasByCategory(category: string): Promise<BlockSchema[]> {
+    return this.getSchemas(this.getBlockNamesForCategory(category));
+  }
+
+  /**
+   * Staged levels available for a block (empty for legacy flat schemas)
+   */
+  getSchemaLevels(blockName: string): SchemaLevel[] {
+    const blockPath = blockName.replace('tpgb/', '');
+    return (Object.keys(LEVEL_FILES) as SchemaLevel[])
+      .filter(level => this.snapshot.files.has(`blocks/${blockPath}/${LEVEL_FILES[level]}`));
   }
 
   /**
@@ -339,72 +576,160 @@ export class SchemaLoader {
    * Get all available block names
    */
   getAllBlockNames(): string[] {
-    if (!this.index) return [];
-    return this.index.blocks.map((b: any) => b.name);
+    if (!this.snapshot.index) return [];
+    return this.snapshot.index.blocks.map((b: any) => b.name);
   }
 
   /**
    * Get loaded schema count
    */
   getLoadedCount(): number {
-    return this.cache.size;
+    return this.snapshot.cache.size;
   }
 
   /**
    * Get total available schemas
    */
   getTotalCount(): number {
-    return this.index?.totalBlocks || 0;
+    return this.snapshot.index?.totalBlocks || 0;
   }
 
   /**
-   * Reload all indexes and clear cache
+   * Re-read the schemas directory and swap in the new snapshot
+   * The swap is skipped when the new files bring validation errors that the
+   * loaded snapshot did not have; files that were already broken don't block it
    */
-  async reload() {
-    this.cache.clear();
-    this.loadIndexes();
-    logger.info('🔄 Schemas reloaded');
+  async reload(): Promise<SchemaReloadReport> {
+    const previous = this.snapshot;
+    const next = this.loadSnapshot();
+
+    const blockHashes = (snapshot: SchemaSnapshot) => {
+      const hashes = new Map<string, string>();
+      for (const [file, hash] of snapshot.hashes) {
+        const blockName = blockNameForFile(file);
+        if (blockName) {
+          hashes.set(blockName, `${hashes.get(blockName) || ''}${file}:${hash};`);
+        }
+      }
+      return hashes;
+    };
+    const definitionHashes = (snapshot: SchemaSnapshot) => new Map(
+      [...snapshot.hashes]
+        .filter(([file]) => file.startsWith('_definitions/'))
+        .map(([file, hash]) => [path.basename(file, '.json'), hash])
+    );
+
+    const totalBlocks = (snapshot: SchemaSnapshot) => (snapshot.catalog || snapshot.index)?.totalBlocks || 0;
+
+    const errors = next.errors.filter(error => !previous.errors.includes(error));
+    const report: SchemaReloadReport = {
+      applied: errors.length === 0,
+      blocks: diffHashes(blockHashes(previous), blockHashes(next)),
+      definitions: diffHashes(definitionHashes(previous), definitionHashes(next)),
+      indexes: INDEX_FILES.filter(file => previous.hashes.get(file) !== next.hashes.get(file)),
+      errors,
+      totalBlocks: totalBlocks(next)
+    };
+
+    if (!report.applied) {
+      logger.warn(`Schema reload rejected, keeping the loaded schemas: ${errors.join('; ')}`);
+      return { ...report, totalBlocks: totalBlocks(previous) };
+    }
+
+    this.snapshot = next;
+    const changed = [report.blocks, report.definitions]
+      .reduce((total, changes) => total + changes.added.length + changes.removed.length + changes.changed.length, report.indexes.length);
+    logger.info(`🔄 Schemas reloaded: ${changed} change(s)`, {
+      blocks: report.blocks,
+      definitions: report.definitions,
+      indexes: report.indexes
+    });
+    return report;
+  }
+
+  /**
+   * Reload whenever a file under the schemas directory changes
+   * A burst of events (an editor save, a git checkout) triggers one reload
+   */
+  watch(debounceMs: number = WATCH_DEBOUNCE_MS) {
+    if (this.watcher) {
+      return;
+    }
+
+    try {
+      this.watcher = fs.watch(this.schemasPath, { recursive: true }, (_event, filename) => {
+        if (filename && !filename.toString().endsWith('.json')) {
+          return;
+        }
+
+        if (this.reloadTimer) {
+          clearTimeout(this.reloadTimer);
+        }
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.reload().catch(error => logger.error('Schema reload failed:', error));
+        }, debounceMs);
+      });
+      this.watcher.on('error', error => logger.error('Schema watcher error:', error));
+      logger.info(`👀 Watching ${this.schemasPath} for schema changes`);
+    } catch (error: any) {
+      logger.error('Failed to watch schemas directory:', error);
+    }
+  }
+
+  /**
+   * Stop watching the schemas directory
+   */
+  close() {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
   }
 
   /**
    * Get master index (returns catalog if available, falls back to legacy index)
    */
   getIndex() {
-    return this.catalog || this.index;
+    return this.snapshot.catalog || this.snapshot.index;
   }
 
   /**
    * Get block catalog (new format)
    */
   getCatalog() {
-    return this.catalog;
+    return this.snapshot.catalog;
   }
 
   /**
    * Get categories (from catalog or legacy)
    */
   getCategories() {
-    if (this.catalog && this.catalog.categories) {
-      return this.catalog.categories;
+    const { catalog, categories } = this.snapshot;
+    if (catalog && catalog.categories) {
+      return catalog.categories;
     }
-    return this.categories;
+    return categories;
   }
 
   /**
    * Get use cases patterns (from catalog or legacy)
    */
   getUseCases() {
-    if (this.catalog && this.catalog.commonUseCases) {
-      return this.catalog.commonUseCases;
+    const { catalog, useCases } = this.snapshot;
+    if (catalog && catalog.commonUseCases) {
+      return catalog.commonUseCases;
     }
-    return this.useCases;
+    return useCases;
   }
 
   /**
    * Get common definition by name
    */
   getDefinition(name: string): any | null {
-    return this.definitionsCache.get(name) || null;
+    return this.snapshot.definitions.get(name) || null;
   }
 
   /**
@@ -412,7 +737,7 @@ export class SchemaLoader {
    */
   getDefinitions(): Record<string, any> {
     const defs: Record<string, any> = {};
-    for (const [name, def] of this.definitionsCache.entries()) {
+    for (const [name, def] of this.snapshot.definitions.entries()) {
       defs[name] = def;
     }
     return defs;
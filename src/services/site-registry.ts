@@ -0,0 +1,141 @@
+/**
+ * WordPress Site Registry
+ *
+ * Named WordPress sites loaded from a config file (WP_SITES_FILE), each with
+ * its own lazily created WordPressClient and connection health.
+ * Without a config file, a single "default" site is built from
+ * WORDPRESS_URL/WP_USERNAME/WP_APP_PASSWORD
+ */
+
+import fs from 'fs';
+import { WordPressClient, SiteConnection, ConnectionHealth } from './wordpress-client.js';
+import { logger } from '../utils/logger.js';
+
+export interface SiteConfig extends SiteConnection {
+  label?: string;
+}
+
+export interface SitesFile {
+  default?: string;
+  sites: Record<string, SiteConfig>;
+}
+
+export interface SiteInfo {
+  name: string;
+  label?: string;
+  url: string;
+  default: boolean;
+  health: ConnectionHealth;
+}
+
+export const DEFAULT_SITE = 'default';
+
+/**
+ * Replace ${VAR} references with environment values, so credentials can
+ * stay out of the sites file
+ */
+function interpolateEnv(value: string, siteName: string): string {
+  return value.replace(/\$\{([A-Z0-9_]+)\}/gi, (_, name) => {
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      throw new Error(`Site "${siteName}" references undefined environment variable ${name}`);
+    }
+    return resolved;
+  });
+}
+
+export class SiteRegistry {
+  private sites: Map<string, SiteConfig> = new Map();
+  private clients: Map<string, WordPressClient> = new Map();
+  private defaultSite: string;
+
+  constructor(sitesFile?: string) {
+    if (sitesFile) {
+      const config: SitesFile = JSON.parse(fs.readFileSync(sitesFile, 'utf8'));
+
+      for (const [name, site] of Object.entries(config.sites || {})) {
+        if (!site.url || !site.username || !site.app_password) {
+          throw new Error(`Site "${name}" in ${sitesFile} needs url, username and app_password`);
+        }
+
+        this.sites.set(name, {
+          ...site,
+          url: interpolateEnv(site.url, name),
+          username: interpolateEnv(site.username, name),
+          app_password: interpolateEnv(site.app_password, name)
+        });
+      }
+
+      if (this.sites.size === 0) {
+        throw new Error(`No sites defined in ${sitesFile}`);
+      }
+
+      this.defaultSite = config.default || this.sites.keys().next().value!;
+      if (!this.sites.has(this.defaultSite)) {
+        throw new Error(`Default site "${this.defaultSite}" is not defined in ${sitesFile}`);
+      }
+
+      logger.info(`Loaded ${this.sites.size} WordPress site(s) from ${sitesFile}`, {
+        default: this.defaultSite
+      });
+    } else {
+      this.sites.set(DEFAULT_SITE, {
+        url: process.env.WORDPRESS_URL!,
+        username: process.env.WP_USERNAME!,
+        app_password: process.env.WP_APP_PASSWORD!
+      });
+      this.defaultSite = DEFAULT_SITE;
+    }
+  }
+
+  /**
+   * Whether a site name is registered (no name means the default site)
+   */
+  has(name?: string): boolean {
+    return !name || this.sites.has(name);
+  }
+
+  getNames(): string[] {
+    return [...this.sites.keys()];
+  }
+
+  getDefaultName(): string {
+    return this.defaultSite;
+  }
+
+  /**
+   * Get the pooled client for a site, creating it on first use
+   */
+  getClient(name?: string): WordPressClient {
+    const siteName = name || this.defaultSite;
+    const site = this.sites.get(siteName);
+    if (!site) {
+      throw new Error(`Unknown site: ${siteName}`);
+    }
+
+    let client = this.clients.get(siteName);
+    if (!client) {
+      client = new WordPressClient(site);
+      this.clients.set(siteName, client);
+    }
+    return client;
+  }
+
+  /**
+   * Sites with their URL and health (credentials are never included)
+   * Sites whose client was never used report as not yet checked
+   */
+  listSites(): SiteInfo[] {
+    return [...this.sites.entries()].map(([name, site]) => ({
+      name,
+      label: site.label,
+      url: site.url,
+      default: name === this.defaultSite,
+      health: this.clients.get(name)?.getHealth() || {
+        connected: false,
+        last_checked: null,
+        last_error: null
+      }
+    }));
+  }
+}
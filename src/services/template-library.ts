@@ -0,0 +1,207 @@
+/**
+ * Section Template Library
+ *
+ * Named, parameterised block trees (templates/*.json) for common page
+ * sections. Slots are filled with "{{slot}}" placeholders; a placeholder
+ * that is the whole string keeps the value's type, and an array entry
+ * { "$each": "slot", "template": [...] } repeats its template once per item
+ * of an array slot ("{{item}}", "{{item.field}}", "{{index}}" counting from 0
+ * and "{{number}}" counting from 1 inside)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { generateBlockId } from '../utils/block-formatter.js';
+import { logger } from '../utils/logger.js';
+
+export type TemplateSlotType = 'string' | 'url' | 'array';
+
+export interface TemplateSlot {
+  type: TemplateSlotType;
+  description: string;
+  required?: boolean;
+  default?: any;
+}
+
+export interface SectionTemplate {
+  name: string;
+  title: string;
+  description: string;
+  /** Matching use case from use-cases.json */
+  useCase?: string;
+  slots: Record<string, TemplateSlot>;
+  blocks: any[];
+}
+
+export interface TemplateSummary {
+  name: string;
+  title: string;
+  description: string;
+  useCase?: string;
+  slots: Record<string, TemplateSlot>;
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+function lookup(scope: Record<string, any>, key: string): any {
+  return key.split('.').reduce((value, part) => (value == null ? undefined : value[part]), scope);
+}
+
+/**
+ * Replace placeholders throughout a template value
+ */
+function fill(value: any, scope: Record<string, any>): any {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return lookup(scope, whole[1]) ?? '';
+    }
+    return value.replace(PLACEHOLDER, (_, key) => String(lookup(scope, key) ?? ''));
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(entry => {
+      if (entry && typeof entry === 'object' && typeof entry.$each === 'string') {
+        const items: any[] = Array.isArray(scope[entry.$each]) ? scope[entry.$each] : [];
+        return items.flatMap((item, index) => fill(entry.template || [], { ...scope, item, index, number: index + 1 }));
+      }
+      return [fill(entry, scope)];
+    });
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fill(entry, scope)]));
+  }
+
+  return value;
+}
+
+/**
+ * Give every block in a tree a fresh block_id, unique within the tree
+ */
+function assignBlockIds(blocks: any[], used: Set<string> = new Set()): any[] {
+  return blocks.map(block => {
+    let blockId = generateBlockId();
+    while (used.has(blockId)) {
+      blockId = generateBlockId();
+    }
+    used.add(blockId);
+
+    return {
+      ...block,
+      attrs: { ...(block.attrs || {}), block_id: blockId },
+      innerBlocks: assignBlockIds(block.innerBlocks || [], used)
+    };
+  });
+}
+
+export class TemplateLibrary {
+  private templates: Map<string, SectionTemplate> = new Map();
+  private templatesPath: string;
+
+  constructor(templatesPath: string) {
+    this.templatesPath = templatesPath;
+    this.load();
+  }
+
+  /**
+   * Load all template files
+   */
+  private load() {
+    this.templates.clear();
+
+    if (!fs.existsSync(this.templatesPath)) {
+      logger.warn(`No templates directory found at ${this.templatesPath}`);
+      return;
+    }
+
+    const files = fs.readdirSync(this.templatesPath).filter(f => f.endsWith('.json')).sort();
+    for (const file of files) {
+      try {
+        const template: SectionTemplate = JSON.parse(fs.readFileSync(path.join(this.templatesPath, file), 'utf8'));
+        if (!template.name || !Array.isArray(template.blocks)) {
+          logger.error(`Invalid template ${file}: name and blocks are required`);
+          continue;
+        }
+        this.templates.set(template.name, { ...template, slots: template.slots || {} });
+      } catch (error: any) {
+        logger.error(`Failed to load template ${file}:`, error);
+      }
+    }
+
+    logger.info(`🧩 Loaded ${this.templates.size} section templates`);
+  }
+
+  getTemplate(name: string): SectionTemplate | null {
+    return this.templates.get(name) || null;
+  }
+
+  getTemplateNames(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  /**
+   * Templates without their block trees, optionally for one use case
+   */
+  listTemplates(useCase?: string): TemplateSummary[] {
+    return [...this.templates.values()]
+      .filter(template => !useCase || template.useCase === useCase)
+      .map(({ name, title, description, useCase: templateUseCase, slots }) => ({
+        name,
+        title,
+        description,
+        useCase: templateUseCase,
+        slots
+      }));
+  }
+
+  /**
+   * Check slot values against a template's slots; returns one message per problem
+   */
+  checkSlots(template: SectionTemplate, values: Record<string, any>): string[] {
+    const problems: string[] = [];
+
+    for (const name of Object.keys(values)) {
+      if (!template.slots[name]) {
+        problems.push(`Unknown slot "${name}" (available: ${Object.keys(template.slots).join(', ')})`);
+      }
+    }
+
+    for (const [name, slot] of Object.entries(template.slots)) {
+      const value = values[name];
+      if (value === undefined) {
+        if (slot.required) {
+          problems.push(`Missing required slot "${name}": ${slot.description}`);
+        }
+        continue;
+      }
+
+      if (slot.type === 'array' ? !Array.isArray(value) : typeof value !== 'string') {
+        problems.push(`Slot "${name}" must be ${slot.type === 'array' ? 'an array' : 'a string'}`);
+      } else if (slot.type === 'array' && slot.required && value.length === 0) {
+        problems.push(`Slot "${name}" needs at least one item`);
+      } else if (slot.type === 'url' && !/^(https?:\/\/|\/|#)/.test(value)) {
+        problems.push(`Slot "${name}" must be an absolute URL, a site path or an anchor (got "${value}")`);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Fill a template's slots (defaults for those not given) and assign fresh block IDs
+   */
+  instantiate(template: SectionTemplate, values: Record<string, any>): any[] {
+    const scope: Record<string, any> = {};
+    for (const [name, slot] of Object.entries(template.slots)) {
+      scope[name] = values[name] ?? slot.default ?? '';
+    }
+
+    return assignBlockIds(fill(template.blocks, scope));
+  }
+
+  async reload() {
+    this.load();
+  }
+}
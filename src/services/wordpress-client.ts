@@ -22,21 +22,56 @@ export interface UpdateContentRequest {
   blocks: any[];
   title?: string;
   create_revision?: boolean;
+  // Optimistic concurrency guard: the update fails with 409 if the post changed
+  expected_modified?: string;
+  expected_hash?: string;
+}
+
+export type PostStatus = 'draft' | 'pending' | 'publish' | 'future' | 'private';
+
+export interface SetStatusRequest {
+  status: PostStatus;
+  // Required for 'future': when to publish (ISO 8601)
+  date?: string;
+}
+
+export interface SiteConnection {
+  url: string;
+  username: string;
+  app_password: string;
+  timeout?: number;
+  retry_attempts?: number;
+}
+
+export interface ConnectionHealth {
+  connected: boolean;
+  last_checked: string | null;
+  last_error: string | null;
 }
 
 export class WordPressClient {
   private baseUrl: string;
   private auth: string;
   private axios: AxiosInstance;
+  private maxRetries: number;
   private connected: boolean = false;
+  private lastChecked: string | null = null;
+  private lastError: string | null = null;
 
-  constructor() {
-    this.baseUrl = process.env.WORDPRESS_URL!;
+  /**
+   * Connect to one WordPress site (defaults to WORDPRESS_URL/WP_USERNAME/WP_APP_PASSWORD)
+   */
+  constructor(site?: SiteConnection) {
+    this.baseUrl = (site?.url || process.env.WORDPRESS_URL!).replace(/\/+$/, '');
     
     // Base64 encode credentials for Basic Auth
-    const credentials = `${process.env.WP_USERNAME}:${process.env.WP_APP_PASSWORD}`;
+    const credentials = site
+      ? `${site.username}:${site.app_password}`
+      : `${process.env.WP_USERNAME}:${process.env.WP_APP_PASSWORD}`;
     this.auth = Buffer.from(credentials).toString('base64');
 
+    this.maxRetries = site?.retry_attempts ?? parseInt(process.env.WP_API_RETRY_ATTEMPTS || '3', 10);
+
     // Create axios instance
     this.axios = axios.create({
       baseURL: `${this.baseUrl}/wp-json/nexter-mcp/v1`,
@@ -45,7 +80,7 @@ export class WordPressClient {
         'Content-Type': 'application/json',
         'User-Agent': 'Nexter-MCP-Server/1.0'
       },
-      timeout: parseInt(process.env.WP_API_TIMEOUT || '30000', 10)
+      timeout: site?.timeout ?? parseInt(process.env.WP_API_TIMEOUT || '30000', 10)
     });
 
     // Request interceptor for logging
@@ -87,7 +122,7 @@ export class WordPressClient {
           config.retry = 0;
         }
 
-        const maxRetries = parseInt(process.env.WP_API_RETRY_ATTEMPTS || '3', 10);
+        const maxRetries = this.maxRetries;
         const shouldRetry = config.retry < maxRetries && 
                            error.response?.status &&
                            error.response.status >= 500;
@@ -129,8 +164,11 @@ export class WordPressClient {
         timeout: 5000
       });
 
+      this.lastChecked = new Date().toISOString();
+
       if (response.status === 200) {
         this.connected = true;
+        this.lastError = null;
         logger.info('✅ WordPress connection successful', {
           site: this.baseUrl,
           user: response.data.name
@@ -141,6 +179,8 @@ export class WordPressClient {
       return false;
     } catch (error: any) {
       this.connected = false;
+      this.lastChecked = new Date().toISOString();
+      this.lastError = error.message;
       logger.error('WordPress connection failed', {
         site: this.baseUrl,
         error: error.message
@@ -156,6 +196,24 @@ export class WordPressClient {
     return this.connected;
   }
 
+  /**
+   * Result of the last connection test
+   */
+  getHealth(): ConnectionHealth {
+    return {
+      connected: this.connected,
+      last_checked: this.lastChecked,
+      last_error: this.lastError
+    };
+  }
+
+  /**
+   * Site URL this client talks to
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
   /**
    * Get post/page content with parsed blocks
    */
@@ -188,10 +246,32 @@ export class WordPressClient {
       const response = await this.axios.post(`/content/${postId}/update`, data);
       return response.data;
     } catch (error: any) {
+      if (error.response?.status === 409) {
+        throw Object.assign(
+          new Error(`Edit conflict: ${error.response.data?.message || 'post was modified after it was loaded'}`),
+          { code: 'POST_EDIT_CONFLICT', details: error.response.data?.data }
+        );
+      }
       throw new Error(`Failed to update content: ${error.response?.data?.message || error.message}`);
     }
   }
 
+  /**
+   * Change post status (publish, schedule, private, back to draft)
+   */
+  async setPostStatus(postId: number, data: SetStatusRequest) {
+    try {
+      const response = await this.axios.post(`/content/${postId}/status`, data);
+      return response.data;
+    } catch (error: any) {
+      // The status tells a refused change (403) from a missing post (404)
+      throw Object.assign(
+        new Error(`Failed to set post status: ${error.response?.data?.message || error.message}`),
+        { status: error.response?.status }
+      );
+    }
+  }
+
   /**
    * Search for posts/pages
    */
@@ -241,6 +321,30 @@ export class WordPressClient {
       throw new Error(`Failed to get revisions: ${error.response?.data?.message || error.message}`);
     }
   }
+
+  /**
+   * Get a single revision with parsed blocks
+   */
+  async getRevision(postId: number, revisionId: number) {
+    try {
+      const response = await this.axios.get(`/content/${postId}/revisions/${revisionId}`);
+      return response.data;
+    } catch (error: any) {
+      throw new Error(`Failed to get revision: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  /**
+   * Restore post content to a revision
+   */
+  async restoreRevision(postId: number, revisionId: number) {
+    try {
+      const response = await this.axios.post(`/content/${postId}/revisions/${revisionId}/restore`);
+      return response.data;
+    } catch (error: any) {
+      throw new Error(`Failed to restore revision: ${error.response?.data?.message || error.message}`);
+    }
+  }
 }
 
 // Extend AxiosRequestConfig to include meta for timing
@@ -8,15 +8,51 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { WordPressClient } from '../services/wordpress-client.js';
+import { SiteRegistry } from '../services/site-registry.js';
 import { SchemaLoader } from '../services/schema-loader.js';
+import { TemplateLibrary } from '../services/template-library.js';
 import { logger, logToolCall } from '../utils/logger.js';
 import { preprocessBlocks } from '../utils/block-formatter.js';
-import { validateBlocks, validateAndFix } from '../utils/input-validator.js';
+import {
+  validateBlocksWithSchemas,
+  validateBlocksAgainstSchemas,
+  validateAndFix
+} from '../utils/input-validator.js';
+import {
+  parseBlockPath,
+  formatBlockPath,
+  resolveBlockPath,
+  insertBlockAt,
+  removeBlockAt,
+  modifyBlockAt,
+  moveBlockAt,
+  duplicateBlockAt,
+  swapBlocksAt
+} from '../utils/block-tree.js';
+import { diffBlocks } from '../utils/block-diff.js';
+import { parseBlocks, serializeBlocks, isWhitespaceBlock } from '../utils/block-parser.js';
+import { convertToBlocks } from '../utils/content-converter.js';
+import { exportBlocks } from '../utils/content-exporter.js';
+import { replaceInBlocks } from '../utils/block-replace.js';
+import { findBlocks } from '../utils/block-search.js';
+import { loadSchemasWithinBudget } from '../utils/schema-budget.js';
+import { normalizeBlocks, NormalizeMode } from '../utils/attribute-normalizer.js';
+import {
+  createError,
+  insufficientScopeError,
+  siteNotFoundError,
+  templateNotFoundError,
+  invalidTemplateSlotsError,
+  schemaReloadRejectedError,
+  wordpressApiError
+} from '../utils/error-handler.js';
+import { hasScope, requiredScopeForTool } from '../utils/auth.js';
 
 export function registerTools(
   server: Server,
-  wpClient: WordPressClient,
-  schemaLoader: SchemaLoader
+  sites: SiteRegistry,
+  schemaLoader: SchemaLoader,
+  templates: TemplateLibrary
 ) {
   
   // List all available tools
@@ -33,6 +69,8 @@ WHEN TO USE:
 - For complex layouts - see examples of nested blocks
 - To discover features - explore block capabilities
 
+Don't know the block name? Describe what you need to find_blocks first.
+
 EXAMPLE 1 - Get specific blocks:
 {
   "block_names": ["tpgb/tp-heading", "tpgb/tp-pro-paragraph"]
@@ -48,7 +86,17 @@ EXAMPLE 3 - Get blocks by category:
 {
   "category": "content"
 }
-Returns: all content-related blocks`,
+Returns: all content-related blocks
+
+EXAMPLE 4 - Attributes first, within a context budget:
+{
+  "use_case": "landing-page",
+  "levels": ["core", "styling", "examples"],
+  "max_tokens": 8000
+}
+Returns: meta and core for every block, then styling and examples while they fit; "omitted" lists what was left out
+
+LEVELS: meta (name, description, keywords), core (content attributes, editing guidelines), styling (style attributes), examples (sample blocks, common mistakes), full (everything, the default)`,
           inputSchema: {
             type: 'object',
             properties: {
@@ -69,10 +117,63 @@ Returns: all content-related blocks`,
                 type: 'string',
                 enum: ['content', 'layout', 'interactive', 'media', 'marketing', 'social', 'forms', 'navigation', 'advanced'],
                 description: 'Block category to retrieve all blocks from'
+              },
+              levels: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['meta', 'core', 'styling', 'examples', 'full']
+                },
+                description: 'Schema levels to return, merged per block (default: ["full"])'
+              },
+              max_tokens: {
+                type: 'number',
+                minimum: 100,
+                description: 'Approximate token budget for the returned schemas. Lower-priority levels (examples, then styling, then core) are dropped to fit and reported in "omitted"'
               }
             }
           }
         },
+        {
+          name: 'find_blocks',
+          description: `Find blocks by describing what you need. Ranks the block catalog by keywords, use cases, titles and descriptions and returns short summaries (name, title, category, complexity, description, use cases, related blocks) - no attributes. Pass the names you pick to get_block_schemas.
+
+EXAMPLE:
+{
+  "query": "a countdown for a product launch"
+}
+Returns: tpgb/tp-countdown first, then weaker matches
+
+Child blocks (e.g. tpgb/tp-accordion-inner) list the parent they must be nested in.`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                minLength: 1,
+                description: 'What the block should do, in plain words'
+              },
+              limit: {
+                type: 'number',
+                minimum: 1,
+                maximum: 20,
+                default: 5,
+                description: 'Maximum number of blocks to return'
+              },
+              category: {
+                type: 'string',
+                enum: ['content', 'layout', 'interactive', 'media', 'marketing', 'social', 'forms', 'navigation', 'advanced'],
+                description: 'Only search this category'
+              },
+              max_complexity: {
+                type: 'string',
+                enum: ['simple', 'medium', 'advanced', 'expert'],
+                description: 'Leave out blocks more complex than this'
+              }
+            },
+            required: ['query']
+          }
+        },
         {
           name: 'create_content',
           description: `Create new WordPress post or page with Nexter blocks. Content is ALWAYS created as DRAFT for review. Returns post ID and preview URL.
@@ -113,8 +214,7 @@ EXAMPLE 2 - Nested accordion (FAQ):
           "blockName": "tpgb/tp-accordion-inner",
           "attrs": {
             "block_id": "d5e2",
-            "accordionTitle": "What is this?",
-            "description": "This is an answer."
+            "title": "What is this?"
           }
         }
       ]
@@ -126,10 +226,18 @@ COMMON ERRORS:
 ❌ Missing block_id → Add 4-char hex ID to all blocks
 ❌ Wrong blockName format → Use "tpgb/..." format
 ❌ Content not appearing → Check attrs.content field
-❌ Invalid attribute types → Check schema for correct types`,
+❌ Invalid attribute types → Check schema for correct types
+❌ Unknown attribute (e.g. "tag" instead of "tTag") → Use names from get_block_schemas
+⚠️ Attribute the plugin registers but the schema doesn't list → Warning only
+
+Instead of blocks, raw block markup can be sent as post_content (e.g. from analyze_content with include_post_content); it is parsed locally and its markup kept as-is.`,
           inputSchema: {
             type: 'object',
             properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
               post_type: {
                 type: 'string',
                 enum: ['post', 'page'],
@@ -168,6 +276,10 @@ COMMON ERRORS:
                   }
                 }
               },
+              post_content: {
+                type: 'string',
+                description: 'Alternative to blocks: serialized block markup (<!-- wp:tpgb/... {json} -->)'
+              },
               excerpt: {
                 type: 'string',
                 maxLength: 500,
@@ -184,7 +296,7 @@ COMMON ERRORS:
                 description: 'Tag IDs (posts only)'
               }
             },
-            required: ['post_type', 'title', 'blocks']
+            required: ['post_type', 'title']
           }
         },
         {
@@ -193,6 +305,10 @@ COMMON ERRORS:
           inputSchema: {
             type: 'object',
             properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
               post_id: {
                 type: 'integer',
                 description: 'Post or page ID to analyze'
@@ -201,6 +317,11 @@ COMMON ERRORS:
                 type: 'boolean',
                 default: true,
                 description: 'Include block schemas for found blocks in response'
+              },
+              include_post_content: {
+                type: 'boolean',
+                default: false,
+                description: 'Include the serialized block markup (post_content) in the response'
               }
             },
             required: ['post_id']
@@ -212,6 +333,10 @@ COMMON ERRORS:
           inputSchema: {
             type: 'object',
             properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
               query: {
                 type: 'string',
                 description: 'Search query string'
@@ -235,10 +360,38 @@ COMMON ERRORS:
         },
         {
           name: 'edit_content',
-          description: 'Edit existing post/page with targeted operations. Supports attribute-level changes and block addition/removal. Creates WordPress revision automatically. ALWAYS load current content first.',
+          description: `Edit existing post/page with targeted operations. Supports attribute-level changes and block addition/removal. Creates WordPress revision automatically. ALWAYS load current content first.
+
+Nested blocks (inside containers, accordions, tabs) are addressed by block_id or by path, as reported by analyze_content.
+
+Reorder content atomically with move_block, duplicate_block (the copy and all its descendants get fresh block_ids) and swap_blocks - attributes are kept intact.
+
+Edits are guarded against concurrent changes: if the post is saved by someone else (e.g. in Gutenberg) between loading and saving, the edit fails with POST_EDIT_CONFLICT and the fresh content summary. Pass expected_modified from analyze_content to extend the guard back to your analysis.
+
+Set dry_run: true to preview: operations are applied and validated (locally and by WordPress) and a structured diff is returned, but nothing is saved.
+
+EXAMPLE - Add an FAQ item to an existing accordion:
+{
+  "post_id": 42,
+  "operations": [
+    {
+      "operation": "add_block",
+      "parent_block_id": "c4d9_42",
+      "target_position": -1,
+      "new_block": {
+        "blockName": "tpgb/tp-accordion-inner",
+        "attrs": { "block_id": "e6f1", "title": "How do I get started?" }
+      }
+    }
+  ]
+}`,
           inputSchema: {
             type: 'object',
             properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
               post_id: {
                 type: 'integer',
                 description: 'ID of post/page to edit'
@@ -251,16 +404,36 @@ COMMON ERRORS:
                   properties: {
                     operation: {
                       type: 'string',
-                      enum: ['modify_block', 'add_block', 'remove_block'],
+                      enum: ['modify_block', 'add_block', 'remove_block', 'move_block', 'duplicate_block', 'swap_blocks'],
                       description: 'Type of edit operation'
                     },
                     block_id: {
                       type: 'string',
                       description: 'Nexter block_id to target (for modify/remove)'
                     },
+                    path: {
+                      type: 'string',
+                      description: 'Block path like "0.innerBlocks.2" - the block to modify/remove/move/duplicate/swap, or the insertion slot for add_block'
+                    },
+                    parent_block_id: {
+                      type: 'string',
+                      description: 'For add_block/move_block: insert into this block\'s innerBlocks (e.g. an accordion, tabs or container)'
+                    },
                     target_position: {
                       type: 'integer',
-                      description: 'Position index for add_block (0-based, or use -1 for end)'
+                      description: 'Position index for add_block/move_block (0-based, or use -1 for end). Relative to parent_block_id when given'
+                    },
+                    to_path: {
+                      type: 'string',
+                      description: 'For move_block: destination slot as a path, based on the content before the move (e.g. "3" or "1.innerBlocks.0")'
+                    },
+                    other_block_id: {
+                      type: 'string',
+                      description: 'For swap_blocks: block_id of the second block'
+                    },
+                    other_path: {
+                      type: 'string',
+                      description: 'For swap_blocks: path of the second block'
                     },
                     new_attrs: {
                       type: 'object',
@@ -277,15 +450,107 @@ COMMON ERRORS:
               title_update: {
                 type: 'string',
                 description: 'Optional: Update post title'
+              },
+              expected_modified: {
+                type: 'string',
+                description: 'Optional: post "modified" timestamp from analyze_content. The edit fails with POST_EDIT_CONFLICT if the post changed since'
+              },
+              dry_run: {
+                type: 'boolean',
+                default: false,
+                description: 'Validate the operations and return a before/after diff (blocks added, removed, moved and attribute changes) without saving'
               }
             },
             required: ['post_id', 'operations']
           }
         },
+        {
+          name: 'bulk_replace',
+          description: `Find and replace text across many posts/pages: phone numbers, product names, CTA URLs. Replaces literal text in string attributes (including link URLs and list items) and in the text of the saved block markup, which is where text like heading titles is stored. Tags, CSS classes and HTML attributes in the markup are never matched; they only change when they hold a replaced attribute value (e.g. a link's href).
+
+Runs as a DRY RUN by default: returns a per-post summary of what would change. Re-run with dry_run: false to apply. Each updated post gets a new revision (undo with restore_revision) and is skipped with status "conflict" if it was edited meanwhile.
+
+Candidates come from search_content (up to 50 per call) or an explicit post_ids list. At most max_posts posts are processed per call; the response lists remaining_post_ids and a resume object to pass back as-is to continue.
+
+EXAMPLE - preview a phone number change on pages:
+{
+  "find": "+1 555 0100",
+  "replace": "+1 555 0199",
+  "post_type": "page"
+}
+
+EXAMPLE - only CTA button links:
+{
+  "find": "https://old.example.com/signup",
+  "replace": "https://example.com/signup",
+  "block_types": ["tpgb/tp-button-core", "tpgb/tp-button"],
+  "attributes": ["bLink", "btnLink"],
+  "dry_run": false
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
+              find: {
+                type: 'string',
+                minLength: 1,
+                description: 'Literal text to find'
+              },
+              replace: {
+                type: 'string',
+                description: 'Replacement text (may be empty)'
+              },
+              post_type: {
+                type: 'string',
+                enum: ['post', 'page', 'any'],
+                default: 'any',
+                description: 'Content type to search'
+              },
+              post_ids: {
+                type: 'array',
+                items: { type: 'integer' },
+                description: 'Process these posts instead of searching (e.g. remaining_post_ids from a previous call)'
+              },
+              block_types: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only replace inside these block types'
+              },
+              attributes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only replace in these attributes (top-level names)'
+              },
+              case_sensitive: {
+                type: 'boolean',
+                default: true,
+                description: 'Match case exactly'
+              },
+              max_posts: {
+                type: 'integer',
+                minimum: 1,
+                maximum: 50,
+                default: 20,
+                description: 'Posts to process in this call'
+              },
+              dry_run: {
+                type: 'boolean',
+                default: true,
+                description: 'Preview changes without saving'
+              }
+            },
+            required: ['find', 'replace']
+          }
+        },
         {
           name: 'validate_content',
           description: `Validate block structure before saving. Checks against Nexter schemas and WordPress requirements. Returns detailed errors with fix suggestions.
 
+Attributes of Nexter blocks are checked against their schemas: wrong types, values outside an enum and pattern mismatches are reported as errors. Attribute names missing from the schema are reported as warnings (strict mode turns them into errors), since the plugin registers attributes the curated schemas don't list yet.
+
 USE THIS TOOL:
 - Before calling create_content or edit_content
 - When receiving validation errors
@@ -315,11 +580,26 @@ EXAMPLE 2 - With auto-fix:
 }
 Returns: Fixed blocks with proper format
 
+EXAMPLE 3 - See every attribute with its default:
+{
+  "blocks": [{ "blockName": "tpgb/tp-heading", "attrs": { "block_id": "a3f2", "title": "Test" } }],
+  "normalize": "expand"
+}
+Returns: blocks with all registered defaults filled in, normalized: [{ path, blockName, attributes }]
+
+NORMALIZE:
+- expand: fill in every attribute the plugin registers a default for, for inspection
+- minimize: drop attributes equal to their default, as the block editor serializes them
+create_content and edit_content minimize automatically (edit_content only the blocks it changes), so there is no need to send defaults.
+
 RETURNS:
 - valid: boolean - passes all checks
 - errors: array - required fixes
 - warnings: array - optional improvements
-- fixes_applied: array - auto-corrections made`,
+- fixes_applied: array - auto-corrections made
+- normalized: array - attributes filled in or dropped per block (with normalize)
+
+Raw markup can be validated instead of a block tree: { "post_content": "<!-- wp:tpgb/tp-heading {\\"block_id\\":\\"a3f2\\"} /-->" }`,
           inputSchema: {
             type: 'object',
             properties: {
@@ -328,6 +608,10 @@ RETURNS:
                 minItems: 1,
                 description: 'Block tree to validate'
               },
+              post_content: {
+                type: 'string',
+                description: 'Alternative to blocks: serialized block markup, parsed and validated offline'
+              },
               strict: {
                 type: 'boolean',
                 default: false,
@@ -337,52 +621,403 @@ RETURNS:
                 type: 'boolean',
                 default: false,
                 description: 'Automatically fix common issues (missing block_id, type conversions)'
+              },
+              normalize: {
+                type: 'string',
+                enum: ['expand', 'minimize'],
+                description: 'Also return the blocks with registered defaults filled in (expand) or left out (minimize)'
+              }
+            }
+          }
+        },
+        {
+          name: 'convert_to_blocks',
+          description: `Convert existing Markdown or HTML copy into Nexter blocks, ready for create_content or edit_content. Nothing is saved.
+
+MAPPING:
+- Headings → tpgb/tp-heading (tTag h1-h6)
+- Paragraphs → tpgb/tp-pro-paragraph
+- Images (and <figure> with <figcaption>) → tpgb/tp-image
+- Links styled as buttons (class "button"/"btn", role="button", or Markdown [Text](url){.button}) → tpgb/tp-button
+- Lists → tpgb/tp-stylist-list
+- Blockquotes → tpgb/tp-blockquote
+- <details>/<summary> → tpgb/tp-accordion with one tpgb/tp-accordion-inner per item
+Other elements are kept as paragraph HTML and reported in warnings.
+
+EXAMPLE:
+{
+  "format": "markdown",
+  "content": "## Pricing\n\nSimple plans for everyone.\n\n- No setup fee\n- Cancel anytime\n\n[Start free trial](https://example.com/signup){.button}"
+}
+Returns: blocks with generated block_ids, validated as with validate_content auto_fix`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              content: {
+                type: 'string',
+                minLength: 1,
+                description: 'Markdown or HTML to convert'
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'html'],
+                default: 'markdown',
+                description: 'Format of content'
               }
             },
-            required: ['blocks']
+            required: ['content']
           }
-        }
-      ]
-    };
-  });
+        },
+        {
+          name: 'instantiate_template',
+          description: `Build a ready-made page section from the template library. Fills the template's slots (headline, CTA label, image URL, ...), assigns fresh block IDs and returns validated blocks to pass to create_content, or one at a time to edit_content add_block. Nothing is saved.
 
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const name = request.params.name;
-    const args = request.params.arguments || {};
-    const startTime = Date.now();
+TEMPLATES:
+${templates.listTemplates().map(template => `- ${template.name}: ${template.description}. Slots: ${
+  Object.entries(template.slots).map(([name, slot]) => `${name}${slot.required ? ' (required)' : ''}`).join(', ')
+}`).join('\n')}
 
-    try {
-      let result;
+EXAMPLE:
+{
+  "template": "faq-section",
+  "slots": {
+    "headline": "Questions?",
+    "items": [
+      { "question": "Can I cancel anytime?", "answer": "Yes, from your account page." }
+    ]
+  }
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              template: {
+                type: 'string',
+                enum: templates.getTemplateNames(),
+                description: 'Template name'
+              },
+              slots: {
+                type: 'object',
+                description: 'Slot values by name; slots left out use their defaults'
+              }
+            },
+            required: ['template']
+          }
+        },
+        {
+          name: 'export_content',
+          description: `Export a post/page (or a block array) as clean Markdown or semantic HTML, without Nexter attributes or markup. Use it to hand page copy to translation, SEO review or other tools.
 
-      switch (name) {
-        case 'get_block_schemas':
-          result = await handleGetBlockSchemas(args, schemaLoader);
-          break;
+Provide exactly one of post_id, blocks or post_content. Headings, paragraphs, images, buttons, lists, quotes and accordions are exported; blocks without copy (spacers, layout) are skipped and blocks that can't be exported are listed in warnings.
 
-        case 'create_content':
-          result = await handleCreateContent(args, wpClient);
-          break;
+Markdown output uses the same conventions as convert_to_blocks ([Text](url){.button} for buttons, <details> for accordion items), so translated copy can be converted back.
 
-        case 'analyze_content':
-          result = await handleAnalyzeContent(args, wpClient, schemaLoader);
-          break;
+EXAMPLE:
+{
+  "post_id": 123,
+  "format": "markdown"
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
+              post_id: {
+                type: 'integer',
+                description: 'Post or page ID to export'
+              },
+              blocks: {
+                type: 'array',
+                minItems: 1,
+                description: 'Alternative to post_id: block tree to export'
+              },
+              post_content: {
+                type: 'string',
+                description: 'Alternative to post_id: serialized block markup to export'
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'html'],
+                default: 'markdown',
+                description: 'Output format'
+              }
+            }
+          }
+        },
+        {
+          name: 'list_revisions',
+          description: `List the saved revisions of a post/page (newest first). Use before restore_revision to find the version to go back to. The revision matching the current content is flagged with matches_current.
 
-        case 'search_content':
-          result = await handleSearchContent(args, wpClient);
-          break;
+EXAMPLE:
+{
+  "post_id": 42
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
+              post_id: {
+                type: 'integer',
+                description: 'Post or page ID'
+              }
+            },
+            required: ['post_id']
+          }
+        },
+        {
+          name: 'diff_revisions',
+          description: `Block-level diff between two revisions of a post/page, or between a revision and the current content. Reports blocks added, removed and moved, and per-attribute old/new values.
 
-        case 'edit_content':
-          result = await handleEditContent(args, wpClient, schemaLoader);
-          break;
+EXAMPLE 1 - What changed since a revision:
+{
+  "post_id": 42,
+  "from_revision_id": 118
+}
 
-        case 'validate_content':
-          result = await handleValidateContent(args, wpClient);
-          break;
+EXAMPLE 2 - Compare two revisions:
+{
+  "post_id": 42,
+  "from_revision_id": 118,
+  "to_revision_id": 121
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
+              post_id: {
+                type: 'integer',
+                description: 'Post or page ID'
+              },
+              from_revision_id: {
+                type: 'integer',
+                description: 'Revision to diff from (the "before" side)'
+              },
+              to_revision_id: {
+                type: 'integer',
+                description: 'Optional: revision to diff to (the "after" side). Defaults to the current content'
+              }
+            },
+            required: ['post_id', 'from_revision_id']
+          }
+        },
+        {
+          name: 'restore_revision',
+          description: `Restore a post/page to one of its revisions - the safety net for undoing a bad edit. WordPress records the restore as a new revision, so it can itself be undone. Use list_revisions and diff_revisions first to pick the right revision.
 
-        default:
-          result = { success: false, error: `Unknown tool: ${name}` };
-      }
+EXAMPLE:
+{
+  "post_id": 42,
+  "revision_id": 118
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
+              post_id: {
+                type: 'integer',
+                description: 'Post or page ID'
+              },
+              revision_id: {
+                type: 'integer',
+                description: 'Revision to restore'
+              }
+            },
+            required: ['post_id', 'revision_id']
+          }
+        },
+        {
+          name: 'set_post_status',
+          description: `Move a post/page through the publishing workflow: submit for review (pending), publish, schedule (future, with a date), make private, or return to draft. Only statuses allowed by the server (WP_ALLOWED_POST_STATUSES) can be set - others fail with AUTHORIZATION_DENIED.
+
+EXAMPLE 1 - Submit a reviewed draft:
+{
+  "post_id": 42,
+  "status": "pending"
+}
+
+EXAMPLE 2 - Schedule publication:
+{
+  "post_id": 42,
+  "status": "future",
+  "date": "2026-03-01T09:00:00Z"
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              site: {
+                type: 'string',
+                description: 'Site to target, from list_sites (defaults to the default site)'
+              },
+              post_id: {
+                type: 'integer',
+                description: 'Post or page ID'
+              },
+              status: {
+                type: 'string',
+                enum: ['draft', 'pending', 'publish', 'future', 'private'],
+                description: 'New post status'
+              },
+              date: {
+                type: 'string',
+                description: 'Publication date for status "future" (ISO 8601, e.g. "2026-03-01T09:00:00Z")'
+              }
+            },
+            required: ['post_id', 'status']
+          }
+        },
+        {
+          name: 'list_sites',
+          description: `List the WordPress sites this server manages, with their URL and connection health. Pass a site name as the "site" argument of content tools to target it; without "site", tools use the default site.
+
+EXAMPLE - Check every site's connection:
+{
+  "check_health": true
+}`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              check_health: {
+                type: 'boolean',
+                description: 'Test the connection to every site before listing (default: false, reports the last known state)'
+              }
+            }
+          }
+        },
+        {
+          name: 'reload_schemas',
+          description: `Re-read the block schemas, common definitions and catalog from disk and report which blocks, definitions and index files changed. Requires the schemas:admin scope.
+
+The new schemas replace the loaded ones only when they parse and every definitions:// reference resolves; otherwise the previous schemas stay in use and the problems are returned. The server also reloads automatically when schema files change (SCHEMAS_WATCH).`,
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        }
+      ]
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const name = request.params.name;
+    const args = request.params.arguments || {};
+    const startTime = Date.now();
+
+    // Scope check for authenticated HTTP callers (stdio carries no auth info)
+    const requiredScope = requiredScopeForTool(name);
+    if (!hasScope(extra.authInfo, requiredScope)) {
+      const errorResult = insufficientScopeError(name, requiredScope, extra.authInfo?.scopes || []);
+      logToolCall(name, args, errorResult, Date.now() - startTime);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(errorResult, null, 2)
+        }],
+        isError: true
+      };
+    }
+
+    // Resolve the target site before any WordPress call
+    if (!sites.has(args.site as string | undefined)) {
+      const errorResult = siteNotFoundError(String(args.site), sites.getNames());
+      logToolCall(name, args, errorResult, Date.now() - startTime);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(errorResult, null, 2)
+        }],
+        isError: true
+      };
+    }
+
+    try {
+      const wpClient = sites.getClient(args.site as string | undefined);
+      let result;
+
+      switch (name) {
+        case 'get_block_schemas':
+          result = await handleGetBlockSchemas(args, schemaLoader);
+          break;
+
+        case 'find_blocks':
+          result = await handleFindBlocks(args, schemaLoader);
+          break;
+
+        case 'create_content':
+          result = await handleCreateContent(args, wpClient, schemaLoader);
+          break;
+
+        case 'analyze_content':
+          result = await handleAnalyzeContent(args, wpClient, schemaLoader);
+          break;
+
+        case 'search_content':
+          result = await handleSearchContent(args, wpClient);
+          break;
+
+        case 'edit_content':
+          result = await handleEditContent(args, wpClient, schemaLoader);
+          break;
+
+        case 'bulk_replace':
+          result = await handleBulkReplace(args, wpClient, schemaLoader);
+          break;
+
+        case 'validate_content':
+          result = await handleValidateContent(args, wpClient, schemaLoader);
+          break;
+
+        case 'convert_to_blocks':
+          result = await handleConvertToBlocks(args, schemaLoader);
+          break;
+
+        case 'instantiate_template':
+          result = await handleInstantiateTemplate(args, schemaLoader, templates);
+          break;
+
+        case 'export_content':
+          result = await handleExportContent(args, wpClient, schemaLoader);
+          break;
+
+        case 'list_revisions':
+          result = await handleListRevisions(args, wpClient);
+          break;
+
+        case 'diff_revisions':
+          result = await handleDiffRevisions(args, wpClient);
+          break;
+
+        case 'restore_revision':
+          result = await handleRestoreRevision(args, wpClient);
+          break;
+
+        case 'set_post_status':
+          result = await handleSetPostStatus(args, wpClient);
+          break;
+
+        case 'list_sites':
+          result = await handleListSites(args, sites);
+          break;
+
+        case 'reload_schemas':
+          result = await handleReloadSchemas(schemaLoader);
+          break;
+
+        default:
+          result = { success: false, error: `Unknown tool: ${name}` };
+      }
 
       const duration = Date.now() - startTime;
       logToolCall(name, args, result, duration);
@@ -414,121 +1049,62 @@ RETURNS:
   });
 }
 
-// Export tool handlers for HTTP transport
-export const toolHandlers = {
-  get_block_schemas: handleGetBlockSchemas,
-  create_content: handleCreateContent,
-  analyze_content: handleAnalyzeContent,
-  search_content: handleSearchContent,
-  edit_content: handleEditContent,
-  validate_content: handleValidateContent
-};
-
-// Export tool definitions for HTTP transport
-export const toolDefinitions = [
-  {
-    name: 'get_block_schemas',
-    description: 'Get Nexter block schemas for specific blocks, use cases, or categories. Use this to understand block structure before creating/editing content. Returns ONLY requested schemas to minimize context usage.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        block_names: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Specific block names to retrieve (e.g., ["tpgb/tp-accordion", "tpgb/tp-heading"])'
-        },
-        use_case: {
-          type: 'string',
-          enum: ['hero-section', 'testimonial-section', 'faq-section', 'pricing-section', 'cta-section', 'team-section', 'blog-post', 'landing-page'],
-          description: 'Common content pattern to retrieve related blocks for'
-        },
-        category: {
-          type: 'string',
-          enum: ['content', 'layout', 'interactive', 'media', 'marketing', 'social', 'forms', 'navigation', 'advanced'],
-          description: 'Block category to retrieve all blocks from'
-        }
-      }
-    }
-  },
-  {
-    name: 'create_content',
-    description: 'Create new WordPress post or page with Nexter blocks. Content is ALWAYS created as DRAFT for review. Returns post ID and preview URL.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        post_type: { type: 'string', enum: ['post', 'page'] },
-        title: { type: 'string' },
-        blocks: { type: 'array' },
-        excerpt: { type: 'string' },
-        categories: { type: 'array', items: { type: 'integer' } },
-        tags: { type: 'array', items: { type: 'integer' } }
-      },
-      required: ['post_type', 'title', 'blocks']
-    }
-  },
-  {
-    name: 'analyze_content',
-    description: 'Analyze post/page to identify which Nexter blocks it uses. ALWAYS use BEFORE editing.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        post_id: { type: 'integer' },
-        include_schemas: { type: 'boolean', default: true }
-      },
-      required: ['post_id']
-    }
-  },
-  {
-    name: 'search_content',
-    description: 'Search for posts or pages by query string.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: { type: 'string' },
-        post_type: { type: 'string', enum: ['post', 'page', 'any'], default: 'post' },
-        limit: { type: 'integer', default: 10 }
-      },
-      required: ['query']
-    }
-  },
-  {
-    name: 'edit_content',
-    description: 'Edit existing post/page with targeted operations. Creates WordPress revision automatically.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        post_id: { type: 'integer' },
-        operations: { type: 'array' },
-        title_update: { type: 'string' }
-      },
-      required: ['post_id', 'operations']
-    }
-  },
-  {
-    name: 'validate_content',
-    description: 'Validate block structure before saving.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        blocks: { type: 'array' },
-        strict: { type: 'boolean', default: false }
-      },
-      required: ['blocks']
-    }
-  }
-];
-
 // Tool implementations
 
 async function handleGetBlockSchemas(args: any, schemaLoader: SchemaLoader) {
-  let schemas;
-
-  if (args.block_names) {
-    schemas = await schemaLoader.getSchemas(args.block_names);
-  } else if (args.use_case) {
-    schemas = await schemaLoader.getSchemasForUseCase(args.use_case);
-  } else if (args.category) {
-    schemas = await schemaLoader.getSchemasByCategory(args.category);
+  const schema = z.object({
+    block_names: z.array(z.string()).optional(),
+    use_case: z.string().optional(),
+    category: z.string().optional(),
+    levels: z.array(z.enum(['meta', 'core', 'styling', 'examples', 'full'])).min(1).optional(),
+    max_tokens: z.number().int().min(100).optional()
+  });
+
+  const validated = schema.safeParse(args);
+  if (!validated.success) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'Input validation failed',
+      details: validated.error.errors
+    };
+  }
+
+  const { block_names, use_case, category, levels, max_tokens } = validated.data;
+
+  // Whole schemas, as before levels existed
+  if (!levels && max_tokens === undefined) {
+    let schemas;
+
+    if (block_names) {
+      schemas = await schemaLoader.getSchemas(block_names);
+    } else if (use_case) {
+      schemas = await schemaLoader.getSchemasForUseCase(use_case);
+    } else if (category) {
+      schemas = await schemaLoader.getSchemasByCategory(category);
+    } else {
+      return {
+        success: false,
+        error: 'Must specify block_names, use_case, or category'
+      };
+    }
+
+    return {
+      success: true,
+      schemas: schemas,
+      count: schemas.length,
+      note: `Loaded ${schemas.length} block schema(s). Use these to understand block structure.`
+    };
+  }
+
+  let blockNames: string[];
+  if (block_names) {
+    blockNames = block_names;
+  } else if (use_case) {
+    blockNames = schemaLoader.getBlockNamesForUseCase(use_case);
+  } else if (category) {
+    blockNames = schemaLoader.getBlockNamesForCategory(category);
   } else {
     return {
       success: false,
@@ -536,20 +1112,129 @@ async function handleGetBlockSchemas(args: any, schemaLoader: SchemaLoader) {
     };
   }
 
+  const requestedLevels = levels || ['full'];
+
+  if (max_tokens === undefined) {
+    const schemas = [];
+    const notFound = [];
+    for (const blockName of blockNames) {
+      const blockSchema = await schemaLoader.getBlockSchema(blockName, requestedLevels, true);
+      if (blockSchema) {
+        schemas.push(blockSchema);
+      } else {
+        notFound.push(blockName);
+      }
+    }
+
+    return {
+      success: true,
+      schemas,
+      count: schemas.length,
+      levels: requestedLevels,
+      ...(notFound.length > 0 ? { not_found: notFound } : {}),
+      note: `Loaded ${schemas.length} block schema(s) at levels ${requestedLevels.join(', ')}.`
+    };
+  }
+
+  const budgeted = await loadSchemasWithinBudget(blockNames, schemaLoader, requestedLevels, max_tokens);
+
+  return {
+    success: true,
+    schemas: budgeted.schemas,
+    count: budgeted.schemas.length,
+    levels: budgeted.included,
+    tokens: {
+      estimated: budgeted.tokens,
+      max: max_tokens
+    },
+    omitted: budgeted.omitted,
+    ...(budgeted.notFound.length > 0 ? { not_found: budgeted.notFound } : {}),
+    note: budgeted.omitted.length > 0
+      ? `Loaded ${budgeted.schemas.length} block schema(s); left out ${budgeted.omitted.length} block(s)' lower levels to fit max_tokens. Request those levels for fewer blocks if you need them.`
+      : `Loaded ${budgeted.schemas.length} block schema(s) within max_tokens.`
+  };
+}
+
+/**
+ * Block tree from either a blocks array or raw post_content, parsed locally
+ * (whitespace between blocks is dropped)
+ */
+function resolveInputBlocks(args: { blocks?: any[]; post_content?: string }): { blocks: any[] } | { error: any } {
+  const hasBlocks = Array.isArray(args.blocks);
+  const hasPostContent = typeof args.post_content === 'string';
+
+  if (hasBlocks === hasPostContent) {
+    return {
+      error: {
+        status: 'error',
+        error_type: 'validation_error',
+        error_code: 'INVALID_INPUT',
+        message: hasBlocks
+          ? 'Provide either blocks or post_content, not both'
+          : 'Either blocks or post_content is required'
+      }
+    };
+  }
+
+  const blocks = hasBlocks ? args.blocks! : parseBlocks(args.post_content!).filter(block => !isWhitespaceBlock(block));
+  if (blocks.length === 0) {
+    return {
+      error: {
+        status: 'error',
+        error_type: 'validation_error',
+        error_code: 'INVALID_INPUT',
+        message: 'No blocks found in the input'
+      }
+    };
+  }
+
+  return { blocks };
+}
+
+async function handleFindBlocks(args: any, schemaLoader: SchemaLoader) {
+  const schema = z.object({
+    query: z.string().min(1),
+    limit: z.number().int().min(1).max(20).default(5),
+    category: z.string().optional(),
+    max_complexity: z.enum(['simple', 'medium', 'advanced', 'expert']).optional()
+  });
+
+  const validated = schema.safeParse(args);
+  if (!validated.success) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'Input validation failed',
+      details: validated.error.errors
+    };
+  }
+
+  const { query, limit, category, max_complexity } = validated.data;
+  const result = await findBlocks(query, schemaLoader, { limit, category, maxComplexity: max_complexity });
+
   return {
     success: true,
-    schemas: schemas,
-    count: schemas.length,
-    note: `Loaded ${schemas.length} block schema(s). Use these to understand block structure.`
+    query,
+    total: result.total,
+    blocks: result.hits,
+    message: result.hits.length > 0
+      ? `Found ${result.total} matching block(s). Use get_block_schemas with the names you need.`
+      : 'No blocks matched. Try other words, or browse a category with get_block_schemas.'
   };
 }
 
-async function handleCreateContent(args: any, wpClient: WordPressClient) {
+async function handleCreateContent(
+  args: any,
+  wpClient: WordPressClient,
+  schemaLoader: SchemaLoader
+) {
   // Validate input schema
   const schema = z.object({
     post_type: z.enum(['post', 'page']),
     title: z.string().min(1).max(200),
-    blocks: z.array(z.any()).min(1),
+    blocks: z.array(z.any()).min(1).optional(),
+    post_content: z.string().optional(),
     excerpt: z.string().max(500).optional(),
     categories: z.array(z.number()).optional(),
     tags: z.array(z.number()).optional()
@@ -566,8 +1251,14 @@ async function handleCreateContent(args: any, wpClient: WordPressClient) {
     };
   }
 
-  // Validate block structure with enhanced validator
-  const blockValidation = validateBlocks(validated.data.blocks);
+  const input = resolveInputBlocks(validated.data);
+  if ('error' in input) {
+    return input.error;
+  }
+  const { post_content: _postContent, ...postData } = validated.data;
+
+  // Validate block structure and attributes against block schemas
+  const blockValidation = await validateBlocksWithSchemas(input.blocks, schemaLoader);
   if (!blockValidation.valid) {
     return {
       status: 'error',
@@ -581,7 +1272,7 @@ async function handleCreateContent(args: any, wpClient: WordPressClient) {
   }
 
   // Pre-process blocks to add required Gutenberg fields
-  const preprocessed = preprocessBlocks(validated.data.blocks);
+  const preprocessed = preprocessBlocks(input.blocks, schemaLoader);
   
   if (preprocessed.warnings.length > 0) {
     logger.warn('Block preprocessing warnings:', preprocessed.warnings);
@@ -603,7 +1294,7 @@ async function handleCreateContent(args: any, wpClient: WordPressClient) {
   // Create content (always as draft)
   try {
     const result = await wpClient.createContent({
-      ...validated.data,
+      ...postData,
       blocks: preprocessed.formatted,
       status: 'draft'
     });
@@ -636,6 +1327,7 @@ async function handleAnalyzeContent(
 ) {
   const postId = args.post_id;
   const includeSchemas = args.include_schemas ?? true;
+  const includePostContent = args.include_post_content ?? false;
 
   // Get content
   const content = await wpClient.getContent(postId);
@@ -659,20 +1351,27 @@ async function handleAnalyzeContent(
       id: content.data.post_id,
       title: content.data.title,
       status: content.data.status,
-      type: content.data.type
+      type: content.data.type,
+      modified: content.data.modified
     },
     block_summary: {
       total: content.data.blocks.length,
       nexter_blocks: nexterBlocks.length,
       types: blockTypes
     },
-    blocks: nexterBlocks.map((b: any) => ({
-      blockName: b.blockName,
-      blockId: b.attrs?.block_id,
-      position: content.data.blocks.indexOf(b),
-      hasInnerBlocks: b.innerBlocks && b.innerBlocks.length > 0
-    })),
-    schemas: includeSchemas ? schemas : undefined
+    blocks: nexterBlocks.map((b: any) => {
+      const position = content.data.blocks.indexOf(b);
+      return {
+        blockName: b.blockName,
+        blockId: b.attrs?.block_id,
+        position,
+        path: String(position),
+        hasInnerBlocks: b.innerBlocks && b.innerBlocks.length > 0,
+        innerBlocks: summarizeInnerBlocks(b.innerBlocks, [position])
+      };
+    }),
+    schemas: includeSchemas ? schemas : undefined,
+    post_content: includePostContent ? serializeBlocks(content.data.blocks) : undefined
   };
 }
 
@@ -701,50 +1400,127 @@ async function handleSearchContent(args: any, wpClient: WordPressClient) {
 async function handleEditContent(
   args: any,
   wpClient: WordPressClient,
-  _schemaLoader: SchemaLoader
+  schemaLoader: SchemaLoader
 ) {
   const postId = args.post_id;
   const operations = args.operations;
   const titleUpdate = args.title_update;
+  const dryRun = args.dry_run === true;
 
   // Load current content
   const current = await wpClient.getContent(postId);
   let blocks = current.data.blocks;
 
+  // Caller's view of the post (e.g. from analyze_content) is already stale
+  if (args.expected_modified && args.expected_modified !== current.data.modified) {
+    return editConflictResponse(
+      postId,
+      `Post ${postId} was modified at ${current.data.modified}, after the expected version ${args.expected_modified}`,
+      current.data
+    );
+  }
+
   const changeLog: string[] = [];
 
   // Apply each operation
   for (const op of operations) {
-    switch (op.operation) {
-      case 'modify_block': {
-        blocks = modifyBlockAttributes(blocks, op.block_id, op.new_attrs);
-        changeLog.push(`Modified block ${op.block_id}`);
-        break;
-      }
+    try {
+      switch (op.operation) {
+        case 'modify_block': {
+          const target = resolveBlockPath(blocks, op);
+          blocks = modifyBlockAt(blocks, target, op.new_attrs);
+          changeLog.push(`Modified block ${op.block_id || formatBlockPath(target)}`);
+          break;
+        }
 
-      case 'add_block': {
-        const position = op.target_position ?? blocks.length;
-        blocks = insertBlock(blocks, position, op.new_block);
-        changeLog.push(`Added ${op.new_block.blockName} at position ${position}`);
-        break;
-      }
+        case 'add_block': {
+          let parent: number[] = [];
+          let position = op.target_position ?? -1;
+
+          if (op.path !== undefined) {
+            // Path addresses the insertion slot, e.g. "0.innerBlocks.2"
+            const slot = parseBlockPath(op.path);
+            parent = slot.slice(0, -1);
+            position = slot[slot.length - 1];
+          } else if (op.parent_block_id) {
+            parent = resolveBlockPath(blocks, { block_id: op.parent_block_id });
+          }
 
-      case 'remove_block': {
-        blocks = removeBlock(blocks, op.block_id);
-        changeLog.push(`Removed block ${op.block_id}`);
-        break;
-      }
+          blocks = insertBlockAt(blocks, parent, position, op.new_block);
+          changeLog.push(
+            parent.length > 0
+              ? `Added ${op.new_block.blockName} inside block ${op.parent_block_id || formatBlockPath(parent)} at position ${position}`
+              : `Added ${op.new_block.blockName} at position ${position}`
+          );
+          break;
+        }
+
+        case 'remove_block': {
+          const target = resolveBlockPath(blocks, op);
+          blocks = removeBlockAt(blocks, target);
+          changeLog.push(`Removed block ${op.block_id || formatBlockPath(target)}`);
+          break;
+        }
+
+        case 'move_block': {
+          const source = resolveBlockPath(blocks, op);
+          let parent: number[] = [];
+          let position = op.target_position ?? -1;
+
+          if (op.to_path !== undefined) {
+            const slot = parseBlockPath(op.to_path);
+            parent = slot.slice(0, -1);
+            position = slot[slot.length - 1];
+          } else if (op.parent_block_id) {
+            parent = resolveBlockPath(blocks, { block_id: op.parent_block_id });
+          }
+
+          blocks = moveBlockAt(blocks, source, parent, position);
+          changeLog.push(
+            `Moved block ${op.block_id || formatBlockPath(source)} to ` +
+            (parent.length > 0
+              ? `block ${op.parent_block_id || formatBlockPath(parent)} at position ${position}`
+              : `position ${position}`)
+          );
+          break;
+        }
 
-      default:
-        return {
-          success: false,
-          error: `Unknown operation: ${op.operation}`
-        };
+        case 'duplicate_block': {
+          const source = resolveBlockPath(blocks, op);
+          const duplicated = duplicateBlockAt(blocks, source);
+          blocks = duplicated.blocks;
+          changeLog.push(`Duplicated block ${op.block_id || formatBlockPath(source)} as ${duplicated.blockId}`);
+          break;
+        }
+
+        case 'swap_blocks': {
+          const first = resolveBlockPath(blocks, op);
+          const second = resolveBlockPath(blocks, { block_id: op.other_block_id, path: op.other_path });
+          blocks = swapBlocksAt(blocks, first, second);
+          changeLog.push(
+            `Swapped block ${op.block_id || formatBlockPath(first)} with ${op.other_block_id || formatBlockPath(second)}`
+          );
+          break;
+        }
+
+        default:
+          return {
+            success: false,
+            error: `Unknown operation: ${op.operation}`
+          };
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Operation ${op.operation} failed: ${error.message}`,
+        changes_applied: changeLog,
+        original_preserved: true
+      };
     }
   }
 
   // Validate modified block structure locally before preprocessing
-  const blockValidation = validateBlocks(blocks);
+  const blockValidation = await validateBlocksWithSchemas(blocks, schemaLoader);
   if (!blockValidation.valid) {
     return {
       success: false,
@@ -755,8 +1531,8 @@ async function handleEditContent(
     };
   }
 
-  // Pre-process blocks to ensure Gutenberg/Nexter fidelity
-  const preprocessed = preprocessBlocks(blocks);
+  // Pre-process blocks to ensure Gutenberg/Nexter fidelity; blocks the operations didn't touch stay as saved
+  const preprocessed = preprocessBlocks(blocks, schemaLoader, current.data.blocks);
 
   // Validate modified structure with WordPress using formatted blocks
   const validation = await wpClient.validateBlocks(preprocessed.formatted);
@@ -769,12 +1545,45 @@ async function handleEditContent(
     };
   }
 
-  // Update WordPress
-  const result = await wpClient.updateContent(postId, {
-    blocks: preprocessed.formatted,
-    title: titleUpdate,
-    create_revision: true
-  });
+  // Dry run: report what would change without saving
+  if (dryRun) {
+    return {
+      success: true,
+      dry_run: true,
+      post_id: postId,
+      changes_applied: changeLog,
+      diff: {
+        title: titleUpdate && titleUpdate !== current.data.title
+          ? { old: current.data.title, new: titleUpdate }
+          : undefined,
+        ...diffBlocks(current.data.blocks, preprocessed.formatted)
+      },
+      warnings: [
+        ...blockValidation.warnings,
+        ...preprocessed.warnings,
+        ...(validation.warnings || [])
+      ],
+      message: 'Dry run - changes validated but NOT saved. Re-run without dry_run to apply.'
+    };
+  }
+
+  // Update WordPress, failing if the post changed since it was loaded
+  let result;
+  try {
+    result = await wpClient.updateContent(postId, {
+      blocks: preprocessed.formatted,
+      title: titleUpdate,
+      create_revision: true,
+      expected_modified: current.data.modified,
+      expected_hash: current.data.content_hash
+    });
+  } catch (error: any) {
+    if (error.code !== 'POST_EDIT_CONFLICT') {
+      throw error;
+    }
+    const fresh = await wpClient.getContent(postId);
+    return editConflictResponse(postId, error.message, fresh.data);
+  }
 
   return {
     success: true,
@@ -787,34 +1596,205 @@ async function handleEditContent(
       ...preprocessed.warnings,
       ...(validation.warnings || [])
     ],
-    message: 'Changes saved with new revision. Original preserved.'
+    message: 'Changes saved with new revision. Original preserved - use list_revisions and restore_revision to undo.'
+  };
+}
+
+/** Change entries listed per post in a bulk_replace report */
+const BULK_REPLACE_MAX_CHANGES = 20;
+
+async function handleBulkReplace(
+  args: any,
+  wpClient: WordPressClient,
+  schemaLoader: SchemaLoader
+) {
+  const schema = z.object({
+    find: z.string().min(1),
+    replace: z.string(),
+    post_type: z.enum(['post', 'page', 'any']).default('any'),
+    post_ids: z.array(z.number().int().positive()).min(1).optional(),
+    block_types: z.array(z.string()).min(1).optional(),
+    attributes: z.array(z.string()).min(1).optional(),
+    case_sensitive: z.boolean().default(true),
+    max_posts: z.number().int().min(1).max(50).default(20),
+    dry_run: z.boolean().default(true)
+  });
+
+  const validated = schema.safeParse(args);
+  if (!validated.success) {
+    return {
+      success: false,
+      error: 'Input validation failed',
+      details: validated.error.errors
+    };
+  }
+
+  const options = validated.data;
+  if (options.find === options.replace) {
+    return { success: false, error: 'find and replace are identical' };
+  }
+
+  // Candidate posts: explicit list, or a search for the text
+  let candidates: number[];
+  let found: number | undefined;
+  if (options.post_ids) {
+    candidates = [...new Set(options.post_ids)];
+  } else {
+    const search = await wpClient.searchContent(options.find, options.post_type, 50);
+    candidates = search.data.posts.map((post: any) => post.id);
+    found = search.data.found;
+  }
+
+  const batch = candidates.slice(0, options.max_posts);
+  const remaining = candidates.slice(options.max_posts);
+  const posts: any[] = [];
+
+  for (const postId of batch) {
+    try {
+      const current = await wpClient.getContent(postId);
+      const replaced = replaceInBlocks(current.data.blocks, {
+        find: options.find,
+        replace: options.replace,
+        caseSensitive: options.case_sensitive,
+        blockTypes: options.block_types,
+        attributes: options.attributes
+      }, schemaLoader);
+
+      const report: any = {
+        post_id: postId,
+        title: current.data.title,
+        replacements: replaced.count,
+        changes: replaced.changes.slice(0, BULK_REPLACE_MAX_CHANGES),
+        changes_truncated: replaced.changes.length > BULK_REPLACE_MAX_CHANGES ? true : undefined
+      };
+
+      if (replaced.count === 0) {
+        posts.push({ ...report, status: 'no_match', changes: undefined });
+        continue;
+      }
+
+      const blockValidation = await validateBlocksWithSchemas(replaced.blocks, schemaLoader);
+      if (!blockValidation.valid) {
+        posts.push({ ...report, status: 'invalid', errors: blockValidation.errors });
+        continue;
+      }
+
+      if (options.dry_run) {
+        posts.push({ ...report, status: 'would_update' });
+        continue;
+      }
+
+      const preprocessed = preprocessBlocks(replaced.blocks, schemaLoader, current.data.blocks);
+      const wpValidation = await wpClient.validateBlocks(preprocessed.formatted);
+      if (!wpValidation.valid) {
+        posts.push({ ...report, status: 'invalid', errors: wpValidation.errors });
+        continue;
+      }
+
+      const result = await wpClient.updateContent(postId, {
+        blocks: preprocessed.formatted,
+        create_revision: true,
+        expected_modified: current.data.modified,
+        expected_hash: current.data.content_hash
+      });
+      posts.push({ ...report, status: 'updated', revision_id: result.data.revision_id });
+    } catch (error: any) {
+      posts.push({
+        post_id: postId,
+        status: error.code === 'POST_EDIT_CONFLICT' ? 'conflict' : 'failed',
+        error: error.message
+      });
+    }
+  }
+
+  const count = (status: string) => posts.filter(post => post.status === status).length;
+  // Posts worth another pass: not yet processed, or failed for a transient reason
+  const retry = posts.filter(post => post.status === 'conflict' || post.status === 'failed').map(post => post.post_id);
+  const resumeIds = [...remaining, ...retry];
+  const moreBeyondSearch = found !== undefined && found > candidates.length;
+
+  return {
+    success: true,
+    dry_run: options.dry_run,
+    find: options.find,
+    replace: options.replace,
+    summary: {
+      candidates: candidates.length,
+      found_by_search: found,
+      processed: posts.length,
+      [options.dry_run ? 'would_update' : 'updated']: count(options.dry_run ? 'would_update' : 'updated'),
+      no_match: count('no_match'),
+      invalid: count('invalid'),
+      conflicts: count('conflict'),
+      failed: count('failed'),
+      replacements: posts.reduce((total, post) => total + (post.status === 'no_match' ? 0 : post.replacements || 0), 0)
+    },
+    posts,
+    remaining_post_ids: remaining,
+    resume: resumeIds.length > 0
+      ? { ...args, post_ids: resumeIds }
+      : undefined,
+    message: [
+      options.dry_run
+        ? 'Dry run - nothing was saved. Re-run with dry_run: false to apply.'
+        : 'Updated posts were saved with a new revision - use restore_revision to undo.',
+      resumeIds.length > 0 ? `${resumeIds.length} post(s) left: call again with the resume arguments to continue.` : '',
+      moreBeyondSearch && !options.dry_run
+        ? `Search found ${found} posts but returns at most ${candidates.length}; call again without post_ids to pick up the rest.`
+        : '',
+      moreBeyondSearch && options.dry_run
+        ? `Search found ${found} posts; only the first ${candidates.length} were considered.`
+        : ''
+    ].filter(Boolean).join(' ')
   };
 }
 
-async function handleValidateContent(args: any, _wpClient: WordPressClient) {
-  const blocks = args.blocks;
+async function handleValidateContent(
+  args: any,
+  _wpClient: WordPressClient,
+  schemaLoader: SchemaLoader
+) {
+  const input = resolveInputBlocks(args);
+  if ('error' in input) {
+    return input.error;
+  }
+  const blocks = input.blocks;
   const strict = args.strict || false;
   const autoFix = args.auto_fix || false;
+  const normalize: NormalizeMode | undefined = args.normalize;
+
+  if (normalize !== undefined && normalize !== 'expand' && normalize !== 'minimize') {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'normalize must be "expand" or "minimize"'
+    };
+  }
 
   // Use auto-fix if requested
   if (autoFix) {
     const result = validateAndFix(blocks);
-    
+    const schemaResult = await validateBlocksAgainstSchemas(result.blocks, schemaLoader);
+    const valid = result.valid && schemaResult.valid;
+    const normalized = normalize ? normalizeBlocks(result.blocks, schemaLoader, normalize) : null;
+
     return {
-      status: result.valid ? 'success' : 'error',
-      valid: result.valid,
-      blocks: result.blocks,
-      errors: result.errors,
-      warnings: result.warnings,
+      status: valid ? 'success' : 'error',
+      valid,
+      blocks: normalized ? normalized.blocks : result.blocks,
+      errors: [...result.errors, ...schemaResult.errors],
+      warnings: [...result.warnings, ...schemaResult.warnings],
       fixes_applied: result.fixes_applied,
-      message: result.valid
+      ...(normalized ? { normalized: normalized.changes } : {}),
+      message: valid
         ? `Validation passed. ${result.fixes_applied.length > 0 ? 'Auto-fixes applied.' : 'No fixes needed.'}`
         : 'Validation failed after auto-fix. See errors for details.'
     };
   }
 
   // Standard validation without auto-fix
-  const validation = validateBlocks(blocks);
+  const validation = await validateBlocksWithSchemas(blocks, schemaLoader);
 
   // In strict mode, treat warnings as errors
   if (strict && validation.warnings.length > 0) {
@@ -828,11 +1808,14 @@ async function handleValidateContent(args: any, _wpClient: WordPressClient) {
     };
   }
 
+  const normalized = normalize ? normalizeBlocks(blocks, schemaLoader, normalize) : null;
+
   return {
     status: validation.valid ? 'success' : 'error',
     valid: validation.valid,
     errors: validation.errors,
     warnings: validation.warnings,
+    ...(normalized ? { blocks: normalized.blocks, normalized: normalized.changes } : {}),
     message: validation.valid
       ? 'All blocks are valid'
       : 'Validation failed - see errors for fix suggestions',
@@ -840,58 +1823,400 @@ async function handleValidateContent(args: any, _wpClient: WordPressClient) {
   };
 }
 
-// Helper functions
+async function handleConvertToBlocks(args: any, schemaLoader: SchemaLoader) {
+  const schema = z.object({
+    content: z.string().min(1),
+    format: z.enum(['markdown', 'html']).default('markdown')
+  });
 
-function modifyBlockAttributes(
-  blocks: any[],
-  blockId: string,
-  newAttrs: any
-): any[] {
-  return blocks.map((block: any) => {
-    if (block.attrs?.block_id === blockId) {
-      return {
-        ...block,
-        attrs: {
-          ...block.attrs,
-          ...newAttrs,
-          // NEVER modify these critical attributes
-          block_id: block.attrs.block_id,
-          className: block.attrs.className
-        }
-      };
+  const validated = schema.safeParse(args);
+  if (!validated.success) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'Input validation failed',
+      details: validated.error.errors
+    };
+  }
+
+  const converted = convertToBlocks(validated.data.content, validated.data.format);
+  if (converted.blocks.length === 0) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'No content found to convert',
+      warnings: converted.warnings
+    };
+  }
+
+  const result = validateAndFix(converted.blocks);
+  const schemaResult = await validateBlocksAgainstSchemas(result.blocks, schemaLoader);
+  const valid = result.valid && schemaResult.valid;
+
+  return {
+    status: valid ? 'success' : 'error',
+    valid,
+    blocks: result.blocks,
+    block_count: result.blocks.length,
+    errors: [...result.errors, ...schemaResult.errors],
+    warnings: [...converted.warnings, ...result.warnings, ...schemaResult.warnings],
+    fixes_applied: result.fixes_applied,
+    message: valid
+      ? `Converted ${validated.data.format} into ${result.blocks.length} block(s). Pass blocks to create_content or edit_content.`
+      : 'Converted blocks failed validation. See errors for details.'
+  };
+}
+
+async function handleInstantiateTemplate(
+  args: any,
+  schemaLoader: SchemaLoader,
+  templates: TemplateLibrary
+) {
+  const schema = z.object({
+    template: z.string().min(1),
+    slots: z.record(z.any()).default({})
+  });
+
+  const validated = schema.safeParse(args);
+  if (!validated.success) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'Input validation failed',
+      details: validated.error.errors
+    };
+  }
+
+  const template = templates.getTemplate(validated.data.template);
+  if (!template) {
+    return templateNotFoundError(validated.data.template, templates.getTemplateNames());
+  }
+
+  const problems = templates.checkSlots(template, validated.data.slots);
+  if (problems.length > 0) {
+    return invalidTemplateSlotsError(template.name, problems);
+  }
+
+  const result = validateAndFix(templates.instantiate(template, validated.data.slots));
+  const schemaResult = await validateBlocksAgainstSchemas(result.blocks, schemaLoader);
+  const valid = result.valid && schemaResult.valid;
+
+  return {
+    status: valid ? 'success' : 'error',
+    valid,
+    template: template.name,
+    blocks: result.blocks,
+    block_count: result.blocks.length,
+    errors: [...result.errors, ...schemaResult.errors],
+    warnings: [...result.warnings, ...schemaResult.warnings],
+    message: valid
+      ? `Built "${template.title}" with ${result.blocks.length} top-level block(s). Pass blocks to create_content or add them with edit_content.`
+      : 'Template blocks failed validation. See errors for details.'
+  };
+}
+
+async function handleExportContent(
+  args: any,
+  wpClient: WordPressClient,
+  schemaLoader: SchemaLoader
+) {
+  const schema = z.object({
+    post_id: z.number().int().positive().optional(),
+    blocks: z.array(z.any()).min(1).optional(),
+    post_content: z.string().optional(),
+    format: z.enum(['markdown', 'html']).default('markdown')
+  });
+
+  const validated = schema.safeParse(args);
+  if (!validated.success) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'Input validation failed',
+      details: validated.error.errors
+    };
+  }
+
+  const { post_id: postId, format } = validated.data;
+  const sources = [postId, validated.data.blocks, validated.data.post_content].filter(value => value !== undefined);
+  if (sources.length !== 1) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: sources.length === 0
+        ? 'One of post_id, blocks or post_content is required'
+        : 'Provide only one of post_id, blocks or post_content'
+    };
+  }
+
+  let blocks: any[];
+  let title: string | undefined;
+  if (postId !== undefined) {
+    const content = await wpClient.getContent(postId);
+    blocks = content.data.blocks;
+    title = content.data.title;
+  } else {
+    const input = resolveInputBlocks(validated.data);
+    if ('error' in input) {
+      return input.error;
+    }
+    blocks = input.blocks;
+  }
+
+  const exported = exportBlocks(blocks, format, schemaLoader);
+
+  return {
+    status: 'success',
+    post_id: postId,
+    title,
+    format,
+    content: exported.content,
+    warnings: exported.warnings
+  };
+}
+
+async function handleListRevisions(args: any, wpClient: WordPressClient) {
+  const postId = args.post_id;
+  if (!postId) {
+    return { success: false, error: 'post_id is required' };
+  }
+
+  const [revisions, current] = await Promise.all([
+    wpClient.getRevisions(postId),
+    wpClient.getContent(postId)
+  ]);
+
+  const list = revisions.data.revisions.map((rev: any) => ({
+    revision_id: rev.id,
+    date: rev.date,
+    author: rev.author,
+    matches_current: rev.content_hash === current.data.content_hash
+  }));
+
+  return {
+    success: true,
+    post_id: postId,
+    current_modified: current.data.modified,
+    revision_count: list.length,
+    revisions: list,
+    note: list.length === 0
+      ? 'No revisions stored for this post.'
+      : 'Use diff_revisions to compare a revision with the current content, then restore_revision to roll back.'
+  };
+}
+
+async function handleDiffRevisions(args: any, wpClient: WordPressClient) {
+  const postId = args.post_id;
+  const fromRevisionId = args.from_revision_id;
+  const toRevisionId = args.to_revision_id;
+
+  if (!postId || !fromRevisionId) {
+    return { success: false, error: 'post_id and from_revision_id are required' };
+  }
+
+  const from = await wpClient.getRevision(postId, fromRevisionId);
+  const to = toRevisionId
+    ? await wpClient.getRevision(postId, toRevisionId)
+    : await wpClient.getContent(postId);
+
+  return {
+    success: true,
+    post_id: postId,
+    from: { revision_id: fromRevisionId, date: from.data.date, title: from.data.title },
+    to: toRevisionId
+      ? { revision_id: toRevisionId, date: to.data.date, title: to.data.title }
+      : { revision_id: 'current', date: to.data.modified, title: to.data.title },
+    diff: {
+      title: from.data.title !== to.data.title
+        ? { old: from.data.title, new: to.data.title }
+        : undefined,
+      ...diffBlocks(from.data.blocks, to.data.blocks)
     }
+  };
+}
+
+async function handleRestoreRevision(args: any, wpClient: WordPressClient) {
+  const postId = args.post_id;
+  const revisionId = args.revision_id;
+
+  if (!postId || !revisionId) {
+    return { success: false, error: 'post_id and revision_id are required' };
+  }
+
+  // Record what the restore changes before applying it
+  const [current, revision] = await Promise.all([
+    wpClient.getContent(postId),
+    wpClient.getRevision(postId, revisionId)
+  ]);
+  const diff = diffBlocks(current.data.blocks, revision.data.blocks);
+
+  const result = await wpClient.restoreRevision(postId, revisionId);
+
+  return {
+    success: true,
+    post_id: postId,
+    restored_revision_id: revisionId,
+    modified: result.data.modified,
+    changes: diff.summary,
+    preview_url: result.data.preview_url,
+    message: 'Revision restored. The previous content is kept as a revision and can be restored again.'
+  };
+}
+
+async function handleSetPostStatus(args: any, wpClient: WordPressClient) {
+  const schema = z.object({
+    post_id: z.number().int().positive(),
+    status: z.enum(['draft', 'pending', 'publish', 'future', 'private']),
+    date: z.string().optional()
+  });
+
+  const validated = schema.safeParse(args);
+  if (!validated.success) {
+    return {
+      status: 'error',
+      error_type: 'validation_error',
+      error_code: 'INVALID_INPUT',
+      message: 'Input validation failed',
+      details: validated.error.errors
+    };
+  }
 
-    if (block.innerBlocks && block.innerBlocks.length > 0) {
+  const { post_id: postId, status, date } = validated.data;
+
+  // Server-side allowlist: agents can never publish unless the operator opted in
+  const allowed = getAllowedPostStatuses();
+  if (!allowed.includes(status)) {
+    return createError(
+      'AUTHORIZATION_DENIED',
+      `Setting post status "${status}" is not allowed on this server`,
+      {
+        field: 'status',
+        received: status,
+        expected: allowed.join(' | '),
+        suggestions: [`Allowed statuses: ${allowed.join(', ')}. Add "${status}" to WP_ALLOWED_POST_STATUSES to enable it.`]
+      }
+    );
+  }
+
+  let scheduledDate: string | undefined;
+  if (status === 'future') {
+    const timestamp = date ? Date.parse(date) : NaN;
+    if (isNaN(timestamp) || timestamp <= Date.now()) {
       return {
-        ...block,
-        innerBlocks: modifyBlockAttributes(block.innerBlocks, blockId, newAttrs)
+        status: 'error',
+        error_type: 'validation_error',
+        error_code: 'INVALID_INPUT',
+        message: 'Scheduling (status "future") requires a valid date in the future',
+        details: { field: 'date', received: date }
       };
     }
+    scheduledDate = new Date(timestamp).toISOString();
+  }
 
-    return block;
-  });
+  try {
+    const result = await wpClient.setPostStatus(postId, { status, date: scheduledDate });
+
+    return {
+      status: 'success',
+      post_id: postId,
+      previous_status: result.data.previous_status,
+      post_status: result.data.status,
+      scheduled_for: status === 'future' ? result.data.date_gmt : undefined,
+      url: result.data.url,
+      preview_url: result.data.preview_url,
+      edit_url: result.data.edit_url,
+      message: result.data.message
+    };
+  } catch (error: any) {
+    return wordpressApiError(error.message || 'Failed to change post status', error.status, { field: 'status' });
+  }
 }
 
-function insertBlock(blocks: any[], position: number, newBlock: any): any[] {
-  const result = [...blocks];
-  
-  // Handle negative position as "from end"
-  const insertAt = position < 0 ? result.length : position;
-  
-  result.splice(insertAt, 0, newBlock);
-  return result;
+async function handleListSites(args: any, sites: SiteRegistry) {
+  if (args.check_health) {
+    // Failures are recorded in each client's health, so one bad site doesn't fail the listing
+    await Promise.allSettled(sites.getNames().map(name => sites.getClient(name).testConnection()));
+  }
+
+  const list = sites.listSites();
+
+  return {
+    success: true,
+    default_site: sites.getDefaultName(),
+    total: list.length,
+    sites: list
+  };
 }
 
-function removeBlock(blocks: any[], blockId: string): any[] {
-  return blocks.filter((block: any) => {
-    if (block.attrs?.block_id === blockId) {
-      return false; // Remove this block
-    }
+async function handleReloadSchemas(schemaLoader: SchemaLoader) {
+  const report = await schemaLoader.reload();
+  if (!report.applied) {
+    return schemaReloadRejectedError(report.errors, report);
+  }
 
-    if (block.innerBlocks && block.innerBlocks.length > 0) {
-      block.innerBlocks = removeBlock(block.innerBlocks, blockId);
-    }
+  return {
+    success: true,
+    ...report
+  };
+}
 
-    return true;
-  });
+// Helper functions
+
+/**
+ * Summarize nested blocks with the paths edit_content accepts
+ */
+function summarizeInnerBlocks(innerBlocks: any[] | undefined, parentPath: number[]): any[] | undefined {
+  if (!innerBlocks || innerBlocks.length === 0) {
+    return undefined;
+  }
+
+  return innerBlocks
+    .map((inner: any, index: number) => ({ inner, path: [...parentPath, index] }))
+    .filter(({ inner }) => inner.blockName)
+    .map(({ inner, path }) => ({
+      blockName: inner.blockName,
+      blockId: inner.attrs?.block_id,
+      path: formatBlockPath(path),
+      innerBlocks: summarizeInnerBlocks(inner.innerBlocks, path)
+    }));
+}
+
+/**
+ * Conflict response for edits racing another save, with the fresh content summary
+ */
+function editConflictResponse(postId: number, message: string, currentData: any) {
+  return {
+    success: false,
+    ...createError(
+      'POST_EDIT_CONFLICT',
+      message,
+      { field: 'post_id', received: String(postId) },
+      { operation: 'edit_content', input: { post_id: postId }, failed_at: new Date().toISOString() }
+    ),
+    current_content: {
+      post_id: currentData.post_id,
+      title: currentData.title,
+      status: currentData.status,
+      modified: currentData.modified,
+      content_hash: currentData.content_hash,
+      block_count: currentData.blocks?.length ?? 0,
+      block_types: currentData.block_types
+    },
+    original_preserved: true
+  };
+}
+
+/**
+ * Post statuses set_post_status may apply (WP_ALLOWED_POST_STATUSES, comma-separated)
+ */
+function getAllowedPostStatuses(): string[] {
+  return (process.env.WP_ALLOWED_POST_STATUSES || 'draft,pending')
+    .split(',')
+    .map(status => status.trim())
+    .filter(Boolean);
 }
@@ -25,11 +25,22 @@ export type ErrorCode =
   | 'PERMISSION_DENIED'
   | 'WORDPRESS_API_ERROR'
   | 'INVALID_POST_TYPE'
+  | 'POST_EDIT_CONFLICT'
+  | 'SITE_NOT_FOUND'
   
   // Schema errors
   | 'SCHEMA_NOT_FOUND'
   | 'SCHEMA_VALIDATION_FAILED'
   | 'INVALID_SCHEMA_FORMAT'
+
+  // Template errors
+  | 'TEMPLATE_NOT_FOUND'
+  | 'INVALID_TEMPLATE_SLOTS'
+  
+  // Authorization errors
+  | 'AUTHORIZATION_DENIED'
+  | 'AUTHENTICATION_REQUIRED'
+  | 'INSUFFICIENT_SCOPE'
   
   // Network errors
   | 'CONNECTION_FAILED'
@@ -0,0 +1,96 @@
+/**
+ * Attribute Normalizer Utility
+ *
+ * Expands blocks to their full attribute set from registered defaults, or
+ * minimizes them by dropping attributes equal to their default, which is
+ * what the block editor serializes (WordPress fills defaults back in when
+ * the block is parsed or rendered)
+ */
+
+import type { SchemaLoader } from '../services/schema-loader.js';
+import { formatBlockPath } from './block-tree.js';
+
+export type NormalizeMode = 'expand' | 'minimize';
+
+export interface NormalizedBlock {
+  /** Block path ("0.innerBlocks.2") */
+  path: string;
+  blockName: string;
+  /** Attributes filled in (expand) or dropped (minimize) */
+  attributes: string[];
+}
+
+export interface NormalizeResult {
+  blocks: any[];
+  /** Blocks whose attributes changed */
+  changes: NormalizedBlock[];
+}
+
+/** Attributes kept even when they equal their default */
+const KEPT_ATTRIBUTES = new Set(['block_id']);
+
+/**
+ * Deep equality ignoring object key order, as the editor compares attributes
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]));
+}
+
+/**
+ * Expand or minimize one block's attributes against its defaults
+ */
+export function normalizeAttributes(
+  attrs: Record<string, any>,
+  defaults: Record<string, any>,
+  mode: NormalizeMode
+): { attrs: Record<string, any>; changed: string[] } {
+  const result = { ...attrs };
+  const changed: string[] = [];
+
+  for (const [name, value] of Object.entries(defaults)) {
+    if (mode === 'expand' && !(name in result)) {
+      result[name] = JSON.parse(JSON.stringify(value));
+      changed.push(name);
+    } else if (mode === 'minimize' && name in result && !KEPT_ATTRIBUTES.has(name) && isEqual(result[name], value)) {
+      delete result[name];
+      changed.push(name);
+    }
+  }
+
+  return { attrs: result, changed };
+}
+
+/**
+ * Expand or minimize every block in a tree; blocks without a schema are left as they are
+ */
+export function normalizeBlocks(blocks: any[], schemaLoader: SchemaLoader, mode: NormalizeMode): NormalizeResult {
+  const changes: NormalizedBlock[] = [];
+
+  const visit = (list: any[], parent: number[]): any[] => list.map((block, index) => {
+    const indices = [...parent, index];
+    let attrs = block.attrs;
+
+    if (block.blockName && attrs && typeof attrs === 'object') {
+      const normalized = normalizeAttributes(attrs, schemaLoader.getAttributeDefaults(block.blockName), mode);
+      if (normalized.changed.length > 0) {
+        attrs = normalized.attrs;
+        changes.push({ path: formatBlockPath(indices), blockName: block.blockName, attributes: normalized.changed });
+      }
+    }
+
+    return {
+      ...block,
+      attrs,
+      ...(Array.isArray(block.innerBlocks) ? { innerBlocks: visit(block.innerBlocks, indices) } : {})
+    };
+  });
+
+  return { blocks: visit(blocks, []), changes };
+}
@@ -0,0 +1,250 @@
+/**
+ * HTTP Authentication Utility
+ *
+ * Bearer-token and HMAC-signed request auth for the /mcp endpoint,
+ * with per-credential scopes checked before each tool call
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createError } from './error-handler.js';
+import { logger } from './logger.js';
+
+export type AuthScope = 'schemas:read' | 'content:read' | 'content:write' | 'schemas:admin';
+
+export const ALL_SCOPES: AuthScope[] = ['schemas:read', 'content:read', 'content:write', 'schemas:admin'];
+
+/**
+ * Scope each tool requires; tools not listed require content:write
+ */
+const TOOL_SCOPES: Record<string, AuthScope> = {
+  get_block_schemas: 'schemas:read',
+  find_blocks: 'schemas:read',
+  validate_content: 'schemas:read',
+  convert_to_blocks: 'schemas:read',
+  instantiate_template: 'schemas:read',
+  analyze_content: 'content:read',
+  search_content: 'content:read',
+  export_content: 'content:read',
+  list_revisions: 'content:read',
+  diff_revisions: 'content:read',
+  list_sites: 'content:read',
+  create_content: 'content:write',
+  edit_content: 'content:write',
+  restore_revision: 'content:write',
+  bulk_replace: 'content:write',
+  set_post_status: 'content:write',
+  reload_schemas: 'schemas:admin'
+};
+
+/** Scopes of a token or of signed requests configured without any (least privilege) */
+const DEFAULT_SCOPES: AuthScope[] = ['schemas:read'];
+
+/** Maximum age of a signed request, in seconds */
+const HMAC_MAX_SKEW = 300;
+
+/** What an HMAC signature covers */
+export interface SignedRequest {
+  timestamp: string;
+  method: string;
+  /** Request path with query string, e.g. /mcp */
+  path: string;
+  /** Mcp-Session-Id header, empty before the session is initialized */
+  sessionId?: string;
+  body: string;
+}
+
+export interface AuthConfig {
+  /** Bearer tokens mapped to their scopes */
+  tokens: Map<string, AuthScope[]>;
+  hmacSecret?: string;
+  hmacScopes: AuthScope[];
+}
+
+/**
+ * Parse a scope list like "schemas:read|content:read" ("*" means all scopes,
+ * none means the default ones)
+ */
+function parseScopes(value: string | undefined): AuthScope[] {
+  if (!value?.trim()) {
+    return [...DEFAULT_SCOPES];
+  }
+  if (value.trim() === '*') {
+    return [...ALL_SCOPES];
+  }
+
+  const scopes = value.split('|').map(scope => scope.trim()).filter(Boolean);
+  const unknown = scopes.filter(scope => !ALL_SCOPES.includes(scope as AuthScope));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown auth scope(s): ${unknown.join(', ')} (expected ${ALL_SCOPES.join(', ')})`);
+  }
+
+  return scopes as AuthScope[];
+}
+
+/**
+ * Load auth settings from the environment
+ *
+ * MCP_AUTH_TOKENS: comma-separated "token=scope|scope" entries
+ * MCP_HMAC_SECRET: shared secret for signed requests, MCP_HMAC_SCOPES: their scopes
+ * Credentials without scopes only get schemas:read; "*" grants all
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const tokens = new Map<string, AuthScope[]>();
+
+  for (const entry of (env.MCP_AUTH_TOKENS || '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const separator = trimmed.indexOf('=');
+    const token = separator === -1 ? trimmed : trimmed.slice(0, separator);
+    const scopes = separator === -1 ? undefined : trimmed.slice(separator + 1);
+    tokens.set(token, parseScopes(scopes));
+  }
+
+  return {
+    tokens,
+    hmacSecret: env.MCP_HMAC_SECRET || undefined,
+    hmacScopes: parseScopes(env.MCP_HMAC_SCOPES)
+  };
+}
+
+export function isAuthEnabled(config: AuthConfig): boolean {
+  return config.tokens.size > 0 || Boolean(config.hmacSecret);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  // Compare digests so differing lengths don't short-circuit
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Sign a request for HMAC auth: hex HMAC-SHA256 of timestamp, method, path,
+ * session id and raw body, one per line
+ */
+export function signRequest(secret: string, request: SignedRequest): string {
+  const canonical = [request.timestamp, request.method.toUpperCase(), request.path, request.sessionId || '', request.body].join('\n');
+  return createHmac('sha256', secret).update(canonical).digest('hex');
+}
+
+function authenticateBearer(config: AuthConfig, header: string | undefined): AuthInfo | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const presented = match[1].trim();
+  for (const [token, scopes] of config.tokens) {
+    if (safeEqual(presented, token)) {
+      return {
+        token: presented,
+        clientId: `token:${createHash('sha256').update(token).digest('hex').slice(0, 8)}`,
+        scopes
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify a signed request; each signature is accepted once, so a captured
+ * request can't be replayed while its timestamp is still within the skew
+ */
+function authenticateHmac(config: AuthConfig, req: Request, seen: Map<string, number>): AuthInfo | null {
+  const signature = req.header('x-mcp-signature');
+  const timestamp = req.header('x-mcp-timestamp');
+  if (!config.hmacSecret || !signature || !timestamp) {
+    return null;
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > HMAC_MAX_SKEW) {
+    return null;
+  }
+
+  const body = (req as any).rawBody ? (req as any).rawBody.toString('utf8') : '';
+  const expected = `sha256=${signRequest(config.hmacSecret, {
+    timestamp,
+    method: req.method,
+    path: req.originalUrl,
+    sessionId: req.header('mcp-session-id'),
+    body
+  })}`;
+  if (!safeEqual(signature, expected)) {
+    return null;
+  }
+
+  const now = Date.now();
+  for (const [used, expiresAt] of seen) {
+    if (expiresAt <= now) {
+      seen.delete(used);
+    }
+  }
+  if (seen.has(expected)) {
+    logger.warn('Rejected replayed HMAC signature', { ip: req.ip, method: req.method });
+    return null;
+  }
+  // Remember it until its timestamp falls out of the skew window
+  seen.set(expected, (Number(timestamp) + HMAC_MAX_SKEW) * 1000);
+
+  return {
+    token: signature,
+    clientId: 'hmac',
+    scopes: config.hmacScopes
+  };
+}
+
+/**
+ * Express middleware that rejects unauthenticated requests and attaches
+ * AuthInfo as req.auth, which the MCP transport hands to request handlers
+ */
+export function createAuthMiddleware(config: AuthConfig) {
+  // Signatures already used, with when they expire
+  const seenSignatures = new Map<string, number>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const auth = authenticateBearer(config, req.header('authorization')) || authenticateHmac(config, req, seenSignatures);
+
+    if (!auth) {
+      logger.warn('Rejected unauthenticated MCP request', { ip: req.ip, method: req.method });
+      res.setHeader('WWW-Authenticate', 'Bearer realm="nexter-mcp"');
+      return res.status(401).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message: 'Unauthorized',
+          data: createError(
+            'AUTHENTICATION_REQUIRED',
+            'Missing or invalid credentials for the MCP endpoint',
+            { expected: 'Authorization: Bearer <token>, or X-MCP-Timestamp and X-MCP-Signature headers' }
+          )
+        },
+        id: null
+      });
+    }
+
+    (req as Request & { auth?: AuthInfo }).auth = auth;
+    next();
+  };
+}
+
+/**
+ * Scope needed to call a tool
+ */
+export function requiredScopeForTool(toolName: string): AuthScope {
+  return TOOL_SCOPES[toolName] || 'content:write';
+}
+
+/**
+ * Whether a caller may use a scope (no auth info means an unauthenticated
+ * transport such as stdio, which is trusted)
+ */
+export function hasScope(authInfo: AuthInfo | undefined, scope: AuthScope): boolean {
+  return !authInfo || authInfo.scopes.includes(scope);
+}
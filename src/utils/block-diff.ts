@@ -0,0 +1,192 @@
+/**
+ * Block Diff Utility
+ *
+ * Computes a structured before/after diff between two block trees:
+ * blocks added, removed and moved, and per-attribute old/new values
+ */
+
+import { formatBlockPath } from './block-tree.js';
+
+export interface BlockRef {
+  block_id?: string;
+  blockName: string;
+  path: string;
+}
+
+export interface AttributeChange {
+  attribute: string;
+  old: any;
+  new: any;
+}
+
+export interface BlockDiff {
+  added: BlockRef[];
+  removed: BlockRef[];
+  moved: Array<{ block_id?: string; blockName: string; from: string; to: string }>;
+  modified: Array<BlockRef & { changes: AttributeChange[] }>;
+  summary: {
+    added: number;
+    removed: number;
+    moved: number;
+    modified: number;
+    unchanged: number;
+  };
+}
+
+interface IndexedBlock {
+  key: string;
+  block: any;
+  indices: number[];
+  parentKey: string | null;
+}
+
+/**
+ * Identify a block across trees: block_id when present and unique, else type and position
+ */
+function blockKey(block: any, indices: number[], duplicateIds: Set<string>): string {
+  const blockId = block.attrs?.block_id;
+  return blockId && !duplicateIds.has(blockId)
+    ? `id:${blockId}`
+    : `pos:${block.blockName || 'freeform'}@${formatBlockPath(indices)}`;
+}
+
+/**
+ * block_ids used by more than one block in a tree (pasted or duplicated
+ * blocks in the editor keep their id), which can't identify a block
+ */
+function collectDuplicateIds(blocks: any[], seen: Set<string> = new Set(), duplicates: Set<string> = new Set()): Set<string> {
+  for (const block of blocks) {
+    const blockId = block.attrs?.block_id;
+    if (blockId) {
+      if (seen.has(blockId)) {
+        duplicates.add(blockId);
+      }
+      seen.add(blockId);
+    }
+    if (Array.isArray(block.innerBlocks)) {
+      collectDuplicateIds(block.innerBlocks, seen, duplicates);
+    }
+  }
+  return duplicates;
+}
+
+function indexTree(
+  blocks: any[],
+  duplicateIds: Set<string>,
+  parentIndices: number[] = [],
+  parentKey: string | null = null,
+  index: Map<string, IndexedBlock> = new Map()
+): Map<string, IndexedBlock> {
+  blocks.forEach((block, i) => {
+    const indices = [...parentIndices, i];
+    const key = blockKey(block, indices, duplicateIds);
+
+    // Freeform whitespace between blocks carries no content worth diffing
+    if (!block.blockName && !String(block.innerHTML || '').trim()) {
+      return;
+    }
+
+    index.set(key, { key, block, indices, parentKey });
+
+    if (Array.isArray(block.innerBlocks) && block.innerBlocks.length > 0) {
+      indexTree(block.innerBlocks, duplicateIds, indices, key, index);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Position of a block among the siblings present in both trees,
+ * so insertions and removals around it do not count as moves
+ */
+function stablePosition(entry: IndexedBlock, tree: Map<string, IndexedBlock>, other: Map<string, IndexedBlock>): number {
+  return [...tree.values()]
+    .filter(sibling => sibling.parentKey === entry.parentKey && other.has(sibling.key))
+    .sort((a, b) => a.indices[a.indices.length - 1] - b.indices[b.indices.length - 1])
+    .findIndex(sibling => sibling.key === entry.key);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function toRef(entry: IndexedBlock): BlockRef {
+  return {
+    block_id: entry.block.attrs?.block_id,
+    blockName: entry.block.blockName,
+    path: formatBlockPath(entry.indices)
+  };
+}
+
+/**
+ * Diff two block trees
+ */
+export function diffBlocks(before: any[], after: any[]): BlockDiff {
+  const duplicateIds = new Set([...collectDuplicateIds(before), ...collectDuplicateIds(after)]);
+  const beforeIndex = indexTree(before, duplicateIds);
+  const afterIndex = indexTree(after, duplicateIds);
+
+  const diff: BlockDiff = {
+    added: [],
+    removed: [],
+    moved: [],
+    modified: [],
+    summary: { added: 0, removed: 0, moved: 0, modified: 0, unchanged: 0 }
+  };
+
+  for (const entry of beforeIndex.values()) {
+    if (!afterIndex.has(entry.key)) {
+      diff.removed.push(toRef(entry));
+    }
+  }
+
+  for (const entry of afterIndex.values()) {
+    const previous = beforeIndex.get(entry.key);
+    if (!previous) {
+      diff.added.push(toRef(entry));
+      continue;
+    }
+
+    let changed = false;
+
+    if (
+      previous.parentKey !== entry.parentKey ||
+      stablePosition(previous, beforeIndex, afterIndex) !== stablePosition(entry, afterIndex, beforeIndex)
+    ) {
+      diff.moved.push({
+        block_id: entry.block.attrs?.block_id,
+        blockName: entry.block.blockName,
+        from: formatBlockPath(previous.indices),
+        to: formatBlockPath(entry.indices)
+      });
+      changed = true;
+    }
+
+    const oldAttrs = previous.block.attrs || {};
+    const newAttrs = entry.block.attrs || {};
+    const changes: AttributeChange[] = [];
+
+    for (const attribute of new Set([...Object.keys(oldAttrs), ...Object.keys(newAttrs)])) {
+      if (!isEqual(oldAttrs[attribute], newAttrs[attribute])) {
+        changes.push({ attribute, old: oldAttrs[attribute], new: newAttrs[attribute] });
+      }
+    }
+
+    if (changes.length > 0) {
+      diff.modified.push({ ...toRef(entry), changes });
+      changed = true;
+    }
+
+    if (!changed) {
+      diff.summary.unchanged++;
+    }
+  }
+
+  diff.summary.added = diff.added.length;
+  diff.summary.removed = diff.removed.length;
+  diff.summary.moved = diff.moved.length;
+  diff.summary.modified = diff.modified.length;
+
+  return diff;
+}
@@ -5,97 +5,34 @@
  */
 
 import { randomBytes } from 'crypto';
+import { renderBlock, RenderedBlock } from './block-renderers.js';
+import { normalizeAttributes } from './attribute-normalizer.js';
+import type { SchemaLoader } from '../services/schema-loader.js';
 
 /**
  * Generate 4-character hex ID matching Nexter's format
  */
-function generateBlockId(): string {
+export function generateBlockId(): string {
   return randomBytes(2).toString('hex');
 }
 
 /**
- * Generate innerHTML for Nexter blocks based on their attributes
+ * Generate innerHTML/innerContent for a block from its attributes
  * This is critical - Gutenberg editor expects innerHTML to contain the rendered HTML
+ * Renderers live in block-renderers.ts; the schema loader supplies source/selector metadata
  */
-function generateInnerHTML(blockName: string, attrs: any): string {
-  // Handle tpgb/tp-heading
-  if (blockName === 'tpgb/tp-heading') {
-    const tag = attrs.tTag || 'h2';
-    const title = attrs.title || '';
-    const blockId = attrs.block_id || '';
-    return `<${tag} class="wp-block-tpgb-tp-heading tp-core-heading tpgb-block-${blockId}">${title}</${tag}>`;
-  }
-  
-  // Handle tpgb/tp-pro-paragraph
-  if (blockName === 'tpgb/tp-pro-paragraph') {
-    const blockId = attrs.block_id || '';
-    const content = attrs.content || '';
-    const showTitle = attrs.Showtitle !== false;
-    const title = attrs.title || '';
-    const titleTag = attrs.titleTag || 'h3';
-    const descTag = attrs.descTag || 'div'; // Changed default to 'div' to match Nexter behavior
-    
-    let html = `<div class="tpgb-pro-paragraph tpgb-block-${blockId}">`;
-    
-    if (showTitle && title) {
-      html += `<${titleTag} class="pro-heading-inner">${title}</${titleTag}>`;
-    }
-    
-    if (content) {
-      // CRITICAL FIX: Must wrap content in descTag inside pro-paragraph-inner
-      // This matches Nexter's actual innerHTML structure
-      html += `<div class="pro-paragraph-inner"><${descTag}>${content}</${descTag}></div>`;
-    }
-    
-    html += `</div>`;
-    return html;
-  }
-  
-  // Handle tpgb/tp-image
-  if (blockName === 'tpgb/tp-image') {
-    const blockId = attrs.block_id || '';
-    const url = attrs.url || '';
-    const alt = attrs.alt || '';
-    const caption = attrs.caption || '';
-    
-    let html = `<div class="wp-block-tpgb-tp-image tpgb-image tpgb-block-${blockId}">`;
-    html += `<figure class="tpgb-figure">`;
-    
-    if (url) {
-      html += `<img src="${url}" alt="${alt}" class="tpgb-img-inner" />`;
-    }
-    
-    if (caption) {
-      html += `<figcaption>${caption}</figcaption>`;
-    }
-    
-    html += `</figure></div>`;
-    return html;
-  }
-  
-  // Handle tpgb/tp-button
-  if (blockName === 'tpgb/tp-button') {
-    const blockId = attrs.block_id || '';
-    const text = attrs.buttonText || attrs.text || 'Button';
-    const url = attrs.buttonLink?.url || '#';
-    
-    return `<div class="tpgb-adv-button tpgb-block-${blockId}"><a class="button-link-wrap" href="${url}">${text}</a></div>`;
-  }
-  
-  // For other Nexter blocks, return minimal structure
-  if (blockName.startsWith('tpgb/')) {
-    const blockId = attrs.block_id || '';
-    const blockClass = blockName.replace('tpgb/', '');
-    return `<div class="tpgb-${blockClass} tpgb-block-${blockId}"></div>`;
-  }
-  
-  return '';
+function generateMarkup(blockName: string, attrs: any, innerBlockCount: number, schemaLoader?: SchemaLoader): RenderedBlock {
+  return renderBlock(blockName, attrs, {
+    blockId: attrs?.block_id || '',
+    innerBlockCount,
+    sourcedAttributes: schemaLoader && blockName ? schemaLoader.getAttributeSources(blockName) : {}
+  });
 }
 
 /**
  * Format a single block to Gutenberg structure
  */
-export function formatBlock(block: any, postId?: number): any {
+export function formatBlock(block: any, postId?: number, schemaLoader?: SchemaLoader): any {
   // Ensure block has required fields
   if (!block.blockName) {
     throw new Error('Block must have blockName');
@@ -117,11 +54,12 @@ export function formatBlock(block: any, postId?: number): any {
 
   // Format inner blocks recursively if they exist
   const innerBlocks = block.innerBlocks 
-    ? block.innerBlocks.map((inner: any) => formatBlock(inner, postId))
+    ? block.innerBlocks.map((inner: any) => formatBlock(inner, postId, schemaLoader))
     : [];
 
   // Generate innerHTML if not provided (critical for Nexter blocks!)
-  const innerHTML = block.innerHTML || generateInnerHTML(block.blockName, block.attrs);
+  const markup = block.innerHTML ? null : generateMarkup(block.blockName, block.attrs, innerBlocks.length, schemaLoader);
+  const innerHTML = block.innerHTML || markup!.innerHTML;
   
   // Build complete Gutenberg block structure
   return {
@@ -129,7 +67,7 @@ export function formatBlock(block: any, postId?: number): any {
     attrs: block.attrs,
     innerBlocks: innerBlocks,
     innerHTML: innerHTML,
-    innerContent: block.innerContent || (innerBlocks.length > 0 ? innerBlocks.map(() => null) : [innerHTML])
+    innerContent: block.innerContent || markup?.innerContent || (innerBlocks.length > 0 ? innerBlocks.map(() => null) : [innerHTML])
   };
 }
 
@@ -137,8 +75,8 @@ export function formatBlock(block: any, postId?: number): any {
  * Format an array of blocks for WordPress
  * This adds all required Gutenberg fields that serialize_blocks() expects
  */
-export function formatBlocksForWordPress(blocks: any[], postId?: number): any[] {
-  return blocks.map(block => formatBlock(block, postId));
+export function formatBlocksForWordPress(blocks: any[], postId?: number, schemaLoader?: SchemaLoader): any[] {
+  return blocks.map(block => formatBlock(block, postId, schemaLoader));
 }
 
 /**
@@ -168,13 +106,74 @@ export function validateBlockStructure(block: any): { valid: boolean; errors: st
   };
 }
 
+/**
+ * A block's own name, attributes and markup, without its inner blocks
+ */
+function blockSignature(block: any): string {
+  return JSON.stringify([block.blockName, block.attrs, block.innerHTML, block.innerContent]);
+}
+
+/**
+ * Signatures of every block in a tree
+ */
+function collectSignatures(blocks: any[], signatures: Set<string> = new Set()): Set<string> {
+  for (const block of blocks) {
+    signatures.add(blockSignature(block));
+    collectSignatures(block.innerBlocks || [], signatures);
+  }
+  return signatures;
+}
+
+/**
+ * Pre-process a single block and its inner blocks
+ */
+function preprocessBlock(block: any, schemaLoader?: SchemaLoader, unchanged?: Set<string>): any {
+  // Inner blocks added by nested edits need the same Gutenberg fields
+  const innerBlocks = (block.innerBlocks || []).map((inner: any) => preprocessBlock(inner, schemaLoader, unchanged));
+
+  // A block already saved as it is keeps its attributes and markup untouched
+  if (unchanged?.has(blockSignature(block))) {
+    return { ...block, innerBlocks };
+  }
+
+  const attrs = {
+    ...block.attrs,
+    // Ensure block_id exists for Nexter blocks
+    block_id: block.attrs?.block_id || (block.blockName?.startsWith('tpgb/') ? generateBlockId() : undefined)
+  };
+
+  // Generate innerHTML if not provided (this reads from attrs.content)
+  // Generated innerContent has a null placeholder per inner block so serialize_blocks() keeps them
+  const markup = block.innerHTML ? null : generateMarkup(block.blockName, attrs, innerBlocks.length, schemaLoader);
+  const innerHTML = block.innerHTML || markup!.innerHTML;
+
+  // Keep every attribute that differs from its registered default; like the editor,
+  // leave defaults out of post_content - WordPress fills them back in on parse and render
+  // The innerHTML is only for Gutenberg editor preview, not the actual content rendering
+  const finalAttrs = schemaLoader && block.blockName
+    ? normalizeAttributes(attrs, schemaLoader.getAttributeDefaults(block.blockName), 'minimize').attrs
+    : { ...attrs };
+
+  return {
+    blockName: block.blockName,
+    attrs: finalAttrs,
+    innerBlocks,
+    innerHTML: innerHTML,
+    innerContent: block.innerContent || markup?.innerContent || [innerHTML]
+  };
+}
+
 /**
  * Pre-process blocks before sending to WordPress
  * - Adds missing Gutenberg fields
  * - Ensures proper block_id format
+ * - Drops attributes equal to their registered default
  * - Validates structure
+ *
+ * Blocks identical to one in existingBlocks (the post's saved content) are
+ * passed through as they are, so an edit only rewrites the blocks it touches
  */
-export function preprocessBlocks(blocks: any[]): { 
+export function preprocessBlocks(blocks: any[], schemaLoader?: SchemaLoader, existingBlocks?: any[]): { 
   formatted: any[]; 
   warnings: string[];
   needsPostId: boolean;
@@ -196,28 +195,8 @@ export function preprocessBlocks(blocks: any[]): {
   });
 
   // Format blocks (postId will be added after creation in WordPress plugin)
-  const formatted = blocks.map(block => {
-    const attrs = {
-      ...block.attrs,
-      // Ensure block_id exists for Nexter blocks
-      block_id: block.attrs?.block_id || (block.blockName?.startsWith('tpgb/') ? generateBlockId() : undefined)
-    };
-
-    // Generate innerHTML if not provided (this reads from attrs.content)
-    const innerHTML = block.innerHTML || generateInnerHTML(block.blockName, attrs);
-
-    // CRITICAL: Keep ALL attributes - WordPress serialize_blocks() needs them!
-    // The innerHTML is only for Gutenberg editor preview, not the actual content rendering
-    const finalAttrs = { ...attrs };
-
-    return {
-      blockName: block.blockName,
-      attrs: finalAttrs,
-      innerBlocks: block.innerBlocks || [],
-      innerHTML: innerHTML,
-      innerContent: block.innerContent || [innerHTML]
-    };
-  });
+  const unchanged = existingBlocks ? collectSignatures(existingBlocks) : undefined;
+  const formatted = blocks.map(block => preprocessBlock(block, schemaLoader, unchanged));
 
   return {
     formatted,
@@ -0,0 +1,173 @@
+/**
+ * Block Parser Utility
+ *
+ * TypeScript implementation of the Gutenberg block comment grammar:
+ * parseBlocks() returns the same shape as WordPress' parse_blocks() (and the
+ * plugin's /content endpoint), serializeBlocks() matches serialize_blocks()
+ */
+
+export interface ParsedBlock {
+  /** null for freeform HTML between blocks */
+  blockName: string | null;
+  attrs: Record<string, any>;
+  innerBlocks: ParsedBlock[];
+  innerHTML: string;
+  /** Markup chunks, with null where each inner block goes */
+  innerContent: Array<string | null>;
+}
+
+/**
+ * Block delimiter tokenizer, from WordPress' block-serialization-default-parser
+ * Groups: closer, namespace, name, attributes JSON, (lookahead), void marker
+ */
+const DELIMITER = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*\/)?([a-z][a-z0-9_-]*)\s+({(?:(?=([^}]+|}+(?=})|(?!}\s+\/?-->)[^])*)\5|[^]*?)}\s+)?(\/)?-->/g;
+
+function freeform(html: string): ParsedBlock {
+  return { blockName: null, attrs: {}, innerBlocks: [], innerHTML: html, innerContent: [html] };
+}
+
+function parseAttributes(json: string | undefined): Record<string, any> {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const attrs = JSON.parse(json);
+    return attrs && typeof attrs === 'object' ? attrs : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Parse post_content into blocks
+ *
+ * Like parse_blocks(), HTML between top-level blocks (including the newlines
+ * the editor adds) becomes freeform blocks, an unclosed block runs to the end
+ * of the document and a stray closer turns the rest into freeform HTML
+ */
+export function parseBlocks(document: string): ParsedBlock[] {
+  const output: ParsedBlock[] = [];
+  const stack: ParsedBlock[] = [];
+  let offset = 0;
+
+  const addHtml = (html: string) => {
+    if (!html) {
+      return;
+    }
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.innerHTML += html;
+      parent.innerContent.push(html);
+    } else {
+      output.push(freeform(html));
+    }
+  };
+
+  const attach = (block: ParsedBlock) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.innerBlocks.push(block);
+      parent.innerContent.push(null);
+    } else {
+      output.push(block);
+    }
+  };
+
+  DELIMITER.lastIndex = 0;
+  for (let match = DELIMITER.exec(document); match; match = DELIMITER.exec(document)) {
+    const [token, closer, namespace, name, json, , selfClosing] = match;
+
+    // A closer with nothing open ends parsing; the rest is freeform HTML
+    if (closer && stack.length === 0) {
+      break;
+    }
+
+    addHtml(document.slice(offset, match.index));
+    offset = match.index + token.length;
+
+    if (closer) {
+      attach(stack.pop()!);
+      continue;
+    }
+
+    const block: ParsedBlock = {
+      blockName: `${namespace || 'core/'}${name}`,
+      attrs: parseAttributes(json),
+      innerBlocks: [],
+      innerHTML: '',
+      innerContent: []
+    };
+
+    if (selfClosing) {
+      attach(block);
+    } else {
+      stack.push(block);
+    }
+  }
+
+  // Trailing HTML; with unclosed blocks it belongs to the innermost one,
+  // and each unclosed block is then added at the top level
+  addHtml(document.slice(offset));
+  while (stack.length > 0) {
+    output.push(stack.pop()!);
+  }
+
+  return output;
+}
+
+/**
+ * Whether a block is only the whitespace the editor leaves between blocks
+ */
+export function isWhitespaceBlock(block: any): boolean {
+  return !block.blockName && !String(block.innerHTML || '').trim();
+}
+
+/**
+ * Attributes JSON for a block comment, with characters that could end the
+ * comment or be mangled by kses escaped (serialize_block_attributes())
+ */
+export function serializeBlockAttributes(attrs: Record<string, any>): string {
+  return JSON.stringify(attrs)
+    .replace(/--/g, '\\u002d\\u002d')
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\\"/g, '\\u0022');
+}
+
+/**
+ * Serialize one block (serialize_block())
+ * Blocks without innerContent are serialized from innerHTML, followed by their inner blocks
+ */
+export function serializeBlock(block: any): string {
+  const innerBlocks: any[] = block.innerBlocks || [];
+  const chunks: Array<string | null> = Array.isArray(block.innerContent)
+    ? block.innerContent
+    : [block.innerHTML || '', ...innerBlocks.map(() => null)];
+
+  let index = 0;
+  const content = chunks
+    .map(chunk => (typeof chunk === 'string' ? chunk : serializeBlock(innerBlocks[index++])))
+    .join('');
+
+  if (!block.blockName) {
+    return content;
+  }
+
+  const name = block.blockName.replace(/^core\//, '');
+  const json = serializeBlockAttributes(block.attrs || {});
+  const attrs = json === '{}' ? '' : `${json} `;
+
+  return content
+    ? `<!-- wp:${name} ${attrs}-->${content}<!-- /wp:${name} -->`
+    : `<!-- wp:${name} ${attrs}/-->`;
+}
+
+/**
+ * Serialize blocks to post_content (serialize_blocks())
+ */
+export function serializeBlocks(blocks: any[]): string {
+  return blocks.map(serializeBlock).join('');
+}
@@ -0,0 +1,947 @@
+/**
+ * Block Renderers
+ *
+ * Registry of save-markup renderers that generate innerHTML/innerContent for
+ * Nexter blocks. Each renderer is a port of the block's save() in the
+ * plugin's editor bundle (assets/js/admin/blocks.js), including its
+ * defaults; blocks (or variants) whose save isn't ported have no renderer,
+ * so markup sent with them is kept. Without markup they fall back to their
+ * schema's source/selector attribute metadata, then to a plain wrapper
+ */
+
+export interface AttributeSource {
+  source: string;
+  selector?: string;
+  attribute?: string;
+}
+
+export interface RenderContext {
+  blockId: string;
+  /** Number of inner blocks (containers emit one innerContent placeholder each) */
+  innerBlockCount: number;
+  /** Attributes the schema maps to markup (source "html", "text" or "attribute") */
+  sourcedAttributes: Record<string, AttributeSource>;
+}
+
+/**
+ * Leaf blocks render to a string; container blocks render the markup
+ * around their inner blocks
+ */
+export type RenderOutput = string | { open: string; close: string };
+
+/**
+ * Renderers return null for variants of a block they don't port, which are
+ * then handled as if the block had no renderer
+ */
+export type BlockRenderer = (attrs: any, context: RenderContext) => RenderOutput | null;
+
+export interface RenderedBlock {
+  innerHTML: string;
+  innerContent: Array<string | null>;
+}
+
+const renderers = new Map<string, BlockRenderer>();
+
+/**
+ * Register (or replace) the renderer for a block
+ */
+export function registerRenderer(blockName: string, renderer: BlockRenderer): void {
+  renderers.set(blockName, renderer);
+}
+
+export function hasRenderer(blockName: string): boolean {
+  return renderers.has(blockName);
+}
+
+/**
+ * Escape a value for use inside an HTML attribute, as the block editor's
+ * serializer does (existing character references are left alone)
+ */
+function escapeAttr(value: any): string {
+  return String(value ?? '')
+    .replace(/&(?!([a-z0-9]+|#[0-9]+|#x[a-f0-9]+);)/gi, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape plain text rendered as element content
+ */
+function escapeText(value: any): string {
+  return String(value ?? '')
+    .replace(/&(?!([a-z0-9]+|#[0-9]+|#x[a-f0-9]+);)/gi, '&amp;')
+    .replace(/</g, '&lt;');
+}
+
+/**
+ * Values holding a dynamic tag, which the plugin renders through its HTML parser
+ */
+function isDynamic(value: any): boolean {
+  return /data-tpgb-dynamic=/.test(String(value ?? ''));
+}
+
+/**
+ * Markup the plugin renders through its HTML parser, which re-serializes
+ * it; only text the round trip leaves unchanged is ported (null otherwise)
+ */
+function parsedHtml(value: any): string | null {
+  const text = String(value ?? '');
+  return /[<&]/.test(text) ? null : text;
+}
+
+/**
+ * Text the plugin renders as a string child (escaped), or through its
+ * HTML parser when it holds a dynamic tag
+ */
+function textChild(value: any): string | null {
+  return isDynamic(value) ? parsedHtml(value) : escapeText(value);
+}
+
+/**
+ * Serialize element attributes in order, skipping unset values
+ */
+function htmlAttributes(props: Record<string, any>): string {
+  return Object.entries(props)
+    .filter(([, value]) => value !== undefined && value !== null && typeof value !== 'object')
+    .map(([name, value]) => ` ${name}="${escapeAttr(value)}"`)
+    .join('');
+}
+
+/**
+ * Class list useBlockProps.save() produces: the align class, the save
+ * className and the custom className attribute, with the generated
+ * wp-block-* class moved to the front and duplicates dropped
+ */
+function blockPropsClass(blockName: string, className: string, attrs: any): string {
+  const classes = [attrs.align ? `align${attrs.align}` : '', className, attrs.className].filter(Boolean).join(' ');
+  const generated = `wp-block-${blockName.replace('/', '-')}`;
+  return [...new Set([generated, ...classes.split(' ')])].join(' ').trim();
+}
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;', '/': '&#x2F;' };
+
+/**
+ * Custom link attributes, entered as comma-separated "name|value" pairs;
+ * event handlers and href are dropped and values end at the first "="
+ */
+function customLinkAttributes(link: any): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (typeof link?.attr !== 'string' || link.attr === '') {
+    return result;
+  }
+
+  for (const entry of link.attr.split(',')) {
+    const [rawName, rawValue = ''] = entry.split('|');
+    const name = rawName.toLowerCase().match(/[-_a-z0-9]+/)?.[0];
+    if (!name || name.startsWith('on') || name === 'href') {
+      continue;
+    }
+    result[name] = rawValue.trim().replace(/[&<>"'/]/g, (char: string) => HTML_ENTITIES[char]).split('=')[0];
+  }
+
+  return result;
+}
+
+/**
+ * Attributes of a Nexter link object ({ url, target, nofollow, dynamic, attr });
+ * dynamic links point at a placeholder the plugin resolves on render
+ */
+function linkAttributes(link: any, attributeName: string, extra: Record<string, string> = {}): Record<string, any> {
+  return {
+    href: link.dynamic ? `https:///?tpgb-dynamicurl=${attributeName}!#` : link.url,
+    target: link.target ? '_blank' : '_self',
+    rel: link.nofollow ? 'nofollow noopener' : 'follow noopener',
+    ...extra,
+    ...customLinkAttributes(link)
+  };
+}
+
+function hasLink(link: any): boolean {
+  return Boolean(link && (link.url || link.dynamic != null));
+}
+
+/**
+ * Image URL of the chosen size, falling back to the full image
+ */
+function imageUrl(image: any, size: string): string {
+  return !image.dynamic && image.sizes && image.sizes[size] != null ? image.sizes[size].url : image.url;
+}
+
+/** Animation names used when no direction is chosen */
+const DEFAULT_ANIMATIONS: Record<string, string> = {
+  fadeIn: 'fadeIn',
+  slideIn: 'slideInDown',
+  zoomIn: 'zoomIn',
+  rotateIn: 'rotateIn',
+  flipIn: 'flipInX',
+  lightSpeedIn: 'lightSpeedInLeft',
+  seekers: 'bounce',
+  fadeOut: 'fadeOut',
+  slideOut: 'slideOutDown',
+  zoomOut: 'zoomOut',
+  rotateOut: 'rotateOut',
+  flipOut: 'flipOutX',
+  lightSpeedOut: 'lightSpeedOutLeft'
+};
+
+function animationName(animation: string, direction: any): string {
+  if (animation === 'rollIn' || animation === 'rollOut') {
+    return animation;
+  }
+  if (!(animation in DEFAULT_ANIMATIONS)) {
+    return '';
+  }
+  if (direction === '' || direction === 'default') {
+    return DEFAULT_ANIMATIONS[animation];
+  }
+  return animation === 'seekers' ? `${direction}` : `${animation}${direction}`;
+}
+
+const DEVICES = ['md', 'sm', 'xs'] as const;
+
+/**
+ * Wrapper the plugin adds around a block when its global Advanced options
+ * (animation, classes, id, custom CSS, position) are set
+ */
+function globalWrapper(attrs: any): { open: string; close: string } {
+  const animation = attrs.globalAnim ?? {};
+  const position = attrs.globalPosition ?? {};
+  const animated = DEVICES.filter(device => animation[device] && animation[device] !== 'none');
+  const positioned = Boolean(position.md || position.sm || position.xs);
+
+  const wrapped = animated.length > 0 || attrs.globalClasses || attrs.globalId || attrs.globalCustomCss
+    || positioned || attrs.globalflexCss?.tpgbReset || attrs.layout || attrs.telayout;
+  if (!attrs.block_id || !wrapped) {
+    return { open: '', close: '' };
+  }
+
+  let classes = '';
+  if (positioned) {
+    const tablet = position.sm || position.md;
+    const mobile = position.xs || tablet;
+    classes += `${position.md ? ` tpgb-position-${position.md}` : ''}${tablet ? ` tpgb-tab-position-${tablet}` : ''}${mobile ? ` tpgb-mobile-position-${mobile}` : ''}`;
+  }
+  if (attrs.globalClasses) {
+    classes += ` ${attrs.globalClasses}`;
+  }
+
+  let animationSetting: string | undefined;
+  if (animated.length > 0) {
+    const duration = attrs.globalAnimDuration || 'normal';
+    classes += `  tpgb-view-animation${duration === 'custom' ? ' tpgb-anim-dur-custom' : ` tpgb-anim-dur-${duration}`}`;
+    const directions = attrs.globalAnimDirect ?? { md: '' };
+    const anime = Object.fromEntries(animated.map(device => [device, animationName(animation[device], directions[device])]));
+    animationSetting = JSON.stringify({ anime });
+  }
+  if (attrs.layout || attrs.telayout) {
+    classes += ' tpgb-wrap-fw';
+  }
+  classes += attrs.contentWidth ? ' alignfull' : attrs.align ? ` align${attrs.align}` : '';
+
+  const props = { id: attrs.globalId || undefined, class: `tpgb-wrap-${attrs.block_id}${classes}`, 'data-animationsetting': animationSetting };
+  return { open: `<div${htmlAttributes(props)}>`, close: '</div>' };
+}
+
+/**
+ * Place a block's save markup inside its global wrapper
+ */
+function withGlobalWrap(attrs: any, output: RenderOutput): RenderOutput {
+  const wrapper = globalWrapper(attrs);
+  return typeof output === 'string'
+    ? wrapper.open + output + wrapper.close
+    : container(wrapper.open + output.open, output.close + wrapper.close);
+}
+
+function wrapperClass(blockName: string, blockId: string, extra: string = ''): string {
+  const slug = blockName.replace(/^[a-z-]+\//, '');
+  return [`tpgb-${slug}`, extra, `tpgb-block-${blockId}`].filter(Boolean).join(' ');
+}
+
+function container(open: string, close: string): RenderOutput {
+  return { open, close };
+}
+
+/**
+ * Turn a selector like "h3.title.main" or ".quote-text" into an element
+ */
+function elementForSelector(selector: string, content: string, fallbackTag: string = 'div'): string | null {
+  const match = selector.trim().match(/^([a-z][a-z0-9]*)?((?:\.[\w-]+)*)$/i);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  const tag = match[1] || fallbackTag;
+  const classes = match[2].split('.').filter(Boolean).join(' ');
+  return `<${tag}${classes ? ` class="${classes}"` : ''}>${content}</${tag}>`;
+}
+
+/**
+ * Generic renderer driven by schema source/selector metadata
+ */
+function renderFromSources(blockName: string, attrs: any, context: RenderContext): RenderOutput {
+  const parts: string[] = [];
+
+  for (const [name, meta] of Object.entries(context.sourcedAttributes)) {
+    const value = attrs[name];
+    if (value === undefined || value === null || value === '' || !meta.selector) {
+      continue;
+    }
+
+    if (meta.source === 'html' || meta.source === 'text') {
+      const element = elementForSelector(meta.selector, String(value));
+      if (element) {
+        parts.push(element);
+      }
+    }
+  }
+
+  const open = `<div class="${wrapperClass(blockName, context.blockId)}">${parts.join('')}`;
+  return context.innerBlockCount > 0 ? container(open, '</div>') : `${open}</div>`;
+}
+
+/**
+ * Render a block's innerHTML and innerContent
+ */
+export function renderBlock(blockName: string, attrs: any, context: RenderContext): RenderedBlock {
+  if (!blockName) {
+    return { innerHTML: '', innerContent: [''] };
+  }
+
+  const renderer = renderers.get(blockName);
+  let output = renderer ? renderer(attrs, context) : null;
+
+  if (output === null) {
+    output = blockName.startsWith('tpgb/') ? renderFromSources(blockName, attrs, context) : '';
+  }
+
+  if (typeof output === 'string') {
+    // Leaf markup: any inner blocks still need their placeholders after it
+    return {
+      innerHTML: output,
+      innerContent: [output, ...Array(context.innerBlockCount).fill(null)]
+    };
+  }
+
+  // Blocks that save only InnerBlocks.Content have no markup chunks of their own
+  return {
+    innerHTML: output.open + output.close,
+    innerContent: [output.open, ...Array(context.innerBlockCount).fill(null), output.close].filter(chunk => chunk !== '')
+  };
+}
+
+// Dynamic blocks: save() returns null and the markup is rendered server-side
+
+const DYNAMIC_BLOCKS = [
+  'tpgb/tpgb-settings',
+  'tpgb/tp-breadcrumbs',
+  'tpgb/tp-code-highlighter',
+  'tpgb/tp-countdown',
+  'tpgb/tp-external-form-styler',
+  'tpgb/tp-hovercard',
+  'tpgb/tp-interactive-circle-info',
+  'tpgb/tp-navigation-builder',
+  'tpgb/tp-post-author',
+  'tpgb/tp-post-comment',
+  'tpgb/tp-post-content',
+  'tpgb/tp-post-image',
+  'tpgb/tp-post-listing',
+  'tpgb/tp-post-meta',
+  'tpgb/tp-post-title',
+  'tpgb/tp-search-bar',
+  'tpgb/tp-site-logo',
+  'tpgb/tp-social-embed',
+  'tpgb/tp-social-feed',
+  'tpgb/tp-social-reviews'
+];
+
+for (const blockName of DYNAMIC_BLOCKS) {
+  registerRenderer(blockName, () => '');
+}
+
+// Layout containers save their inner blocks alone
+
+for (const blockName of ['tpgb/tp-container', 'tpgb/tp-container-inner', 'tpgb/tp-row', 'tpgb/tp-column']) {
+  registerRenderer(blockName, () => container('', ''));
+}
+
+// Content blocks
+
+registerRenderer('tpgb/tp-heading', (attrs, { blockId }) => {
+  const tag = attrs.tTag || 'h3';
+  const link = attrs.tLink ?? { url: '', target: '', nofollow: '' };
+  const global = attrs.saveGlobalStyleClass ? ` tpgb-block-${attrs.saveGlobalStyleClass}` : '';
+  const classes = blockPropsClass('tpgb/tp-heading', `tp-core-heading tpgb-block-${blockId} ${global}`, attrs);
+  const id = attrs.anchor ? ` id="${escapeAttr(attrs.anchor)}"` : '';
+  const title = attrs.title ?? 'Add Your Heading Text Here';
+  if (isDynamic(title)) {
+    return null;
+  }
+  const heading = `<${tag} class="${classes}"${id}>${title}</${tag}>`;
+  return withGlobalWrap(attrs, hasLink(link) ? `<a${htmlAttributes(linkAttributes(link, 'tLink'))}>${heading}</a>` : heading);
+});
+
+registerRenderer('tpgb/tp-pro-paragraph', (attrs, { blockId }) => {
+  const content = attrs.content ?? 'No human technology can replace `nature`s technology`, perfected over hundreds of millions of years to sustain life on Earth. For those in power, the questions are straightforward. Are they prepared to jeopardize their careers – or their profits – for our children’s children? Are they ready to put short-term politicking aside and help deliver a sustainable plan for the future? Are they willing to take difficult decisions on behalf of voters they’ll never meet?';
+  const showTitle = attrs.Showtitle ?? true;
+  const title = attrs.title ?? 'Save the Earth for future Generations.';
+  const titleTag = attrs.titleTag || 'h3';
+  const descTag = attrs.descTag || 'p';
+  if (isDynamic(title) || isDynamic(content)) {
+    return null;
+  }
+  const extra = [attrs.className, attrs.saveGlobalStyleClass && `tpgb-block-${attrs.saveGlobalStyleClass}`, attrs.align]
+    .filter(Boolean)
+    .map(value => ` ${value}`)
+    .join('');
+
+  let html = `<div class="tpgb-pro-paragraph tpgb-block-${blockId}${extra}">`;
+
+  if (showTitle && title) {
+    html += `<${titleTag} class="pro-heading-inner">${title}</${titleTag}>`;
+  }
+
+  if (content !== '') {
+    // Content is wrapped in descTag inside pro-paragraph-inner, as Nexter saves it
+    const dropCap = attrs.dropCap ? ` tpgb-drop-cap${attrs.dcapView ? ` tpgb-drop-${attrs.dcapView}` : ''}` : '';
+    html += `<div class="pro-paragraph-inner${dropCap}"><${descTag}>${content}</${descTag}></div>`;
+  }
+
+  html += `</div>`;
+  return withGlobalWrap(attrs, html);
+});
+
+registerRenderer('tpgb/tp-image', (attrs, { blockId }) => {
+  const image = attrs.tImg ?? { url: '', Id: '' };
+  const link = attrs.tiLink ?? { url: '', target: '', nofollow: '' };
+  const caption = attrs.tiCap ?? 'none';
+
+  // Without an image the plugin saves its placeholder, served from the site's plugin URL
+  if (!image.url) {
+    return null;
+  }
+
+  const classes = [`tpgb-image tpgb-block-${blockId}`, attrs.className, attrs.saveGlobalStyleClass && ` tpgb-block-${attrs.saveGlobalStyleClass}`].filter(Boolean).join(' ');
+  const id = attrs.anchor ? ` id="${escapeAttr(attrs.anchor)}"` : '';
+  const img = `<img${htmlAttributes({ src: image.url, alt: image.alt || '', class: `tpgb-img-inner wp-image-${image.id}`, loading: attrs.dislazyLoad ? undefined : 'lazy' })}/>`;
+
+  let html = `<div class="${blockPropsClass('tpgb/tp-image', classes, attrs)}"${id}><figure class="tpgb-figure">`;
+  if (hasLink(link)) {
+    // Inside repeaters the dynamic URL is resolved per item
+    const props = linkAttributes(link, 'tiLink');
+    if (link.dynamic && attrs.parentBlockName === true) {
+      props.href = `https:///?tpgb-dynamicurl=${link.dynamic?.dynamicUrl}!#`;
+    }
+    html += `<a${htmlAttributes(props)}>${img}</a>`;
+  } else {
+    html += img;
+  }
+  if (caption !== 'none') {
+    html += `<figcaption class="tpgb-image-caption">${escapeText(caption === 'custom' ? attrs.ctmCap : attrs.capimg)}</figcaption>`;
+  }
+  html += `</figure></div>`;
+  return withGlobalWrap(attrs, html);
+});
+
+registerRenderer('tpgb/tp-button-core', (attrs, { blockId }) => {
+  const text = attrs.btxt ?? 'Click Here';
+  const link = attrs.bLink ?? { url: '#', target: '', nofollow: '' };
+  const iconType = attrs.biType || 'none';
+  const global = attrs.saveGlobalStyleClass ? ` tpgb-block-${attrs.saveGlobalStyleClass}` : '';
+
+  let icon = '';
+  if (iconType === 'fontAwesome' && attrs.bIcon) {
+    icon = `<span class="tpgb-btn-icon-wrap"><i class="tpgb-btn-icon ${escapeAttr(attrs.bIcon)}"></i></span>`;
+  } else if (iconType === 'image' && attrs.bImg?.url) {
+    const imageClass = attrs.bImg.id ? ` wp-image-${attrs.bImg.id}` : '';
+    icon = `<span class="tpgb-btn-icon-wrap"><img class="tpgb-btn-icon${imageClass}" src="${escapeAttr(attrs.bImg.url)}" alt="${escapeAttr(attrs.bImg.alt || 'click here')}"/></span>`;
+  }
+
+  const label = text ? `<span class="tpgb-btn-txt">${text}</span>` : '';
+  const classes = blockPropsClass('tpgb/tp-button-core', `tp-button-core tpgb-block-${blockId}${global}`, attrs);
+  const anchor = htmlAttributes(linkAttributes(link, 'bLink', { class: 'tpgb-btn-link' }));
+  return withGlobalWrap(attrs, `<div class="${classes}"><a${anchor}><span class="tpgb-btn-wrap">${icon}${label}</span></a></div>`);
+});
+
+registerRenderer('tpgb/tp-blockquote', (attrs, { blockId }) => {
+  const style = attrs.style || 'style-1';
+  const content = attrs.content ?? "You can't connect the dots looking forward; you can only connect them looking backwards. So you have to trust that the dots will somehow connect in your future.";
+  const author = attrs.authorName ?? 'Steve Jobs';
+  if (isDynamic(content) || isDynamic(author)) {
+    return null;
+  }
+  const extra = [attrs.className, attrs.saveGlobalStyleClass && `tpgb-block-${attrs.saveGlobalStyleClass}`]
+    .filter(Boolean)
+    .map(value => ` ${value}`)
+    .join('');
+  const id = attrs.anchor ? ` id="${escapeAttr(attrs.anchor)}"` : '';
+
+  // The quote icon and author are only part of style-2
+  let html = `<div${id} class="tp-blockquote tpgb-relative-block tpgb-block-${blockId}${extra ? ` ${extra}` : ''}">`;
+  html += `<div class="tpgb-blockquote-inner tpgb-quote-${style}">`;
+  if (style === 'style-2') {
+    html += `<span class="tpgb-quote-left"><i class="${escapeAttr(attrs.quoteIcon || 'fas fa-quote-left')}"></i></span>`;
+  }
+  html += `<blockquote class="tpgb-quote-text"><div class="quote-text-wrap"><span class="quote-text">${content}</span></div>`;
+  if (style === 'style-2' && author) {
+    html += `<div class="tpgb-quote-author">${author}</div>`;
+  }
+  html += `</blockquote></div></div>`;
+  return withGlobalWrap(attrs, html);
+});
+
+registerRenderer('tpgb/tp-empty-space', (attrs, { blockId }) =>
+  `<div class="tpgb-empty-space tpgb-block-${blockId}${attrs.className ? `  ${attrs.className}` : ''}"></div>`
+);
+
+/**
+ * Options of the split-text animation (style-9), in the plugin's key order
+ */
+function splitAnimation(attrs: any): string {
+  const position = attrs.aniPosition?.tpgbReset ? attrs.aniPosition : {};
+  const scale = attrs.animationScale?.tpgbReset ? attrs.animationScale : {};
+  const rotate = attrs.animationRotate?.tpgbReset ? attrs.animationRotate : {};
+  const extra = attrs.extrOpt?.tpgbReset ? attrs.extrOpt : {};
+  const int = (value: any) => (value ? parseInt(value) : 0);
+  const float = (value: any, fallback: number) => (value ? parseFloat(value) : fallback);
+
+  return JSON.stringify({
+    effect: (attrs.aniEffect ?? 'default') || 'Power4.easeOut',
+    x: int(position.aniPositionX),
+    y: int(position.aniPositionY),
+    scaleX: int(scale.animationScaleX),
+    scaleY: int(scale.animationScaleY),
+    scaleZ: int(scale.animationScaleZ),
+    rotationX: int(rotate.animationRotateX),
+    rotationY: int(rotate.animationRotateY),
+    rotationZ: int(rotate.animationRotateZ),
+    opacity: float(extra.animationOpacity, 0),
+    speed: float(extra.animationSpeed, 1),
+    delay: float(extra.animationDelay, 0.02)
+  });
+}
+
+registerRenderer('tpgb/tp-heading-title', (attrs, { blockId }) => {
+  const style = attrs.style || 'style-1';
+  const headingType = attrs.headingType ?? 'default';
+  const position = attrs.subTitlePosition ?? 'onBottonTitle';
+  const title = attrs.Title ?? 'Main Heading';
+  const subTitle = attrs.subTitle ?? 'It’s Sub Heading';
+  const extraTitle = attrs.extraTitle ?? 'I am Extra';
+  const extraPosition = attrs.ETPosition ?? 'afterTitle';
+  const titleTag = attrs.titleType || 'h3';
+  const subTitleTag = attrs.subTitleType || 'h3';
+  const image = attrs.imgName ?? { url: '', Id: '' };
+
+  // Character/word limits are applied by the plugin's text trimming helper
+  if (attrs.limitTgl && (attrs.titleLimit || attrs.subTitleLimit)) {
+    return null;
+  }
+  if (style !== 'style-9' && [title, subTitle, extraTitle].some(isDynamic)) {
+    return null;
+  }
+
+  const extra = [attrs.className, attrs.saveGlobalStyleClass && `tpgb-block-${attrs.saveGlobalStyleClass}`]
+    .filter(Boolean)
+    .map(value => ` ${value}`)
+    .join('');
+  const id = attrs.anchor ? ` id="${escapeAttr(attrs.anchor)}"` : '';
+  let html = `<div${id} class="tpgb-heading-title tpgb-relative-block heading_style tpgb-block-${blockId} heading-${style}${extra ? ` ${extra}` : ''}">`;
+
+  if (style === 'style-9') {
+    const text = textChild(title);
+    if (text === null) {
+      return null;
+    }
+    if (title) {
+      const split = attrs.splitType ?? 'words';
+      const props = { class: `sub-style tpgb-split-${split}`, 'data-animsplit-type': split === 'lines' ? 'lines,chars' : split, 'data-aniattrht': splitAnimation(attrs) };
+      html += `<${titleTag}${htmlAttributes(props)}>${text}</${titleTag}>`;
+    }
+    return withGlobalWrap(attrs, `${html}</div>`);
+  }
+
+  const extraSpan = style === 'style-1' && extraTitle !== '' ? `<span class="title-s">${extraTitle}</span>` : '';
+  let titleHtml = '';
+  if (title !== '') {
+    const pageTitle = { dynamicField: 'post-title', titlePre: '', titlePost: '', dateFormat: '', oldVal: 'Main Heading', incContext: true, advsetting: false, fallBacktxt: '' };
+    titleHtml = `<div class="head-title"><${titleTag} class="heading-title">`
+      + (extraPosition === 'beforeTitle' ? extraSpan : '')
+      + (headingType === 'default' ? title : '')
+      + (headingType === 'page' ? `<span${htmlAttributes({ 'data-tpgb-dynamic': JSON.stringify(pageTitle) })}>Page Title</span>` : '')
+      + (extraPosition === 'afterTitle' ? extraSpan : '')
+      + `</${titleTag}></div>`;
+
+    if (style === 'style-3') {
+      const separator = image?.url
+        ? `<div class="sep-mg"><img${htmlAttributes({ src: imageUrl(image, 'full'), class: image.id ? `wp-image-${image.id}` : '', alt: image.alt || 'separator' })}/></div>`
+        : '';
+      titleHtml += `<div class="seprator sep-l"><span class="title-sep sep-l"></span>${separator}<span class="title-sep sep-r"></span></div>`;
+    } else if (style === 'style-8') {
+      titleHtml += `<div class="seprator sep-l"><span class="title-sep sep-l"></span><div class="sep-dot">.</div><span class="title-sep sep-r"></span></div>`;
+    }
+  }
+  const subTitleHtml = subTitle !== '' ? `<div class="sub-heading"><${subTitleTag} class="heading-sub-title">${subTitle}</${subTitleTag}></div>` : '';
+
+  html += `<div class="sub-style">${style === 'style-5' ? '<div class="vertical-divider top"></div>' : ''}`;
+  if (position === 'onBottonTitle') {
+    html += titleHtml + subTitleHtml;
+  } else if (position === 'onTopTitle') {
+    html += subTitleHtml + titleHtml;
+  }
+  html += `${style === 'style-5' ? '<div class="vertical-divider bottom"></div>' : ''}</div></div>`;
+  return withGlobalWrap(attrs, html);
+});
+
+const INFOBOX_DESCRIPTION = 'Disrupt inspire and think tank, social entrepreneur but preliminary thinking think tank compelling. Inspiring, invest synergy capacity building, white paper; silo, unprecedented challenge B-corp problem-solvers.';
+
+/**
+ * Icon, image or text shown beside an info box, with its pin label
+ */
+function infoboxIcon(attrs: any, iconType: string): string | null {
+  const image = attrs.imageName ?? [];
+  let media = '';
+  if (iconType === 'icon') {
+    const shine = attrs.iconShine ? 'icon-shine-show' : '';
+    media = `<span class="service-icon tpgb-trans-linear ${shine} icon-${attrs.iconstyleType ?? 'none'}"><i${htmlAttributes({ class: attrs.IconName ?? 'fab fa-angellist' })}></i></span>`;
+  } else if (iconType === 'image' && image.url) {
+    media = `<img${htmlAttributes({ src: imageUrl(image, attrs.imageSize || 'full'), class: `service-icon tpgb-trans-linear${image.id ? ` wp-image-${image.id}` : ''}`, alt: image.alt || 'info' })}/>`;
+  } else if (iconType === 'text' && attrs.textIcon) {
+    media = `<span class="tpgb-icon-wrap-text">${escapeText(attrs.textIcon)}</span>`;
+  }
+
+  const pinText = parsedHtml(attrs.pinText ?? 'New');
+  if (attrs.dispPinText && pinText === null) {
+    return null;
+  }
+  const pin = attrs.dispPinText ? `<div class="info-pin-text tpgb-trans-easeinout">${pinText}</div>` : '';
+  return `<div class="info-icon-content">${pin}<div class="service-icon-wrap tpgb-trans-linear">${media}</div></div>`;
+}
+
+registerRenderer('tpgb/tp-infobox', (attrs, { blockId }) => {
+  const style = attrs.styleType || 'style-1';
+  const iconType = attrs.iconType ?? 'icon';
+  const title = attrs.Title ?? 'Amazing Feature';
+  const description = attrs.Description ?? INFOBOX_DESCRIPTION;
+  const link = attrs.IBoxLink ?? { url: '', target: '', nofollow: '' };
+
+  // Carousels, drawn SVG icons and the extra button are not ported
+  if ((attrs.layoutType ?? 'listing') !== 'listing' || iconType === 'svg' || attrs.extBtnshow) {
+    return null;
+  }
+
+  const effect = ({ bounce_in: 'bounce-in', radial: 'shadow_radial' } as Record<string, string>)[attrs.contenthoverEffect] ?? attrs.contenthoverEffect ?? '';
+  const overlay = attrs.iconOverlay || attrs.imgOverlay ? 'icon-overlay' : '';
+  const extra = `${attrs.className || ''}${attrs.saveGlobalStyleClass ? ` tpgb-block-${attrs.saveGlobalStyleClass}` : ''}`;
+  const carousel = attrs.carouselId ? { id: `tpca-${attrs.carouselId}`, 'data-id': `tpca-${attrs.carouselId}`, 'data-connection': `tptab_${attrs.carouselId}` } : {};
+
+  // Unlinked titles go through the plugin's HTML parser
+  const titleLinked = !attrs.IBoxLinkTgl && link.url !== '';
+  const titleText = titleLinked ? textChild(title) : parsedHtml(title);
+  const descText = textChild(description);
+  if (titleText === null || descText === null) {
+    return null;
+  }
+
+  const titleTag = attrs.titleType || 'div';
+  let titleHtml = '';
+  if (title !== '') {
+    titleHtml = titleLinked
+      ? `<a${htmlAttributes({ ...linkAttributes(link, 'IBoxLink'), class: 'service-title tpgb-trans-linear' })}><${titleTag}>${titleText}</${titleTag}></a>`
+      : `<${titleTag} class="service-title tpgb-trans-linear">${titleText}</${titleTag}>`;
+  }
+  const border = attrs.displayBorder ? '<div class="service-border"></div>' : '';
+  const descTag = attrs.descType || 'div';
+  const descHtml = description !== '' ? `<${descTag} class="service-desc tpgb-trans-linear">${descText}</${descTag}>` : '';
+
+  const hasIcon = iconType !== 'none';
+  const sideBorder = hasIcon && attrs.sideImgBorder ? ' service-img-border' : '';
+  const mediaClass = ({
+    'style-1': `style-1 m-r-16${sideBorder}`,
+    'style-2': `style-2 m-l-16${sideBorder}`,
+    'style-4': hasIcon ? ' m-r-16' : '',
+    'style-5': hasIcon ? 'service-bg-5' : ''
+  } as Record<string, string>)[style] ?? '';
+  const icon = hasIcon ? infoboxIcon(attrs, iconType) : '';
+  if (icon === null) {
+    return null;
+  }
+  const media = hasIcon ? `<div class="${mediaClass}"> ${icon} </div>` : '';
+  const center = attrs.verticalCenter ? 'vertical-center' : '';
+
+  let content = '';
+  if (style === 'style-1') {
+    content = `<div class="service-media text-left ${center}">${hasIcon ? `<div class="${mediaClass}">${icon}</div>` : ''}<div class="service-content">${titleHtml}${border}${descHtml}</div></div>`;
+  } else if (style === 'style-2') {
+    content = `<div class="service-media text-right ${center}"><div class="service-content">${titleHtml}${border}${descHtml}</div>${media}</div>`;
+  } else if (style === 'style-3') {
+    content = `<div class="text-alignment"><div class="style-3">${icon}${titleHtml}${border}${descHtml}</div></div>`;
+  } else if (style === 'style-4') {
+    content = `<div class="service-media text-left ${center}">${media}<div class="service-content">${titleHtml}</div></div>${border}${descHtml}`;
+  } else if (style === 'style-5') {
+    content = `<div class="service-media text-left">${media}<div class="style-5-service-content">${titleHtml}${border}${descHtml}</div></div>`;
+  } else if (style === 'style-6') {
+    content = `<div class="style-6 text-center"><div class="info-box-all"><div class="info-box-wrapper"><div class="info-box-content"><div class="info-box-icon-img">${media}</div>${titleHtml}<div class="info-box-title-hide">${escapeText(title)}</div>${border}${descHtml}</div></div></div></div>`;
+  }
+
+  const box = attrs.IBoxLinkTgl && link.url !== ''
+    ? `<a${htmlAttributes({ ...linkAttributes(link, 'IBoxLink'), class: `info-box-bg-box tpgb-trans-linear ${overlay}` })}>${content}</a>`
+    : `<div class="info-box-bg-box tpgb-trans-linear ${overlay}">${content}</div>`;
+
+  const html = `<div${htmlAttributes({ class: `tpgb-infobox tpgb-relative-block tpgb-trans-linear tpgb-block-${blockId} info-box-${style} ${extra}`, ...carousel })}>`
+    + `<div class="post-inner-loop"><div class="info-box-inner tpgb-trans-linear tpgb_cnt_hvr_effect tpgb-relative-block tp-info-nc cnt_hvr_${effect}">`
+    + `${box}<div class="infobox-overlay-color tpgb-trans-linear"></div></div></div></div>`;
+  return withGlobalWrap(attrs, html);
+});
+
+// Interactive containers
+
+/**
+ * Close/open icons of an accordion header
+ */
+function accordionToggle(attrs: any, iconSuffix: string = ''): string {
+  if (!(attrs.toggleIcon ?? false) || attrs.iconFont === 'none') {
+    return '';
+  }
+  const fontAwesome = (attrs.iconFont ?? 'font_awesome') === 'font_awesome';
+  const icon = (name: string) => (fontAwesome ? `<i${htmlAttributes({ class: `${name}${iconSuffix}` })}></i>` : '');
+  return `<div class="accordion-toggle-icon"><span class="close-toggle-icon toggle-icon">${icon(attrs.iconName ?? 'fas fa-plus ')}</span><span class="open-toggle-icon toggle-icon">${icon(attrs.ActiconName ?? 'fas fa-minus')}</span></div>`;
+}
+
+const ACCORDION_ITEMS = [
+  { title: 'Accordion 1', contentType: 'content', desc: 'This is just dummy content. Put your relevant content over here. We want to remind you, smile and passion are contagious, be a carrier.', innerIcon: false, iconFonts: 'font_awesome', innericonName: 'fas fa-home' },
+  { title: 'Accordion 2', contentType: 'content', desc: 'Enter your relevant content over here. This is just dummy content.  We want to remind you, smile and passion are contagious, be a carrier.', innerIcon: false, iconFonts: 'font_awesome', innericonName: 'fas fa-home' }
+];
+
+registerRenderer('tpgb/tp-accordion', (attrs, { blockId }) => {
+  const type = attrs.accorType ?? 'content';
+  const items: any[] | undefined = attrs.accordianList ?? ACCORDION_ITEMS;
+  const titleTag = attrs.titleTag || 'h3';
+  const iconAlign = attrs.iconAlign ?? 'end';
+  const toggle = accordionToggle(attrs);
+  let extra = attrs.className || '';
+  if (attrs.saveGlobalStyleClass) {
+    extra += ` tpgb-block-${attrs.saveGlobalStyleClass}`;
+  }
+
+  const open = `<div class="tpgb-accordion tpgb-block-${blockId}${extra ? ` ${extra}` : ''}"><div class="tpgb-accor-wrap" data-type="accordion" role="tablist">`;
+  const close = '</div></div>';
+
+  // Items built in the editor are accordion-inner blocks
+  if (type === 'editor') {
+    return withGlobalWrap(attrs, container(open, close));
+  }
+
+  let html = '';
+  if (items !== undefined && (type === 'content' || type === 'template')) {
+    html = items.map((item, index) => {
+      const titleId = item.UniqueId || `tpag-tab-title-${blockId}${index + 1}`;
+      const innerIcon = item.innerIcon
+        ? `<span class="accordion-tab-icon">${item.iconFonts === 'font_awesome' ? `<i${htmlAttributes({ class: `${item.innericonName}` })}></i>` : ''}</span>`
+        : '';
+      const header = `<div${htmlAttributes({ class: `tpgb-accordion-header tpgb-trans-linear-before ${attrs.titleAlign ?? 'text-left'}`, id: titleId, role: 'tab', 'data-tab': index + 1, 'aria-controls': titleId })}>`
+        + (iconAlign === 'start' ? toggle : '')
+        + `<span class="accordion-title-icon-wrap">${innerIcon}<${titleTag} class="accordion-title">${item.title ?? ''}</${titleTag}></span>`
+        + (iconAlign === 'end' ? toggle : '')
+        + '</div>';
+      const body = `<div${htmlAttributes({ id: `tpag-tab-content-${blockId}${index + 1}`, class: 'tpgb-accordion-content', role: 'tabpanel', 'data-tab': index + 1, 'aria-labelledby': titleId })}>`
+        + `<div class="tpgb-content-editor ${attrs.descAlign ?? 'text-left'}">${item.contentType === 'content' ? item.desc ?? '' : ''}</div></div>`;
+      return `<div class="tpgb-accor-item tpgb-relative-block">${header}${body}</div>`;
+    }).join('');
+  }
+
+  return withGlobalWrap(attrs, open + html + close);
+});
+
+registerRenderer('tpgb/tp-accordion-inner', attrs => {
+  const iconAlign = attrs.iconAlign ?? 'end';
+  const toggle = accordionToggle(attrs, ' ');
+  const titleTag = attrs.titleTag || 'h3';
+  const innerIcon = attrs.innerIcon
+    ? `<span class="accordion-tab-icon">${(attrs.iniconFonts ?? 'font_awesome') === 'font_awesome' ? `<i${htmlAttributes({ class: `${attrs.innericonName ?? 'fas fa-home'} ` })}></i>` : ''}</span>`
+    : '';
+  const index = attrs.index ?? '';
+
+  return container(
+    `<div class="tpgb-accor-item tpgb-relative-block${attrs.className ? ` ${attrs.className}` : ''}">`
+      + `<div${htmlAttributes({ id: attrs.hrefLink || undefined, class: `tpgb-accordion-header tpgb-trans-linear-before ${attrs.titleAlign ?? 'text-left'}`, role: 'tab', 'data-tab': index })}>`
+      + (iconAlign === 'start' ? toggle : '')
+      + `<span class="accordion-title-icon-wrap">${innerIcon}<${titleTag} class="accordion-title">${attrs.title ?? ''}</${titleTag}></span>`
+      + (iconAlign === 'end' ? toggle : '')
+      + `</div><div${htmlAttributes({ class: 'tpgb-accordion-content', role: 'tabpanel', 'data-tab': index })}><div class="tpgb-content-editor">`,
+    '</div></div></div>'
+  );
+});
+
+registerRenderer('tpgb/tp-tab-item', attrs => {
+  const active = attrs.active ?? '';
+  const uniqueKey = attrs.uniqueKey ?? '';
+  const index = attrs.tabtoIndex ?? '';
+  const iconFonts = attrs.iconFonts ?? 'font_awesome';
+  const image = attrs.iconImage;
+
+  let icon = '';
+  if (attrs.innerIcon) {
+    let media = '';
+    if (iconFonts === 'font_awesome') {
+      media = `<i${htmlAttributes({ class: `tab-icon tpgb-trans-linear ${attrs.innericonName ?? 'fas fa-home'}` })}></i>`;
+    } else if (iconFonts === 'image') {
+      // Without an image the plugin saves its placeholder, served from the site's plugin URL
+      if (!image?.url) {
+        return null;
+      }
+      media = `<img${htmlAttributes({ src: imageUrl(image, attrs.iconImageSize ?? 'full'), class: image.id ? ` wp-image-${image.id}` : '', alt: image.alt || 'icon' })}/>`;
+    }
+    icon = `<span class="tab-icon-wrap">${media}</span>`;
+  }
+
+  const state = String(uniqueKey) === String(active) ? ' active' : Number(index) === 1 ? 'active' : '';
+  return container(
+    `<div${htmlAttributes({ class: `tab-mobile-title${active} ${attrs.navAlign ?? 'text-center'}`, 'data-tab': index })}>${icon}<span>${escapeText(attrs.tabinTitle ?? '')}</span></div>`
+      + `<div${htmlAttributes({ class: `tpgb-tab-content tab-content-${uniqueKey} ${state}`, role: 'tabpanel', 'data-tab': index })}><div class="tpgb-content-editor">`,
+    '</div></div>'
+  );
+});
+
+// Forms
+// Field markup follows the plugin's save functions; class names (including
+// trailing spaces) must match exactly or the editor flags the block as invalid
+
+// The form element is rendered server-side; the block saves only its fields
+registerRenderer('tpgb/tp-form-block', () => container('', ''));
+
+function fieldClass(base: string, attrs: any): string {
+  return attrs.saveGlobalStyleClass ? `${base} tpgb-block-${attrs.saveGlobalStyleClass}` : base;
+}
+
+function helpText(attrs: any, position: 'top' | 'bottom'): string {
+  return attrs.hlpTxt && (attrs.descPoss || 'top') === position
+    ? `<span class="nxt-help-text">${escapeText(attrs.desctxt ?? 'Description')}</span>`
+    : '';
+}
+
+function fieldLabel(className: string, attrs: any, fallback: string, requiredByDefault: boolean = false): string {
+  const required = attrs.reqTgl ?? requiredByDefault;
+  return `<label class="${className} ${required ? 'required' : ''}">${attrs.labelss ?? fallback}</label>`;
+}
+
+/**
+ * Placeholder icon shown inside an input ("fontAwsome" is the plugin's spelling)
+ */
+function placeholderIcon(type: string | undefined, icon: string | undefined, image: any, wrapInner: boolean = false): string {
+  if (type === 'fontAwsome' && icon) {
+    const element = `<i class="nxt-inner-icon ${escapeAttr(icon)}"></i>`;
+    return `<span class="nxt-placeholder-icon">${wrapInner ? `<span class="nxt-inner-icon-wrap">${element}</span>` : element}</span>`;
+  }
+  if (type === 'image' && image?.url) {
+    const element = `<img class="nxt-icon" src="${escapeAttr(image.url)}" alt="icon"/>`;
+    return `<span class="nxt-placeholder-icon">${wrapInner ? `<span class="nxt-inner-icon-wrap">${element}</span>` : element}</span>`;
+  }
+  return '';
+}
+
+function required(attrs: any, requiredByDefault: boolean = false): string {
+  return String(Boolean(attrs.reqTgl ?? requiredByDefault));
+}
+
+function fieldOptions(attrs: any): Array<{ fldLabel: string; fldValue: string }> {
+  return Array.isArray(attrs.fldOptions) ? attrs.fldOptions : [{ fldLabel: ' Enter Label', fldValue: ' Enter Value' }];
+}
+
+registerRenderer('tpgb/tp-form-name-field', (attrs, { blockId }) => {
+  const input = `<input class="nxt-name-richtext" type="text" placeholder="${escapeAttr(attrs.placeholder ?? 'Name')}" data-required="${required(attrs)}" autocomplete="${escapeAttr(attrs.autoComplete ?? 'off')}" name="text-field" maxlength="${escapeAttr(attrs.maxAlphabets ?? '')}"/>`;
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`tp-form-name-field tpgb-block-${blockId}`, attrs)}"><div class="nxt-name-input">`
+    + fieldLabel('nxt-name-label', attrs, 'Name')
+    + helpText(attrs, 'top')
+    + `<div class="nxt-input-container">${placeholderIcon(attrs.nameIconType, attrs.nameIcons, attrs.nameImage)}${input}</div>`
+    + helpText(attrs, 'bottom')
+    + `<span class="nxt-error-show" data-error-message="${escapeAttr(attrs.error ?? 'This field is required.')}" data-name-validation="${Boolean(attrs.valName)}"></span></div></div>`);
+});
+
+registerRenderer('tpgb/tp-form-email-field', (attrs, { blockId }) => {
+  const input = `<input type="email" placeholder="${escapeAttr(attrs.placeholder ?? 'Email')}" class="nxt-email-richtext" data-required="${required(attrs, true)}" autocomplete="${escapeAttr(attrs.autoComplete ?? 'off')}" name="email"/>`;
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`tp-form-email-field tpgb-block-${blockId} `, attrs)}"><div class="nxt-email-input">`
+    + fieldLabel('nxt-email-label', attrs, 'Email', true)
+    + helpText(attrs, 'top')
+    + `<div class="nxt-input-container">${placeholderIcon(attrs.iconType, attrs.icons, attrs.ButtonImage)}${input}</div>`
+    + helpText(attrs, 'bottom')
+    + `<span class="nxt-error-email" data-error-message="${escapeAttr(attrs.error ?? 'This field is required.')}"></span></div></div>`);
+});
+
+registerRenderer('tpgb/tp-form-message-field', (attrs, { blockId }) => {
+  const itemId = attrs.UniqueId ? ` data-item-id="${escapeAttr(attrs.UniqueId)}"` : '';
+  const textarea = `<textarea placeholder="${escapeAttr(attrs.placeholder || 'Message')}" class="nxt-message-richtext" data-required="${required(attrs)}" autocomplete="${escapeAttr(attrs.autoComplete || 'off')}" rows="${escapeAttr(attrs.lineNum ?? 2)}" name="message"${itemId}></textarea>`;
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`tp-form-message-field tpgb-block-${blockId} `, attrs)}"><div class="nxt-message-input">`
+    + fieldLabel('nxt-message-label', attrs, 'Message')
+    + helpText(attrs, 'top')
+    + textarea
+    + helpText(attrs, 'bottom')
+    + `<span class="nxt-message-error" data-error-message="${escapeAttr(attrs.error ?? 'This field is required.')}"></span></div></div>`);
+});
+
+registerRenderer('tpgb/tp-form-number-field', (attrs, { blockId }) => {
+  const input = `<input type="number" placeholder="${escapeAttr(attrs.placeholder ?? 'Number')}" class="nxt-number-richtext" max="${escapeAttr(attrs.maxNum ?? '')}" min="${escapeAttr(attrs.minNum ?? '')}" name="number" data-required="${required(attrs)}" oninput="javascript: if (this.value.length &gt; this.maxLength) this.value = this.value.slice(0, this.maxLength);" maxlength="${escapeAttr(attrs.maxCount ?? '15')}"/>`;
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`nxt-number-field tpgb-block-${blockId} `, attrs)}"><div class="nxt-number-input">`
+    + fieldLabel('nxt-number-label', attrs, 'Number')
+    + helpText(attrs, 'top')
+    + `<div class="nxt-input-container">${placeholderIcon(attrs.numIconType, attrs.numIcons, attrs.numImage, true)}${input}</div>`
+    + helpText(attrs, 'bottom')
+    + `<span class="nxt-error-number" data-error-message="${escapeAttr(attrs.error ?? 'This field is required.')}"></span></div></div>`);
+});
+
+registerRenderer('tpgb/tp-form-option-field', (attrs, { blockId }) => {
+  const options = fieldOptions(attrs);
+  const body = options.length > 0
+    ? `<div class="nxt-option-container">${fieldLabel('nxt-option-label', attrs, 'Select')}${helpText(attrs, 'top')}`
+      + `<select class="nxt-option-field" data-required="${required(attrs)}" name="select">`
+      + options.map(option => `<option value="${escapeAttr(option.fldValue)}">${escapeText(option.fldLabel)}</option>`).join('')
+      + `</select>${helpText(attrs, 'bottom')}</div>`
+    : '';
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`nxt-form-option tpgb-block-${blockId} `, attrs)}">${body}<span class="nxt-error-select" data-error-message="${escapeAttr(attrs.error ?? 'This field is required.')}"></span></div>`);
+});
+
+/**
+ * Option ids are built from the label, option index and block id
+ */
+function optionId(prefix: string, label: string, index: number, blockId: string): string {
+  return `${prefix}${label.toLowerCase().replace(/\s+/g, '-')}${index}${blockId}`;
+}
+
+registerRenderer('tpgb/tp-form-checkbox-button', (attrs, { blockId }) => {
+  const options = fieldOptions(attrs).map((option, index) => {
+    const id = escapeAttr(optionId('checkbox', option.fldLabel, index, blockId));
+    const value = escapeAttr(option.fldValue.replace(/\s+/g, '-').toLowerCase());
+    return `<div class="nxt-checkbox-list"><input class="nxt-check-richtext" type="checkbox" id="${id}" value="${value}" data-required="${required(attrs)}" name="checkbox"/><label class="nxt-check-label" for="${id}">${escapeText(option.fldLabel)}</label></div>`;
+  }).join('');
+
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`tp-form-checkbox-button tpgb-block-${blockId}`, attrs)}">`
+    + fieldLabel('nxt-check-title-label', attrs, 'Checkbox')
+    + `<div class="nxt-check-box ${escapeAttr(attrs.optPos || 'vertical')} ${escapeAttr(attrs.bRadius || 'square')}">${helpText(attrs, 'top')}${options}${helpText(attrs, 'bottom')}</div>`
+    + `<span class="nxt-error-checkbox" data-error-message="${escapeAttr(attrs.error ?? 'This field is required.')}"></span></div>`);
+});
+
+registerRenderer('tpgb/tp-form-radio-button', (attrs, { blockId }) => {
+  const options = fieldOptions(attrs).map((option, index) => {
+    const id = escapeAttr(optionId('radio', option.fldLabel, index, blockId));
+    return `<div class="nxt-radio-list"><input class="nxt-radio-richtext" type="radio" id="${id}" name="radio-group${escapeAttr(blockId)}" value="${escapeAttr(option.fldValue)}" data-required="${required(attrs)}"/><label class="nxt-radio-label" for="${id}">${escapeText(option.fldLabel)}</label></div>`;
+  }).join('');
+
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`tp-form-radio-button tpgb-block-${blockId} `, attrs)}">`
+    + fieldLabel('nxt-radio-title-label', attrs, 'Radio')
+    + `<div class="nxt-radio-box ${escapeAttr(attrs.optPos || 'vertical')} ${escapeAttr(attrs.bRadius || 'round')}">${helpText(attrs, 'top')}${options}${helpText(attrs, 'bottom')}</div>`
+    + `<span class="nxt-error-radiobox" data-error-message="${escapeAttr(attrs.error ?? 'This field is required.')}"></span></div>`);
+});
+
+registerRenderer('tpgb/tp-form-submit-button', (attrs, { blockId }) => {
+  const layout = attrs.isInline ? 'nxt-btn-inline' : 'nxt-btn-block';
+  const id = attrs.parentFormId ? ` id="${escapeAttr(attrs.parentFormId)}"` : '';
+
+  let icon = '';
+  if (attrs.ButtonType === 'fontAwsome' && attrs.ButtonIcon) {
+    icon = `<span class="nxt-button-svg "><i class="nxt-btn-symbol ${escapeAttr(attrs.ButtonIcon)}"></i></span>`;
+  } else if (attrs.ButtonType === 'image' && attrs.ButtonImage?.url) {
+    icon = `<span class="nxt-button-svg "><img class="nxt-btn-symbol" src="${escapeAttr(attrs.ButtonImage.url)}" alt="Button Icon"/></span>`;
+  }
+
+  return withGlobalWrap(attrs, `<div class="${fieldClass(`nxt-submit-button tpgb-block-${blockId} ${layout}`, attrs)}"><button type="submit" class="nxt-submit"${id}>${icon}<span class="nxt-btn-text">${escapeText(attrs.labelss ?? 'Submit')}</span><span class="nxt-loader"></span></button></div>`);
+});
+
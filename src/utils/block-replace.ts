@@ -0,0 +1,330 @@
+/**
+ * Block Replace Utility
+ *
+ * Find-and-replace of literal text across a block tree: string attributes
+ * (including nested link objects and repeater items) and the text of the
+ * saved markup, which is the only copy of attributes sourced from HTML
+ * (source: html). Tags, classes and attribute values in markup are never
+ * rewritten by a match, only when they hold a replaced attribute's value
+ */
+
+import type { SchemaLoader } from '../services/schema-loader.js';
+import { formatBlockPath } from './block-tree.js';
+import { queryInnerHtml } from './content-exporter.js';
+
+export interface ReplaceOptions {
+  find: string;
+  replace: string;
+  caseSensitive?: boolean;
+  /** Only blocks of these types (e.g. "tpgb/tp-heading") */
+  blockTypes?: string[];
+  /** Only these attribute names (top level) */
+  attributes?: string[];
+}
+
+export interface ReplaceChange {
+  path: string;
+  block_id?: string;
+  blockName: string;
+  /** Attribute path (e.g. "bLink.url", "listsRepeater.0.description") or "markup" */
+  field: string;
+  count: number;
+  /** Excerpts around the first match */
+  before: string;
+  after: string;
+}
+
+type FieldChange = Pick<ReplaceChange, 'field' | 'count' | 'before' | 'after'>;
+
+export interface ReplaceResult {
+  blocks: any[];
+  changes: ReplaceChange[];
+  count: number;
+}
+
+/** Context kept on each side of the first match in a change summary */
+const EXCERPT_CONTEXT = 60;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Text as block save functions escape it: only & and < */
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+}
+
+/** Comments and tags, attributes included; everything between them is text */
+const TAG_PATTERN = /<!--[\s\S]*?-->|<[^>]*>/g;
+
+function hasMarkup(value: string): boolean {
+  return /<[a-z!/]/i.test(value);
+}
+
+/**
+ * Rebuild markup, passing its text and its tags through separate functions
+ */
+function mapMarkup(html: string, text: (value: string) => string, tag: (value: string) => string = value => value): string {
+  let result = '';
+  let last = 0;
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    result += text(html.slice(last, index)) + tag(match[0]);
+    last = index + match[0].length;
+  }
+
+  return result + text(html.slice(last));
+}
+
+/**
+ * Markup with every tag blanked out (same length), so text matches keep
+ * their offsets and never span or fall inside a tag
+ */
+function maskTags(html: string): string {
+  return html.replace(TAG_PATTERN, tag => '\u0000'.repeat(tag.length));
+}
+
+class Replacer {
+  private readonly pattern: RegExp;
+  private readonly markupPattern: RegExp;
+  private readonly markupReplace: string;
+
+  constructor(private readonly options: ReplaceOptions) {
+    const flags = options.caseSensitive === false ? 'gi' : 'g';
+    this.pattern = new RegExp(escapeRegExp(options.find), flags);
+
+    // Markup holds attribute text HTML-escaped ("A &amp; B")
+    this.markupPattern = new RegExp(escapeRegExp(escapeHtml(options.find)), flags);
+    this.markupReplace = escapeHtml(options.replace);
+  }
+
+  /**
+   * Replace in one string; returns the new string and the number of matches
+   */
+  text(value: string, markup: boolean = false): { value: string; count: number } {
+    let count = 0;
+    const replacement = markup ? this.markupReplace : this.options.replace;
+    const result = value.replace(markup ? this.markupPattern : this.pattern, () => {
+      count++;
+      return replacement;
+    });
+
+    return { value: result, count };
+  }
+
+  /**
+   * Replace in the text nodes of markup only
+   */
+  markup(html: string): { value: string; count: number } {
+    let count = 0;
+    const value = mapMarkup(html, text => {
+      const replaced = this.text(text, true);
+      count += replaced.count;
+      return replaced.value;
+    });
+
+    return { value, count };
+  }
+
+  /**
+   * Before/after excerpts around the first match (in markup, the first in
+   * text, or in searched: before with the parts to skip blanked out)
+   */
+  excerpt(before: string, after: string, markup: boolean, searched?: string): { before: string; after: string } {
+    const pattern = markup ? this.markupPattern : this.pattern;
+    pattern.lastIndex = 0;
+    const match = pattern.exec(searched ?? (markup ? maskTags(before) : before));
+    pattern.lastIndex = 0;
+    if (!match) {
+      return { before, after };
+    }
+
+    const start = Math.max(0, match.index - EXCERPT_CONTEXT);
+    const replacement = markup ? this.markupReplace : this.options.replace;
+    const clip = (text: string, matchLength: number) => {
+      const end = match.index + matchLength + EXCERPT_CONTEXT;
+      return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+    };
+
+    return { before: clip(before, match[0].length), after: clip(after, replacement.length) };
+  }
+
+  /**
+   * Replace in every string leaf of an attribute value
+   */
+  value(value: any, field: string, changes: FieldChange[], replacedValues: Array<[string, string]>): any {
+    if (typeof value === 'string') {
+      // Rich text attributes hold markup: only their text is replaced
+      const markup = hasMarkup(value);
+      const replaced = markup ? this.markup(value) : this.text(value);
+      if (replaced.count > 0) {
+        changes.push({ field, count: replaced.count, ...this.excerpt(value, replaced.value, markup) });
+        replacedValues.push([value, replaced.value]);
+      }
+      return replaced.value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((entry, index) => this.value(entry, `${field}.${index}`, changes, replacedValues));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, this.value(entry, `${field}.${key}`, changes, replacedValues)]));
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Markup of a block after its attributes changed, computed in one pass over
+ * the saved markup so nothing is replaced twice: text nodes and attribute
+ * values (e.g. an href) holding exactly a replaced attribute value, or the
+ * old value verbatim when it is itself markup, take the new value without
+ * being counted. With a replacer, every other text node gets the replacement;
+ * counted is the saved markup with everything else blanked out, for excerpts
+ */
+function rewriteMarkup(
+  html: string,
+  replacedValues: Array<[string, string]>,
+  replacer?: Replacer
+): { value: string; count: number; counted: string } {
+  const swaps = new Map<string, string>();
+  for (const [before, after] of replacedValues.filter(([before]) => !hasMarkup(before))) {
+    for (const [from, to] of [[escapeText(before), escapeText(after)], [escapeHtml(before), escapeHtml(after)]]) {
+      if (!swaps.has(from)) {
+        swaps.set(from, to);
+      }
+    }
+  }
+  const verbatim = replacedValues.filter(([before]) => hasMarkup(before));
+
+  let count = 0;
+  const rewrite = (part: string) => mapMarkup(
+    part,
+    text => {
+      const swapped = swaps.get(text);
+      if (swapped !== undefined || !replacer) {
+        return swapped ?? text;
+      }
+      const replaced = replacer.text(text, true);
+      count += replaced.count;
+      return replaced.value;
+    },
+    tag => tag.replace(/(=")([^"]*)(")/g, (attribute, open: string, value: string, close: string) => open + (swaps.get(value) ?? value) + close)
+  );
+
+  const blank = (part: string) => '\u0000'.repeat(part.length);
+  const mask = (part: string) => mapMarkup(part, text => (swaps.has(text) || !replacer ? blank(text) : text), blank);
+
+  let result = '';
+  let counted = '';
+  let rest = html;
+  for (;;) {
+    const next = verbatim
+      .map(([before, after]) => ({ index: rest.indexOf(before), before, after }))
+      .filter(match => match.index >= 0)
+      .sort((a, b) => a.index - b.index)[0];
+    if (!next) {
+      break;
+    }
+    result += rewrite(rest.slice(0, next.index)) + next.after;
+    counted += mask(rest.slice(0, next.index)) + blank(next.before);
+    rest = rest.slice(next.index + next.before.length);
+  }
+
+  return { value: result + rewrite(rest), count, counted: counted + mask(rest) };
+}
+
+/**
+ * Replace text throughout a block tree
+ *
+ * block_id and className are never touched. The markup follows the changed
+ * attribute values (not counted again) and, without an attribute filter, the
+ * same replacement runs on the rest of its text in the same pass; with a
+ * filter, it runs on the text of the elements of filtered sourced attributes
+ */
+export function replaceInBlocks(blocks: any[], options: ReplaceOptions, schemaLoader: SchemaLoader): ReplaceResult {
+  if (!options.find) {
+    return { blocks, changes: [], count: 0 };
+  }
+
+  const replacer = new Replacer(options);
+  const changes: ReplaceChange[] = [];
+
+  const walk = (list: any[], parent: number[]): any[] => list.map((block, index) => {
+    const indices = [...parent, index];
+    const innerBlocks = walk(block.innerBlocks || [], indices);
+    const inScope = block.blockName && (!options.blockTypes || options.blockTypes.includes(block.blockName));
+    if (!inScope) {
+      return block.innerBlocks ? { ...block, innerBlocks } : block;
+    }
+
+    const blockChanges: FieldChange[] = [];
+    const replacedValues: Array<[string, string]> = [];
+    const attrs: Record<string, any> = {};
+    for (const [name, value] of Object.entries<any>(block.attrs || {})) {
+      const protectedAttr = name === 'block_id' || name === 'className';
+      const filtered = options.attributes && !options.attributes.includes(name);
+      attrs[name] = protectedAttr || filtered ? value : replacer.value(value, name, blockChanges, replacedValues);
+    }
+
+    let innerHTML: string = block.innerHTML || '';
+    let innerContent: Array<string | null> | undefined = block.innerContent;
+
+    const updateMarkup = (update: (html: string) => string) => {
+      innerHTML = update(innerHTML);
+      innerContent = innerContent?.map(chunk => (typeof chunk === 'string' ? update(chunk) : chunk));
+    };
+    // Markup follows the changed attributes; without an attribute filter its other text is replaced too
+    const textReplacer = options.attributes ? undefined : replacer;
+    if (replacedValues.length > 0 || textReplacer) {
+      const rewritten = rewriteMarkup(innerHTML, replacedValues, textReplacer);
+      if (rewritten.count > 0) {
+        blockChanges.push({ field: 'markup', count: rewritten.count, ...replacer.excerpt(innerHTML, rewritten.value, true, rewritten.counted) });
+      }
+      updateMarkup(html => rewriteMarkup(html, replacedValues, textReplacer).value);
+    }
+
+    if (options.attributes) {
+      const sources = schemaLoader.getAttributeSources(block.blockName);
+      for (const name of options.attributes) {
+        const source = sources[name];
+        const inner = source?.source === 'html' && source.selector ? queryInnerHtml(innerHTML, source.selector) : undefined;
+        if (!inner) {
+          continue;
+        }
+
+        const replaced = replacer.markup(inner);
+        if (replaced.count > 0) {
+          blockChanges.push({ field: name, count: replaced.count, ...replacer.excerpt(inner, replaced.value, true) });
+          updateMarkup(html => html.split(inner).join(replaced.value));
+        }
+      }
+    }
+
+    if (blockChanges.length === 0) {
+      return block.innerBlocks ? { ...block, innerBlocks } : block;
+    }
+
+    const path = formatBlockPath(indices);
+    for (const change of blockChanges) {
+      changes.push({ path, block_id: block.attrs?.block_id, blockName: block.blockName, ...change });
+    }
+
+    return {
+      ...block,
+      attrs,
+      innerBlocks,
+      innerHTML,
+      ...(innerContent ? { innerContent } : {})
+    };
+  });
+
+  const result = walk(blocks, []);
+  return { blocks: result, changes, count: changes.reduce((total, change) => total + change.count, 0) };
+}
@@ -0,0 +1,235 @@
+/**
+ * Block Search Utility
+ *
+ * Ranks the blocks in the catalog against free text ("a countdown for a
+ * product launch") using their keywords, use cases, titles, descriptions,
+ * related blocks and complexity, so agents can find block names without
+ * loading whole categories
+ */
+
+import type { SchemaLoader } from '../services/schema-loader.js';
+
+export type BlockComplexity = 'simple' | 'medium' | 'advanced' | 'expert';
+
+export const COMPLEXITY_LEVELS: BlockComplexity[] = ['simple', 'medium', 'advanced', 'expert'];
+
+export interface FindBlocksOptions {
+  /** Maximum number of hits (default 5) */
+  limit?: number;
+  /** Only blocks in this catalog category */
+  category?: string;
+  /** Only blocks at or below this complexity */
+  maxComplexity?: BlockComplexity;
+}
+
+export interface BlockHit {
+  name: string;
+  title: string;
+  category: string;
+  complexity?: string;
+  description: string;
+  useCases: string[];
+  relatedBlocks: string[];
+  /** Child blocks only work inside this parent */
+  parent?: string;
+  requiresACF?: boolean;
+  score: number;
+  /** Query terms the block matched */
+  matched: string[];
+}
+
+export interface FindBlocksResult {
+  hits: BlockHit[];
+  /** Blocks that matched before the limit was applied */
+  total: number;
+}
+
+/** How much a query term matching each field counts */
+const FIELD_WEIGHTS = {
+  keywords: 5,
+  title: 4,
+  useCases: 3,
+  description: 1,
+  relatedBlocks: 0.5
+};
+
+/** Boost for matching the block's complexity ("a simple heading") */
+const COMPLEXITY_WEIGHT = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'for', 'with', 'to', 'of', 'in', 'on', 'at', 'by', 'from', 'as', 'is', 'it',
+  'i', 'we', 'me', 'my', 'our', 'your', 'you', 'that', 'this', 'which', 'some', 'any',
+  'need', 'want', 'show', 'add', 'use', 'make', 'create', 'display', 'block', 'blocks', 'nexter', 'tpgb'
+]);
+
+/**
+ * Reduce plurals to their singular ("launches" → "launch", "timers" → "timer")
+ */
+function stem(word: string): string {
+  if (word.length <= 3) {
+    return word;
+  }
+  if (word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (/(ch|sh|s|x|z)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Lowercase, stemmed words without stop words ("heroSection" and
+ * "tpgb/tp-cta-banner" split into their parts)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/\btpgb\/(tp|nxt)-/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * 1 for an exact match, 0.5 when one word starts the other ("accord" and
+ * "accordion"), 0 otherwise
+ */
+function matchTerm(term: string, words: Set<string>): number {
+  if (words.has(term)) {
+    return 1;
+  }
+  if (term.length < 4) {
+    return 0;
+  }
+  for (const word of words) {
+    if (word.length >= 4 && (word.startsWith(term) || term.startsWith(word))) {
+      return 0.5;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Rank catalog blocks against a free-text query
+ */
+export async function findBlocks(
+  query: string,
+  schemaLoader: SchemaLoader,
+  options: FindBlocksOptions = {}
+): Promise<FindBlocksResult> {
+  const terms = [...new Set(tokenize(query))];
+  const catalog = schemaLoader.getCatalog();
+  if (terms.length === 0 || !catalog?.categories) {
+    return { hits: [], total: 0 };
+  }
+
+  const maxLevel = options.maxComplexity ? COMPLEXITY_LEVELS.indexOf(options.maxComplexity) : COMPLEXITY_LEVELS.length - 1;
+  const queryPhrase = ` ${terms.join(' ')} `;
+
+  // Catalog use cases ("heroSection": [...]) whose whole name is in the query,
+  // weighted like a keyword per word
+  const useCaseBoosts = new Map<string, number>();
+  for (const [useCase, blockNames] of Object.entries<any>(catalog.commonUseCases || {})) {
+    const words = tokenize(useCase);
+    if (words.length > 0 && words.every(word => terms.includes(word)) && Array.isArray(blockNames)) {
+      for (const name of blockNames) {
+        useCaseBoosts.set(name, (useCaseBoosts.get(name) || 0) + FIELD_WEIGHTS.keywords * words.length);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  const hits: BlockHit[] = [];
+
+  for (const [category, { blocks }] of Object.entries<any>(catalog.categories)) {
+    if (options.category && category !== options.category) {
+      continue;
+    }
+
+    for (const entry of blocks || []) {
+      if (!entry?.name || seen.has(entry.name)) {
+        continue;
+      }
+      seen.add(entry.name);
+
+      const level = COMPLEXITY_LEVELS.indexOf(entry.complexity);
+      if (level > maxLevel) {
+        continue;
+      }
+
+      const meta = await schemaLoader.getBlockSchema(entry.name, ['meta'], false);
+      const description: string = meta?.description || '';
+
+      const fields: Record<keyof typeof FIELD_WEIGHTS, Set<string>> = {
+        keywords: new Set((entry.keywords || []).flatMap(tokenize)),
+        title: new Set([...tokenize(entry.title || ''), ...tokenize(entry.name)]),
+        useCases: new Set((entry.useCases || []).flatMap(tokenize)),
+        description: new Set(tokenize(description)),
+        relatedBlocks: new Set((entry.relatedBlocks || []).flatMap(tokenize))
+      };
+
+      let score = 0;
+      const matched = new Set<string>();
+
+      for (const term of terms) {
+        for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+          const match = matchTerm(term, fields[field as keyof typeof FIELD_WEIGHTS]);
+          if (match > 0) {
+            score += weight * match;
+            matched.add(term);
+          }
+        }
+
+        if (term === entry.complexity) {
+          score += COMPLEXITY_WEIGHT;
+          matched.add(term);
+        }
+      }
+
+      // Multi-word keywords ("launch countdown") found as a phrase count again
+      for (const keyword of entry.keywords || []) {
+        const words = tokenize(keyword);
+        if (words.length > 1 && queryPhrase.includes(` ${words.join(' ')} `)) {
+          score += FIELD_WEIGHTS.keywords;
+        }
+      }
+
+      score += useCaseBoosts.get(entry.name) || 0;
+
+      if (score === 0) {
+        continue;
+      }
+
+      // Blocks matching more of the query beat blocks matching one term many ways
+      score *= 0.5 + 0.5 * (matched.size / terms.length);
+
+      hits.push({
+        name: entry.name,
+        title: entry.title || meta?.title || entry.name,
+        category,
+        complexity: entry.complexity,
+        description,
+        useCases: entry.useCases || [],
+        relatedBlocks: entry.relatedBlocks || [],
+        ...(entry.parent ? { parent: entry.parent } : {}),
+        ...(entry.requiresACF ? { requiresACF: true } : {}),
+        score: Math.round(score * 100) / 100,
+        matched: [...matched]
+      });
+    }
+  }
+
+  // Simpler blocks first on equal scores
+  hits.sort((a, b) =>
+    b.score - a.score ||
+    COMPLEXITY_LEVELS.indexOf(a.complexity as BlockComplexity) - COMPLEXITY_LEVELS.indexOf(b.complexity as BlockComplexity) ||
+    a.name.localeCompare(b.name)
+  );
+
+  return { hits: hits.slice(0, options.limit ?? 5), total: hits.length };
+}
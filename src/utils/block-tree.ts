@@ -0,0 +1,401 @@
+/**
+ * Block Tree Utility
+ *
+ * Locates and edits blocks anywhere in a Gutenberg block tree, by block_id
+ * or by path (e.g. "0.innerBlocks.2")
+ */
+
+import { generateBlockId } from './block-formatter.js';
+
+/**
+ * Parse a block path like "0.innerBlocks.2" into child indices ([0, 2])
+ */
+export function parseBlockPath(path: string | number): number[] {
+  const segments = String(path)
+    .split('.')
+    .map(segment => segment.trim())
+    .filter(segment => segment !== '' && segment !== 'innerBlocks');
+
+  if (segments.length === 0) {
+    throw new Error(`Invalid block path: "${path}"`);
+  }
+
+  return segments.map(segment => {
+    if (!/^\d+$/.test(segment)) {
+      throw new Error(`Invalid block path: "${path}" (expected indices like "0.innerBlocks.2")`);
+    }
+    return parseInt(segment, 10);
+  });
+}
+
+/**
+ * Format child indices as a block path ("0.innerBlocks.2")
+ */
+export function formatBlockPath(indices: number[]): string {
+  return indices.join('.innerBlocks.');
+}
+
+/**
+ * Get the block at a path, or null if the path does not exist
+ */
+export function getBlockAtPath(blocks: any[], indices: number[]): any | null {
+  let list = blocks;
+  let block: any = null;
+
+  for (const index of indices) {
+    if (!Array.isArray(list) || index >= list.length) {
+      return null;
+    }
+    block = list[index];
+    list = block?.innerBlocks;
+  }
+
+  return block;
+}
+
+/**
+ * Find the path of a block by its block_id (depth-first)
+ */
+export function findBlockPath(blocks: any[], blockId: string): number[] | null {
+  for (let index = 0; index < blocks.length; index++) {
+    const block = blocks[index];
+
+    if (block.attrs?.block_id === blockId) {
+      return [index];
+    }
+
+    if (block.innerBlocks && block.innerBlocks.length > 0) {
+      const innerPath = findBlockPath(block.innerBlocks, blockId);
+      if (innerPath) {
+        return [index, ...innerPath];
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve an operation target given as block_id or path
+ */
+export function resolveBlockPath(blocks: any[], target: { block_id?: string; path?: string | number }): number[] {
+  if (target.path !== undefined && target.path !== null) {
+    const indices = parseBlockPath(target.path);
+    if (!getBlockAtPath(blocks, indices)) {
+      throw new Error(`No block found at path "${target.path}"`);
+    }
+    return indices;
+  }
+
+  if (target.block_id) {
+    const indices = findBlockPath(blocks, target.block_id);
+    if (!indices) {
+      throw new Error(`Block not found: ${target.block_id}`);
+    }
+    return indices;
+  }
+
+  throw new Error('Operation requires block_id or path');
+}
+
+/**
+ * Replace the block list at a parent path, copying every block along the way
+ * An empty parent path means the top-level list
+ */
+function updateChildren(
+  blocks: any[],
+  parentIndices: number[],
+  update: (children: any[], parent: any | null) => { children: any[]; innerContent?: any[] }
+): any[] {
+  if (parentIndices.length === 0) {
+    return update(blocks, null).children;
+  }
+
+  const [index, ...rest] = parentIndices;
+  const block = blocks[index];
+  if (!block) {
+    throw new Error(`No block found at index ${index}`);
+  }
+
+  const result = [...blocks];
+
+  if (rest.length > 0) {
+    result[index] = {
+      ...block,
+      innerBlocks: updateChildren(block.innerBlocks || [], rest, update)
+    };
+    return result;
+  }
+
+  const updated = update(block.innerBlocks || [], block);
+  result[index] = {
+    ...block,
+    innerBlocks: updated.children,
+    ...(updated.innerContent ? { innerContent: updated.innerContent } : {})
+  };
+  return result;
+}
+
+/**
+ * Add an innerContent placeholder (null) for a new inner block so
+ * serialize_blocks() emits it in the right place
+ */
+function insertInnerContentSlot(innerContent: any[] | undefined, index: number): any[] | undefined {
+  if (!Array.isArray(innerContent)) {
+    return innerContent;
+  }
+
+  const content = [...innerContent];
+  const slots = content.flatMap((chunk, i) => (chunk === null ? [i] : []));
+
+  let at: number;
+  if (index < slots.length) {
+    at = slots[index];
+  } else if (slots.length > 0) {
+    at = slots[slots.length - 1] + 1;
+  } else {
+    // No inner blocks yet: place between the opening and closing wrapper markup
+    at = content.length > 1 ? content.length - 1 : content.length;
+  }
+
+  content.splice(at, 0, null);
+  return content;
+}
+
+/**
+ * Drop the innerContent placeholder of a removed inner block
+ */
+function removeInnerContentSlot(innerContent: any[] | undefined, index: number): any[] | undefined {
+  if (!Array.isArray(innerContent)) {
+    return innerContent;
+  }
+
+  const slots = innerContent.flatMap((chunk, i) => (chunk === null ? [i] : []));
+  if (index >= slots.length) {
+    return innerContent;
+  }
+
+  const content = [...innerContent];
+  content.splice(slots[index], 1);
+  return content;
+}
+
+/**
+ * Insert a block into the children of a parent path at an index
+ * (negative or out-of-range index appends)
+ */
+export function insertBlockAt(
+  blocks: any[],
+  parentIndices: number[],
+  index: number,
+  newBlock: any
+): any[] {
+  if (parentIndices.length > 0 && !getBlockAtPath(blocks, parentIndices)) {
+    throw new Error(`No parent block found at path "${formatBlockPath(parentIndices)}"`);
+  }
+
+  return updateChildren(blocks, parentIndices, (children, parent) => {
+    const insertAt = index < 0 || index > children.length ? children.length : index;
+    const result = [...children];
+    result.splice(insertAt, 0, newBlock);
+
+    return {
+      children: result,
+      innerContent: parent ? insertInnerContentSlot(parent.innerContent, insertAt) : undefined
+    };
+  });
+}
+
+/**
+ * Remove the block at a path
+ */
+export function removeBlockAt(blocks: any[], indices: number[]): any[] {
+  const parentIndices = indices.slice(0, -1);
+  const index = indices[indices.length - 1];
+
+  return updateChildren(blocks, parentIndices, (children, parent) => ({
+    children: children.filter((_, i) => i !== index),
+    innerContent: parent ? removeInnerContentSlot(parent.innerContent, index) : undefined
+  }));
+}
+
+/**
+ * Merge new attributes into the block at a path
+ */
+export function modifyBlockAt(blocks: any[], indices: number[], newAttrs: any): any[] {
+  const parentIndices = indices.slice(0, -1);
+  const index = indices[indices.length - 1];
+
+  return updateChildren(blocks, parentIndices, children => ({
+    children: children.map((block, i) => i === index ? mergeAttrs(block, newAttrs) : block)
+  }));
+}
+
+function mergeAttrs(block: any, newAttrs: any): any {
+  return {
+    ...block,
+    attrs: {
+      ...block.attrs,
+      ...newAttrs,
+      // NEVER modify these critical attributes
+      block_id: block.attrs?.block_id,
+      className: block.attrs?.className
+    }
+  };
+}
+
+/**
+ * Replace the block at a path
+ */
+export function replaceBlockAt(blocks: any[], indices: number[], newBlock: any): any[] {
+  const parentIndices = indices.slice(0, -1);
+  const index = indices[indices.length - 1];
+
+  return updateChildren(blocks, parentIndices, children => ({
+    children: children.map((block, i) => i === index ? newBlock : block)
+  }));
+}
+
+function isAncestorPath(ancestor: number[], indices: number[]): boolean {
+  return ancestor.length <= indices.length && ancestor.every((index, i) => indices[i] === index);
+}
+
+/**
+ * Move the block at a path into the children of a parent path at an index
+ * Parent path and index refer to the tree before the move
+ */
+export function moveBlockAt(
+  blocks: any[],
+  from: number[],
+  toParent: number[],
+  toIndex: number
+): any[] {
+  if (isAncestorPath(from, toParent)) {
+    throw new Error('Cannot move a block inside itself');
+  }
+
+  const block = getBlockAtPath(blocks, from);
+  if (!block) {
+    throw new Error(`No block found at path "${formatBlockPath(from)}"`);
+  }
+
+  const fromParent = from.slice(0, -1);
+  const fromIndex = from[from.length - 1];
+
+  // Removing the block shifts later siblings (and their descendants) up by one
+  const parent = [...toParent];
+  if (isAncestorPath(fromParent, parent) && parent.length > fromParent.length && parent[fromParent.length] > fromIndex) {
+    parent[fromParent.length] -= 1;
+  }
+
+  let index = toIndex;
+  if (formatBlockPath(fromParent) === formatBlockPath(toParent) && index > fromIndex) {
+    index -= 1;
+  }
+
+  return insertBlockAt(removeBlockAt(blocks, from), parent, index, block);
+}
+
+/**
+ * Swap the blocks at two paths
+ */
+export function swapBlocksAt(blocks: any[], first: number[], second: number[]): any[] {
+  if (isAncestorPath(first, second) || isAncestorPath(second, first)) {
+    throw new Error('Cannot swap a block with its own ancestor or descendant');
+  }
+
+  const firstBlock = getBlockAtPath(blocks, first);
+  const secondBlock = getBlockAtPath(blocks, second);
+  if (!firstBlock || !secondBlock) {
+    throw new Error('Both blocks must exist to swap them');
+  }
+
+  return replaceBlockAt(replaceBlockAt(blocks, first, secondBlock), second, firstBlock);
+}
+
+/**
+ * Collect the 4-hex part of every block_id in the tree
+ */
+function collectBlockIds(blocks: any[], ids: Set<string> = new Set()): Set<string> {
+  for (const block of blocks) {
+    if (typeof block.attrs?.block_id === 'string') {
+      ids.add(block.attrs.block_id.split('_')[0]);
+    }
+    if (block.innerBlocks && block.innerBlocks.length > 0) {
+      collectBlockIds(block.innerBlocks, ids);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Point the references to a block_id in markup at a new one: tpgb-block-*
+ * and tpgb-wrap-* classes (and selectors), and the values of id attributes
+ * and of the attributes that refer to ids. Other text that happens to
+ * contain the short hex id (colours, URLs) is left alone
+ */
+function replaceIdReferences(html: string, oldId: string, newId: string): string {
+  return html
+    .replace(new RegExp(`\\b(tpgb-(?:block|wrap)-)${oldId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w-])`, 'g'), (match, prefix: string) => prefix + newId)
+    .replace(/<[^>]*>/g, tag => tag.replace(
+      /(\s(?:id|for|aria-controls|aria-labelledby|aria-describedby)=")([^"]*)(")/g,
+      (attribute, open: string, value: string, close: string) => open + value.split(oldId).join(newId) + close
+    ));
+}
+
+/**
+ * Deep-copy a block giving it and all its descendants fresh block_ids
+ * The post ID suffix (e.g. "_42") is kept, and references to the old
+ * block_id in innerHTML/innerContent are updated (see replaceIdReferences)
+ */
+function cloneWithFreshIds(block: any, usedIds: Set<string>): any {
+  const clone = JSON.parse(JSON.stringify(block));
+  const oldId: string | undefined = clone.attrs?.block_id;
+
+  if (typeof oldId === 'string') {
+    let hex = generateBlockId();
+    while (usedIds.has(hex)) {
+      hex = generateBlockId();
+    }
+    usedIds.add(hex);
+
+    const [, suffix] = oldId.split('_');
+    const newId = suffix ? `${hex}_${suffix}` : hex;
+    clone.attrs.block_id = newId;
+
+    if (typeof clone.innerHTML === 'string') {
+      clone.innerHTML = replaceIdReferences(clone.innerHTML, oldId, newId);
+    }
+    if (Array.isArray(clone.innerContent)) {
+      clone.innerContent = clone.innerContent.map((chunk: any) =>
+        typeof chunk === 'string' ? replaceIdReferences(chunk, oldId, newId) : chunk
+      );
+    }
+  }
+
+  if (Array.isArray(clone.innerBlocks)) {
+    clone.innerBlocks = clone.innerBlocks.map((inner: any) => cloneWithFreshIds(inner, usedIds));
+  }
+
+  return clone;
+}
+
+/**
+ * Duplicate the block at a path, inserting the copy right after it
+ * Returns the updated tree and the copy's block_id
+ */
+export function duplicateBlockAt(blocks: any[], indices: number[]): { blocks: any[]; blockId?: string } {
+  const block = getBlockAtPath(blocks, indices);
+  if (!block) {
+    throw new Error(`No block found at path "${formatBlockPath(indices)}"`);
+  }
+
+  const copy = cloneWithFreshIds(block, collectBlockIds(blocks));
+  const parentIndices = indices.slice(0, -1);
+  const index = indices[indices.length - 1];
+
+  return {
+    blocks: insertBlockAt(blocks, parentIndices, index + 1, copy),
+    blockId: copy.attrs?.block_id
+  };
+}
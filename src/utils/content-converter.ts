@@ -0,0 +1,442 @@
+/**
+ * Content Converter Utility
+ *
+ * Converts Markdown or HTML copy into Nexter blocks: headings, paragraphs,
+ * images, button links, lists, quotes and <details> disclosures each map to
+ * their tpgb/ block; anything else is kept as paragraph HTML with a warning
+ */
+
+import { generateBlockId } from './block-formatter.js';
+
+export type SourceFormat = 'markdown' | 'html';
+
+export interface ConversionResult {
+  blocks: any[];
+  warnings: string[];
+}
+
+interface Element {
+  tag: string;
+  attributes: string;
+  inner: string;
+  outer: string;
+}
+
+/** Elements without a closing tag */
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/** Wrappers that carry no content of their own and are unwrapped */
+const WRAPPER_TAGS = new Set(['div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'body', 'html']);
+
+/** Elements dropped entirely */
+const DROPPED_TAGS = new Set(['script', 'style', 'head', 'template', 'noscript']);
+
+// Markdown
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttr(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline Markdown: code, images, links (with a {.button} class suffix), bold, italic
+ */
+function markdownInline(text: string): string {
+  const code: string[] = [];
+  let html = text.replace(/`([^`]+)`/g, (_, value) => {
+    code.push(`<code>${escapeHtml(value)}</code>`);
+    return `\uE000${code.length - 1}\uE000`;
+  });
+
+  html = html
+    .replace(/!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"([^"]*)")?\s*\)/g, (_, alt, src, title) =>
+      `<img src="${escapeAttr(src)}" alt="${escapeAttr(alt)}"${title ? ` title="${escapeAttr(title)}"` : ''}>`)
+    .replace(/\[([^\]]+)\]\(\s*(\S+?)(?:\s+"([^"]*)")?\s*\)(?:\{\s*\.([\w-]+)\s*\})?/g, (_, label, href, title, className) =>
+      `<a href="${escapeAttr(href)}"${title ? ` title="${escapeAttr(title)}"` : ''}${className ? ` class="${className}"` : ''}>${label}</a>`)
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+    .replace(/(\*|_)(?=\S)(.+?)(?<=\S)\1/g, '<em>$2</em>');
+
+  return html.replace(/\uE000(\d+)\uE000/g, (_, index) => code[Number(index)]);
+}
+
+/**
+ * Convert Markdown to HTML
+ *
+ * Covers ATX headings, paragraphs, lists, blockquotes, fenced code, rules and
+ * raw HTML blocks (kept as-is up to their closing tag, so <details> works)
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+  let index = 0;
+
+  const isListItem = (line: string) => /^\s*([-*+]|\d+[.)])\s+/.test(line);
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      const body: string[] = [];
+      for (index++; index < lines.length && !lines[index].trim().startsWith(fence[1]); index++) {
+        body.push(lines[index]);
+      }
+      index++;
+      output.push(`<pre><code>${escapeHtml(body.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    // Raw HTML block, up to its matching close tag
+    const htmlBlock = line.match(/^\s*<([a-z][a-z0-9]*)[\s>/]/i);
+    if (htmlBlock) {
+      const tag = htmlBlock[1].toLowerCase();
+      const body: string[] = [];
+      let depth = 0;
+      do {
+        const current = lines[index++];
+        body.push(current);
+        depth += (current.match(new RegExp(`<${tag}[\\s>]`, 'gi')) || []).length;
+        depth -= (current.match(new RegExp(`</${tag}>`, 'gi')) || []).length;
+      } while (index < lines.length && depth > 0 && !VOID_TAGS.has(tag));
+      output.push(body.join('\n'));
+      continue;
+    }
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      output.push(`<h${level}>${markdownInline(heading[2])}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      output.push('<hr>');
+      index++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const body: string[] = [];
+      for (; index < lines.length && /^\s*>/.test(lines[index]); index++) {
+        body.push(lines[index].replace(/^\s*>\s?/, ''));
+      }
+      output.push(`<blockquote>${markdownToHtml(body.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (isListItem(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      for (; index < lines.length && lines[index].trim(); index++) {
+        if (isListItem(lines[index])) {
+          items.push(lines[index].replace(/^\s*([-*+]|\d+[.)])\s+/, ''));
+        } else {
+          // Continuation line of the previous item
+          items[items.length - 1] += ` ${lines[index].trim()}`;
+        }
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      output.push(`<${tag}>${items.map(item => `<li>${markdownInline(item)}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; index < lines.length && lines[index].trim(); index++) {
+      const current = lines[index];
+      if (paragraph.length > 0 && (isListItem(current) || /^\s*(#{1,6}\s|>|```|~~~)/.test(current))) {
+        break;
+      }
+      paragraph.push(current.trim());
+    }
+    output.push(`<p>${markdownInline(paragraph.join(' '))}</p>`);
+  }
+
+  return output.join('\n');
+}
+
+// HTML
+
+/**
+ * Split HTML into its top-level elements; text between elements becomes a
+ * pseudo-element with an empty tag
+ */
+function splitElements(html: string): Element[] {
+  const elements: Element[] = [];
+  const openTag = /<([a-z][a-z0-9]*)(\s[^>]*?)?\s*(\/?)>|<!--[^]*?-->/gi;
+  let offset = 0;
+
+  const addText = (text: string) => {
+    if (text.trim()) {
+      elements.push({ tag: '', attributes: '', inner: text.trim(), outer: text.trim() });
+    }
+  };
+
+  for (let open = openTag.exec(html); open; open = openTag.exec(html)) {
+    const [token, rawTag, attributes = '', selfClosing] = open;
+
+    // Comments are dropped; inline elements stay in the surrounding text run
+    if (!rawTag) {
+      addText(html.slice(offset, open.index));
+      offset = open.index + token.length;
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (isInlineTag(tag)) {
+      continue;
+    }
+
+    addText(html.slice(offset, open.index));
+    const start = open.index + token.length;
+
+    if (selfClosing || VOID_TAGS.has(tag)) {
+      elements.push({ tag, attributes, inner: '', outer: token });
+      offset = start;
+      continue;
+    }
+
+    // Find the matching close tag, skipping nested elements of the same type
+    const tags = new RegExp(`<(/?)${tag}(?:\\s[^>]*)?>`, 'gi');
+    tags.lastIndex = start;
+    let depth = 1;
+    let end = html.length;
+    let close = html.length;
+    for (let next = tags.exec(html); next; next = tags.exec(html)) {
+      depth += next[1] ? -1 : 1;
+      if (depth === 0) {
+        end = next.index;
+        close = next.index + next[0].length;
+        break;
+      }
+    }
+
+    elements.push({ tag, attributes, inner: html.slice(start, end), outer: html.slice(open.index, close) });
+    offset = close;
+    openTag.lastIndex = close;
+  }
+
+  addText(html.slice(offset));
+  return elements;
+}
+
+function isInlineTag(tag: string): boolean {
+  return ['a', 'img', 'strong', 'b', 'em', 'i', 'u', 's', 'code', 'span', 'small', 'mark', 'sub', 'sup', 'br', 'abbr', 'cite', 'q', 'kbd', 'del', 'ins'].includes(tag);
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/** Links styled as buttons: a button/btn class or role="button" */
+const BUTTON_LINK = /^\s*<a(\s[^>]*)>([^]*?)<\/a>\s*$/i;
+
+function isButtonLink(attributes: string): boolean {
+  const className = getAttribute(attributes, 'class') || '';
+  return /(^|[\s_-])(button|btn)([\s_-]|$)/i.test(className) || getAttribute(attributes, 'role') === 'button';
+}
+
+class BlockBuilder {
+  readonly warnings: string[] = [];
+  private readonly usedIds = new Set<string>();
+
+  private block(blockName: string, attrs: Record<string, any>, innerBlocks: any[] = []): any {
+    let blockId = generateBlockId();
+    while (this.usedIds.has(blockId)) {
+      blockId = generateBlockId();
+    }
+    this.usedIds.add(blockId);
+
+    return { blockName, attrs: { block_id: blockId, ...attrs }, innerBlocks };
+  }
+
+  convert(html: string): any[] {
+    const blocks: any[] = [];
+    let accordion: any | null = null;
+
+    for (const element of splitElements(html)) {
+      if (element.tag === 'details') {
+        if (!accordion) {
+          // Editor mode renders the inner blocks; the default content mode shows its own repeater items
+          accordion = this.block('tpgb/tp-accordion', { accorType: 'editor', toggleIcon: true });
+          blocks.push(accordion);
+        }
+        accordion.innerBlocks.push(this.accordionItem(element, accordion.innerBlocks.length + 1));
+        continue;
+      }
+
+      accordion = null;
+      blocks.push(...this.element(element));
+    }
+
+    return blocks;
+  }
+
+  private element(element: Element): any[] {
+    const { tag, inner } = element;
+
+    if (!tag) {
+      return this.paragraph(inner);
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      return [this.block('tpgb/tp-heading', { title: inner.trim(), tTag: tag })];
+    }
+
+    if (tag === 'p') {
+      return this.paragraph(inner);
+    }
+
+    if (tag === 'figure') {
+      const image = inner.match(/<img(\s[^>]*?)\s*\/?>/i);
+      if (image) {
+        const caption = inner.match(/<figcaption[^>]*>([^]*?)<\/figcaption>/i)?.[1].trim();
+        return [this.image(image[1], caption)];
+      }
+    }
+
+    if (tag === 'ul' || tag === 'ol') {
+      return [this.list(tag, inner)];
+    }
+
+    if (tag === 'blockquote') {
+      // A single wrapping paragraph is unwrapped; the quote is its own block
+      const quote = inner.trim().replace(/^<p>((?:(?!<\/?p[\s>])[^])*)<\/p>$/i, '$1');
+      return [this.block('tpgb/tp-blockquote', { content: quote })];
+    }
+
+    if (WRAPPER_TAGS.has(tag)) {
+      return this.convert(inner);
+    }
+
+    if (DROPPED_TAGS.has(tag)) {
+      this.warnings.push(`Dropped <${tag}> element`);
+      return [];
+    }
+
+    if (tag === 'hr') {
+      this.warnings.push('Dropped <hr>: use tpgb/tp-empty-space or a divider block for separation');
+      return [];
+    }
+
+    this.warnings.push(`No Nexter block for <${tag}>; kept as paragraph HTML`);
+    return [this.block('tpgb/tp-pro-paragraph', { Showtitle: false, content: element.outer, descTag: 'div' })];
+  }
+
+  /**
+   * A paragraph, or a standalone image or button links when that's all it holds
+   */
+  private paragraph(inner: string): any[] {
+    const content = inner.trim();
+    if (!content) {
+      return [];
+    }
+
+    const image = content.match(/^(?:<a\s[^>]*>\s*)?<img(\s[^>]*?)\s*\/?>(?:\s*<\/a>)?$/i);
+    if (image) {
+      const link = content.match(/^<a(\s[^>]*)>/i);
+      return [this.image(image[1], undefined, link ? link[1] : undefined)];
+    }
+
+    const links = content.split(/(?<=<\/a>)\s*/i).filter(Boolean);
+    if (links.every(link => BUTTON_LINK.test(link) && isButtonLink(link.match(BUTTON_LINK)![1]))) {
+      return links.map(link => {
+        const [, attributes, label] = link.match(BUTTON_LINK)!;
+        return this.block('tpgb/tp-button', { btnText: label.trim(), btnLink: this.link(attributes) });
+      });
+    }
+
+    return [this.block('tpgb/tp-pro-paragraph', { Showtitle: false, content })];
+  }
+
+  private image(attributes: string, caption?: string, linkAttributes?: string): any {
+    const attrs: Record<string, any> = {
+      tImg: {
+        url: decodeEntities(getAttribute(attributes, 'src') || ''),
+        Id: '',
+        alt: decodeEntities(getAttribute(attributes, 'alt') || '')
+      }
+    };
+
+    if (caption) {
+      attrs.tiCap = 'custom';
+      attrs.ctmCap = caption;
+    }
+    if (linkAttributes) {
+      attrs.tiLink = this.link(linkAttributes);
+    }
+
+    return this.block('tpgb/tp-image', attrs);
+  }
+
+  private link(attributes: string): Record<string, string | boolean> {
+    const target = getAttribute(attributes, 'target');
+    const rel = getAttribute(attributes, 'rel') || '';
+    return {
+      url: decodeEntities(getAttribute(attributes, 'href') || ''),
+      target: target === '_blank' ? '_blank' : '',
+      nofollow: /nofollow/i.test(rel) ? true : ''
+    };
+  }
+
+  private list(tag: string, inner: string): any {
+    if (tag === 'ol') {
+      this.warnings.push('Ordered list converted to tpgb/tp-stylist-list; numbering is shown as icons');
+    }
+
+    const items = splitElements(inner)
+      .filter(element => element.tag === 'li')
+      .map((element, index) => ({
+        _key: String(index),
+        description: element.inner.trim(),
+        selectIcon: 'fontawesome',
+        iconFontawesome: 'fas fa-check-circle'
+      }));
+
+    return this.block('tpgb/tp-stylist-list', { listsRepeater: items });
+  }
+
+  /**
+   * One accordion item; index is 1-based, as the plugin numbers them
+   */
+  private accordionItem(element: Element, index: number): any {
+    const summary = element.inner.match(/<summary[^>]*>([^]*?)<\/summary>/i);
+    const body = summary ? element.inner.replace(summary[0], '') : element.inner;
+
+    return this.block(
+      'tpgb/tp-accordion-inner',
+      { title: summary ? summary[1].trim() : `Item ${index}`, index, toggleIcon: true },
+      this.convert(body)
+    );
+  }
+}
+
+/**
+ * Convert Markdown or HTML into a Nexter block tree with generated block IDs
+ */
+export function convertToBlocks(content: string, format: SourceFormat): ConversionResult {
+  const html = format === 'markdown' ? markdownToHtml(content) : content;
+  const builder = new BlockBuilder();
+  const blocks = builder.convert(html);
+
+  return { blocks, warnings: builder.warnings };
+}
@@ -0,0 +1,318 @@
+/**
+ * Content Exporter Utility
+ *
+ * Turns a Nexter block tree back into clean Markdown or semantic HTML for
+ * tools that don't understand block attributes (translation, SEO review).
+ * Text the editor keeps in markup (attributes with source: html) is read
+ * back from each block's innerHTML before its extractor runs
+ */
+
+import type { SchemaLoader } from '../services/schema-loader.js';
+import type { SourceFormat } from './content-converter.js';
+import { convertToBlocks } from './content-converter.js';
+import { isWhitespaceBlock } from './block-parser.js';
+
+/**
+ * Format-neutral content node produced by the block extractors
+ */
+export type ExportNode =
+  | { type: 'heading'; level: number; html: string }
+  | { type: 'paragraph'; html: string }
+  | { type: 'image'; src: string; alt: string; caption?: string }
+  | { type: 'button'; text: string; href: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'quote'; html: string; cite?: string }
+  | { type: 'details'; summary: string; children: ExportNode[] };
+
+export interface ExportResult {
+  content: string;
+  warnings: string[];
+}
+
+type Extractor = (attrs: Record<string, any>, children: () => ExportNode[]) => ExportNode[];
+
+/**
+ * Inner HTML of the first element matching a simple selector (tag, .class or tag.class)
+ */
+function simpleInnerHtml(html: string, selector: string): string | undefined {
+  const [, tag, classList] = selector.match(/^([a-z][a-z0-9]*)?((?:\.[\w-]+)*)$/i) || [];
+  const classes = (classList || '').split('.').filter(Boolean);
+
+  for (const open of html.matchAll(/<([a-z][a-z0-9]*)(\s[^>]*)?>/gi)) {
+    const [token, openTag, attributes = ''] = open;
+    const openClasses = (attributes.match(/class="([^"]*)"/)?.[1] || '').split(/\s+/);
+    if ((tag && tag.toLowerCase() !== openTag.toLowerCase()) || !classes.every(name => openClasses.includes(name))) {
+      continue;
+    }
+
+    // Find the matching close tag, skipping nested elements of the same type
+    const start = open.index! + token.length;
+    const tags = new RegExp(`<(/?)${openTag}(?:\\s[^>]*)?>`, 'gi');
+    tags.lastIndex = start;
+    let depth = 1;
+    for (let next = tags.exec(html); next; next = tags.exec(html)) {
+      depth += next[1] ? -1 : 1;
+      if (depth === 0) {
+        return html.slice(start, next.index);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Inner HTML of the first element matching a selector: simple selectors,
+ * descendants of them ("div.a p") and lists of those ("p, div"), where
+ * the first alternative that matches wins
+ */
+export function queryInnerHtml(html: string, selector: string): string | undefined {
+  for (const alternative of selector.split(',')) {
+    const value = alternative.trim().split(/\s+/).reduce<string | undefined>(
+      (scope, part) => (scope === undefined ? undefined : simpleInnerHtml(scope, part)),
+      html
+    );
+    if (value !== undefined) {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Block attributes with source: html values read from its markup
+ * (parse_blocks() leaves them out of attrs); explicit attrs win
+ */
+export function withSourcedAttributes(block: any, schemaLoader: SchemaLoader): Record<string, any> {
+  const attrs = { ...(block.attrs || {}) };
+  const html = String(block.innerHTML || '');
+  if (!block.blockName || !html) {
+    return attrs;
+  }
+
+  for (const [name, source] of Object.entries(schemaLoader.getAttributeSources(block.blockName))) {
+    if (attrs[name] !== undefined || source.source !== 'html' || !source.selector) {
+      continue;
+    }
+
+    const value = queryInnerHtml(html, source.selector);
+    if (value !== undefined) {
+      attrs[name] = value;
+    }
+  }
+
+  return attrs;
+}
+
+function headingLevel(tag: string | undefined): number | null {
+  const match = String(tag || '').match(/^h([1-6])$/);
+  return match ? Number(match[1]) : null;
+}
+
+function textOrHeading(html: string, tag: string | undefined): ExportNode {
+  const level = headingLevel(tag);
+  return level ? { type: 'heading', level, html } : { type: 'paragraph', html };
+}
+
+const extractors = new Map<string, Extractor>();
+
+function registerExtractor(blockName: string, extractor: Extractor): void {
+  extractors.set(blockName, extractor);
+}
+
+// Defaults mirror the block schemas: attributes left at their default are not saved
+
+registerExtractor('tpgb/tp-heading', attrs => [
+  textOrHeading(attrs.title ?? 'Add Your Heading Text Here', attrs.tTag || 'h3')
+]);
+
+registerExtractor('tpgb/tp-heading-title', attrs => [
+  textOrHeading(attrs.Title ?? 'Main Heading', attrs.titleType || 'h3'),
+  ...(attrs.subTitle ? [{ type: 'paragraph' as const, html: attrs.subTitle }] : [])
+]);
+
+registerExtractor('tpgb/tp-pro-paragraph', attrs => [
+  ...(attrs.Showtitle === false ? [] : [textOrHeading(attrs.title ?? 'Save the Earth for future Generations.', attrs.titleTag || 'h3')]),
+  ...(attrs.content ? [{ type: 'paragraph' as const, html: attrs.content }] : [])
+]);
+
+registerExtractor('tpgb/tp-image', attrs => {
+  const src = attrs.tImg?.url || attrs.url || '';
+  return src ? [{ type: 'image', src, alt: attrs.tImg?.alt || attrs.alt || '', caption: attrs.ctmCap || undefined }] : [];
+});
+
+registerExtractor('tpgb/tp-button', attrs => [
+  { type: 'button', text: attrs.btnText ?? 'Buy Now', href: attrs.btnLink?.url || '#' }
+]);
+
+registerExtractor('tpgb/tp-button-core', attrs => [
+  { type: 'button', text: attrs.btxt ?? 'Click Here', href: attrs.bLink?.url || '#' }
+]);
+
+registerExtractor('tpgb/tp-blockquote', attrs => [{
+  type: 'quote',
+  html: attrs.content ?? '',
+  cite: attrs.style === 'style-2' ? attrs.authorName ?? 'Steve Jobs' : undefined
+}]);
+
+registerExtractor('tpgb/tp-stylist-list', attrs => [{
+  type: 'list',
+  items: (attrs.listsRepeater || []).map((item: any) => item.description ?? 'List item')
+}]);
+
+registerExtractor('tpgb/tp-accordion-inner', (attrs, children) => [
+  { type: 'details', summary: attrs.title || '', children: children() }
+]);
+
+registerExtractor('tpgb/tp-tab-item', (attrs, children) => [
+  ...(attrs.tabinTitle ? [{ type: 'heading' as const, level: 3, html: attrs.tabinTitle }] : []),
+  ...children()
+]);
+
+// Layout only, no copy
+registerExtractor('tpgb/tp-empty-space', () => []);
+
+registerExtractor('tpgb/tp-infobox', attrs => [
+  textOrHeading(attrs.Title ?? 'Amazing Feature', 'h3'),
+  ...(attrs.Description ? [{ type: 'paragraph' as const, html: attrs.Description }] : [])
+]);
+
+registerExtractor('tpgb/tp-cta-banner', attrs => [
+  textOrHeading(attrs.Title ?? 'Exclusive Offers', 'h3'),
+  { type: 'paragraph', html: attrs.subTitle ?? 'Never Before' },
+  ...(attrs.desc ? [{ type: 'paragraph' as const, html: attrs.desc }] : [])
+]);
+
+registerExtractor('tpgb/tp-messagebox', attrs => [
+  textOrHeading(attrs.Title ?? 'Special Alert message for you.', 'h4'),
+  ...(attrs.descText ? [{ type: 'paragraph' as const, html: attrs.descText }] : [])
+]);
+
+/**
+ * Walk a block tree into content nodes
+ *
+ * Nexter blocks use their extractor, or their inner blocks when they have
+ * none; core and freeform blocks already hold semantic HTML, which goes
+ * through the importer so it comes out normalized like everything else
+ */
+export function extractNodes(blocks: any[], schemaLoader: SchemaLoader, warnings: string[] = []): ExportNode[] {
+  const nodes: ExportNode[] = [];
+
+  for (const block of blocks) {
+    if (isWhitespaceBlock(block)) {
+      continue;
+    }
+
+    const children = () => extractNodes(block.innerBlocks || [], schemaLoader, warnings);
+    const extractor = extractors.get(block.blockName);
+
+    if (extractor) {
+      nodes.push(...extractor(withSourcedAttributes(block, schemaLoader), children));
+    } else if (block.innerBlocks?.length > 0) {
+      nodes.push(...children());
+    } else if (!block.blockName?.startsWith('tpgb/')) {
+      nodes.push(...extractNodes(convertToBlocks(String(block.innerHTML || ''), 'html').blocks, schemaLoader, warnings));
+    } else {
+      warnings.push(`No extractor for ${block.blockName}; its content was not exported`);
+    }
+  }
+
+  return nodes;
+}
+
+// Rendering
+
+/** HTML that already contains block-level elements isn't wrapped in a paragraph */
+const BLOCK_HTML = /<(p|div|table|ul|ol|pre|blockquote|h[1-6]|figure|section|details)[\s>]/i;
+
+function escapeAttr(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Inline HTML to Markdown: emphasis, links, code and line breaks; other tags are dropped
+ */
+function inlineMarkdown(html: string): string {
+  const markdown = html
+    .replace(/<br\s*\/?>/gi, '  \n')
+    .replace(/<(strong|b)(?:\s[^>]*)?>([^]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)(?:\s[^>]*)?>([^]*?)<\/\1>/gi, '*$2*')
+    .replace(/<code(?:\s[^>]*)?>([^]*?)<\/code>/gi, '`$1`')
+    .replace(/<a\s[^>]*?href="([^"]*)"[^>]*>([^]*?)<\/a>/gi, '[$2]($1)')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(markdown).replace(/[ \t]+/g, ' ').trim();
+}
+
+function nodeToMarkdown(node: ExportNode): string {
+  switch (node.type) {
+    case 'heading':
+      return `${'#'.repeat(node.level)} ${inlineMarkdown(node.html)}`;
+    case 'paragraph':
+      // Block-level HTML (tables, embedded markup) is valid Markdown as-is
+      return BLOCK_HTML.test(node.html) ? node.html.trim() : inlineMarkdown(node.html);
+    case 'image': {
+      const image = `![${node.alt}](${node.src})`;
+      return node.caption ? `${image}\n*${inlineMarkdown(node.caption)}*` : image;
+    }
+    case 'button':
+      return `[${inlineMarkdown(node.text)}](${node.href}){.button}`;
+    case 'list':
+      return node.items.map(item => `- ${inlineMarkdown(item)}`).join('\n');
+    case 'quote': {
+      const lines = [inlineMarkdown(node.html), ...(node.cite ? ['', `— ${inlineMarkdown(node.cite)}`] : [])];
+      return lines.map(line => (line ? `> ${line}` : '>')).join('\n');
+    }
+    case 'details': {
+      const body = nodesToMarkdown(node.children);
+      return `<details>\n<summary>${inlineMarkdown(node.summary)}</summary>\n\n${body ? `${body}\n\n` : ''}</details>`;
+    }
+  }
+}
+
+function nodesToMarkdown(nodes: ExportNode[]): string {
+  return nodes.map(nodeToMarkdown).filter(Boolean).join('\n\n');
+}
+
+function nodeToHtml(node: ExportNode): string {
+  switch (node.type) {
+    case 'heading':
+      return `<h${node.level}>${node.html}</h${node.level}>`;
+    case 'paragraph':
+      return BLOCK_HTML.test(node.html) ? node.html.trim() : `<p>${node.html}</p>`;
+    case 'image': {
+      const image = `<img src="${escapeAttr(node.src)}" alt="${escapeAttr(node.alt)}">`;
+      return node.caption ? `<figure>${image}<figcaption>${node.caption}</figcaption></figure>` : image;
+    }
+    case 'button':
+      return `<p><a class="button" href="${escapeAttr(node.href)}">${node.text}</a></p>`;
+    case 'list':
+      return `<ul>${node.items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+    case 'quote':
+      return `<blockquote><p>${node.html}</p>${node.cite ? `<cite>${node.cite}</cite>` : ''}</blockquote>`;
+    case 'details':
+      return `<details><summary>${node.summary}</summary>${node.children.map(nodeToHtml).join('\n')}</details>`;
+  }
+}
+
+/**
+ * Export a block tree (as returned by the plugin or parseBlocks()) to Markdown or HTML
+ */
+export function exportBlocks(blocks: any[], format: SourceFormat, schemaLoader: SchemaLoader): ExportResult {
+  const warnings: string[] = [];
+  const nodes = extractNodes(blocks, schemaLoader, warnings);
+  const content = format === 'markdown' ? nodesToMarkdown(nodes) : nodes.map(nodeToHtml).join('\n');
+
+  return { content, warnings };
+}
@@ -43,7 +43,7 @@ function getErrorType(errorCode: ErrorCode): ErrorType {
   if (errorCode.startsWith('INVALID_') || errorCode.startsWith('MISSING_') || errorCode.startsWith('TYPE_')) {
     return 'validation_error';
   }
-  if (errorCode.includes('WORDPRESS') || errorCode.includes('POST') || errorCode.includes('PERMISSION')) {
+  if (errorCode.includes('WORDPRESS') || errorCode.includes('POST') || errorCode.includes('SITE') || errorCode.includes('PERMISSION')) {
     return 'wordpress_error';
   }
   if (errorCode.includes('SCHEMA')) {
@@ -52,7 +52,7 @@ function getErrorType(errorCode: ErrorCode): ErrorType {
   if (errorCode.includes('CONNECTION') || errorCode.includes('TIMEOUT') || errorCode.includes('RATE_LIMIT')) {
     return 'network_error';
   }
-  if (errorCode.includes('AUTHORIZATION') || errorCode.includes('PERMISSION')) {
+  if (errorCode.includes('AUTH') || errorCode.includes('SCOPE') || errorCode.includes('PERMISSION')) {
     return 'authorization_error';
   }
   return 'validation_error';
@@ -216,6 +216,84 @@ block.attrs.${details?.field} = ${details?.expected || '...'};
         }]
       }];
 
+    case 'POST_EDIT_CONFLICT':
+      return [{
+        description: 'The post was changed by someone else after it was loaded - reload and reapply your edit',
+        severity: 'required',
+        automated: false,
+        steps: [{
+          action: 'Reload the post with analyze_content, then repeat edit_content against the fresh content',
+          code_example: `
+// 1. Inspect the current structure
+{
+  "tool": "analyze_content",
+  "arguments": { "post_id": 42 }
+}
+
+// 2. Re-run the edit (block_ids and paths may have changed)
+{
+  "tool": "edit_content",
+  "arguments": { "post_id": 42, "operations": [...] }
+}
+`
+        }]
+      }];
+
+    case 'SITE_NOT_FOUND':
+      return [{
+        description: 'Target a site registered on this server',
+        severity: 'required',
+        automated: false,
+        steps: [{
+          action: details?.suggestions?.[0]
+            ? `Use site "${details.suggestions[0]}" or another name from list_sites`
+            : 'Call list_sites and pass one of the returned names as "site"',
+          field: 'site',
+          current_value: details?.received,
+          correct_value: details?.suggestions?.[0]
+        }]
+      }];
+
+    case 'AUTHORIZATION_DENIED':
+      return [{
+        description: 'This action is not allowed by the server configuration',
+        severity: 'required',
+        automated: false,
+        steps: [{
+          action: details?.suggestions?.[0] || 'Use an allowed action or ask the server administrator to allow it',
+          field: details?.field,
+          current_value: details?.received,
+          correct_value: details?.expected
+        }]
+      }];
+
+    case 'AUTHENTICATION_REQUIRED':
+      return [{
+        description: 'Authenticate the request with a configured bearer token or HMAC signature',
+        severity: 'required',
+        automated: false,
+        steps: [{
+          action: 'Send "Authorization: Bearer <token>" with a token from MCP_AUTH_TOKENS',
+          code_example: 'Authorization: Bearer <token>'
+        }, {
+          action: 'Or sign the request: X-MCP-Timestamp is the unix time in seconds, X-MCP-Signature is "sha256=" + hex HMAC-SHA256 with MCP_HMAC_SECRET of timestamp, method, path, Mcp-Session-Id (empty before initialize) and raw body joined with newlines. Each signature is accepted once',
+          code_example: 'X-MCP-Timestamp: 1767225600\nX-MCP-Signature: sha256=<hex digest>'
+        }]
+      }];
+
+    case 'INSUFFICIENT_SCOPE':
+      return [{
+        description: `Use credentials with the ${details?.expected || 'required'} scope`,
+        severity: 'required',
+        automated: false,
+        steps: [{
+          action: 'Ask the server administrator to add the scope to your token in MCP_AUTH_TOKENS (or MCP_HMAC_SCOPES)',
+          field: details?.field,
+          current_value: details?.received,
+          correct_value: details?.expected
+        }]
+      }];
+
     case 'SCHEMA_NOT_FOUND':
       return [{
         description: 'Block schema not found - block may not be registered',
@@ -238,6 +316,67 @@ block.attrs.${details?.field} = ${details?.expected || '...'};
         }
       }];
 
+    case 'TEMPLATE_NOT_FOUND':
+      return [{
+        description: 'Use a template from the section library',
+        severity: 'required',
+        automated: false,
+        steps: [{
+          action: details?.suggestions?.[0]
+            ? `Use template "${details.suggestions[0]}"`
+            : `Pass one of: ${details?.expected || 'the templates listed in the instantiate_template description'}`,
+          field: 'template',
+          current_value: details?.received,
+          correct_value: details?.suggestions?.[0]
+        }]
+      }];
+
+    case 'INVALID_TEMPLATE_SLOTS':
+      return [{
+        description: 'Fill the template slots as described',
+        severity: 'required',
+        automated: false,
+        steps: (details?.suggestions || []).map(problem => ({
+          action: problem,
+          field: 'slots'
+        }))
+      }];
+
+    case 'INVALID_SCHEMA_FORMAT':
+      return [{
+        description: 'Fix the schema files that failed to load, then reload again',
+        severity: 'required',
+        automated: false,
+        steps: (details?.suggestions || []).map(problem => ({
+          action: `Fix ${problem}`,
+          field: problem.split(':')[0]
+        }))
+      }];
+
+    case 'SCHEMA_VALIDATION_FAILED':
+      return [{
+        description: details?.suggestions?.length
+          ? `Use an attribute defined in the ${details?.block_name || 'block'} schema`
+          : `Set ${details?.attribute || 'attribute'} to a value allowed by the schema`,
+        severity: 'required',
+        automated: false,
+        steps: [{
+          action: 'Check the block schema with get_block_schemas and correct the attribute',
+          field: details?.field,
+          current_value: details?.received,
+          correct_value: details?.suggestions?.[0] || details?.expected,
+          code_example: `
+// Look up valid attribute names, types and allowed values
+{
+  "tool": "get_block_schemas",
+  "arguments": {
+    "block_names": ["${details?.block_name || 'tpgb/tp-heading'}"]
+  }
+}
+`
+        }]
+      }];
+
     case 'WORDPRESS_API_ERROR':
       return [{
         description: 'WordPress REST API returned an error',
@@ -422,6 +561,171 @@ export function invalidBlockIdError(
   );
 }
 
+/**
+ * Enum mismatch error helper
+ */
+export function enumMismatchError(
+  attribute: string,
+  allowed: any[],
+  received: any,
+  blockName: string
+): StructuredError {
+  return createError(
+    'SCHEMA_VALIDATION_FAILED',
+    `Invalid value for ${attribute}: "${received}" is not one of the allowed values`,
+    {
+      field: `attrs.${attribute}`,
+      attribute,
+      block_name: blockName,
+      expected: allowed.map(v => JSON.stringify(v)).join(' | '),
+      received: String(received)
+    }
+  );
+}
+
+/**
+ * Pattern mismatch error helper
+ */
+export function patternMismatchError(
+  attribute: string,
+  pattern: string,
+  received: string,
+  blockName: string
+): StructuredError {
+  return createError(
+    'SCHEMA_VALIDATION_FAILED',
+    `Invalid value for ${attribute}: "${received}" does not match pattern ${pattern}`,
+    {
+      field: `attrs.${attribute}`,
+      attribute,
+      block_name: blockName,
+      expected: `string matching ${pattern}`,
+      received
+    }
+  );
+}
+
+/**
+ * Unknown attribute error helper (in neither the schema nor the plugin)
+ */
+export function unknownAttributeError(
+  attribute: string,
+  blockName: string,
+  suggestions: string[]
+): StructuredError {
+  return createError(
+    'SCHEMA_VALIDATION_FAILED',
+    `Unknown attribute "${attribute}" for block "${blockName}": the plugin does not register it` +
+      (suggestions.length > 0 ? ` - did you mean "${suggestions[0]}"?` : ''),
+    {
+      field: `attrs.${attribute}`,
+      attribute,
+      block_name: blockName,
+      received: attribute,
+      suggestions
+    }
+  );
+}
+
+/**
+ * Create insufficient scope error
+ */
+export function insufficientScopeError(
+  toolName: string,
+  requiredScope: string,
+  grantedScopes: string[]
+): StructuredError {
+  return createError(
+    'INSUFFICIENT_SCOPE',
+    `Tool "${toolName}" requires the ${requiredScope} scope`,
+    {
+      field: 'scope',
+      expected: requiredScope,
+      received: grantedScopes.join(', ') || 'none'
+    },
+    {
+      operation: toolName,
+      input: null,
+      failed_at: 'authorization'
+    }
+  );
+}
+
+/**
+ * Create unknown site error
+ */
+export function siteNotFoundError(site: string, available: string[]): StructuredError {
+  const lower = site.toLowerCase();
+  const similar = available.filter(name =>
+    name.toLowerCase().includes(lower) || lower.includes(name.toLowerCase())
+  );
+
+  return createError(
+    'SITE_NOT_FOUND',
+    `Unknown site: ${site}`,
+    {
+      field: 'site',
+      received: site,
+      expected: available.join(' | '),
+      suggestions: similar
+    }
+  );
+}
+
+/**
+ * Create unknown template error
+ */
+export function templateNotFoundError(template: string, available: string[]): StructuredError {
+  const lower = template.toLowerCase();
+  const similar = available.filter(name =>
+    name.includes(lower) || lower.includes(name) || name.split('-')[0] === lower.split('-')[0]
+  );
+
+  return createError(
+    'TEMPLATE_NOT_FOUND',
+    `Unknown template: ${template}`,
+    {
+      field: 'template',
+      received: template,
+      expected: available.join(' | '),
+      suggestions: similar
+    }
+  );
+}
+
+/**
+ * Create template slot error (one suggestion per problem)
+ */
+export function invalidTemplateSlotsError(template: string, problems: string[]): StructuredError {
+  return createError(
+    'INVALID_TEMPLATE_SLOTS',
+    `Invalid slots for template "${template}": ${problems.join('; ')}`,
+    {
+      field: 'slots',
+      suggestions: problems
+    }
+  );
+}
+
+/**
+ * Create rejected schema reload error (one suggestion per invalid file)
+ */
+export function schemaReloadRejectedError(problems: string[], changes: any): StructuredError {
+  return createError(
+    'INVALID_SCHEMA_FORMAT',
+    `Schema reload rejected, the previous schemas stay loaded: ${problems.join('; ')}`,
+    {
+      field: 'schemas',
+      suggestions: problems
+    },
+    {
+      operation: 'reload_schemas',
+      input: changes,
+      failed_at: 'validation'
+    }
+  );
+}
+
 /**
  * WordPress API error helper
  */
@@ -6,12 +6,16 @@
 
 import { randomBytes } from 'crypto';
 import { StructuredError } from '../types/errors.js';
+import { SchemaLoader } from '../services/schema-loader.js';
 import {
   missingBlockIdError,
   invalidBlockIdError,
   invalidBlockNameError,
   missingFieldError,
-  validationError
+  validationError,
+  enumMismatchError,
+  patternMismatchError,
+  unknownAttributeError
 } from './error-handler.js';
 
 export interface ValidationResult {
@@ -249,6 +253,235 @@ export function validateAttributeType(
   return null;
 }
 
+/**
+ * Attributes every block accepts regardless of its own schema:
+ * WordPress block supports and Nexter global options
+ */
+const UNIVERSAL_ATTRIBUTES = new Set([
+  'className',
+  'anchor',
+  'align',
+  'lock',
+  'metadata',
+  'style',
+  'saveGlobalStyle',
+  'saveGlobalStyleClass',
+  'contentHoverEffect',
+  'selectHoverEffect',
+  'contentHoverColor',
+  'customWidth',
+  'gloabhorizoOri',
+  'gloabverticalOri',
+  'tpgbDisrule',
+  'disRule',
+  'displayRules'
+]);
+
+function isUniversalAttribute(name: string): boolean {
+  return UNIVERSAL_ATTRIBUTES.has(name) || name.startsWith('global');
+}
+
+/**
+ * Validate block attributes against the attribute definitions of its schema
+ * Types, enums and patterns are errors, and so are attributes the plugin
+ * doesn't register (a misspelled "tag" for "tTag" would be dropped by the
+ * editor); attributes it registers that the curated schema lacks are only
+ * warnings, since the curated schemas don't list every one of them
+ */
+export function validateBlockAttributes(
+  block: any,
+  schema: any,
+  schemaLoader: SchemaLoader
+): ValidationResult {
+  const errors: StructuredError[] = [];
+  const warnings: string[] = [];
+  const definitions: Record<string, any> = schema?.attributes || {};
+  const attrs = block.attrs;
+
+  if (!attrs || typeof attrs !== 'object' || Array.isArray(attrs)) {
+    return { valid: true, errors, warnings };
+  }
+
+  for (const [name, value] of Object.entries(attrs)) {
+    // block_id format is covered by the structural checks in validateBlock
+    if (name === 'block_id' || value === null || value === undefined) {
+      continue;
+    }
+
+    let definition = definitions[name];
+    if (!definition) {
+      if (isUniversalAttribute(name)) {
+        continue;
+      }
+
+      const registered = schemaLoader.getRegisteredAttributes(block.blockName);
+      if (registered && !registered.has(name)) {
+        const known = [...new Set([...Object.keys(definitions), ...registered])];
+        errors.push(unknownAttributeError(name, block.blockName, getSuggestedAttributeNames(name, known)));
+      } else {
+        const suggestions = getSuggestedAttributeNames(name, Object.keys(definitions));
+        warnings.push(
+          `Unknown attribute "${name}" for block "${block.blockName}"` +
+          (suggestions.length > 0 ? ` - did you mean "${suggestions[0]}"?` : ' - not in its schema, check the name with get_block_schemas')
+        );
+      }
+      continue;
+    }
+
+    // Attributes built from common definitions take their type from the definition
+    if (definition.$ref) {
+      definition = { ...schemaLoader.resolveRef(definition.$ref), ...definition };
+    }
+
+    if (definition.type) {
+      const typeError = validateAttributeType(value, definition.type, name, block.blockName);
+      if (typeError) {
+        typeError.details = { ...typeError.details, field: `attrs.${name}` };
+        errors.push(typeError);
+        continue;
+      }
+    }
+
+    if (Array.isArray(definition.enum) && typeof value !== 'object' && !definition.enum.includes(value)) {
+      errors.push(enumMismatchError(name, definition.enum, value, block.blockName));
+    }
+
+    if (definition.pattern && typeof value === 'string' && !new RegExp(definition.pattern).test(value)) {
+      errors.push(patternMismatchError(name, definition.pattern, value, block.blockName));
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validate a block tree against the Nexter block schemas
+ * Schemas are loaded once per block type (core + styling levels)
+ */
+export async function validateBlocksAgainstSchemas(
+  blocks: any[],
+  schemaLoader: SchemaLoader
+): Promise<ValidationResult> {
+  const errors: StructuredError[] = [];
+  const warnings: string[] = [];
+  const schemas = new Map<string, any>();
+
+  const visit = async (list: any[], path: string) => {
+    for (let index = 0; index < list.length; index++) {
+      const block = list[index];
+      const blockPath = `${path}[${index}]`;
+
+      if (!block || typeof block.blockName !== 'string') {
+        continue;
+      }
+
+      if (block.blockName.startsWith('tpgb/')) {
+        if (!schemas.has(block.blockName)) {
+          schemas.set(
+            block.blockName,
+            await schemaLoader.getBlockSchema(block.blockName, ['core', 'styling'], false)
+          );
+        }
+
+        const schema = schemas.get(block.blockName);
+        if (!schema) {
+          warnings.push(`No schema found for ${block.blockName} at ${blockPath} - attributes not checked`);
+        } else {
+          const result = validateBlockAttributes(block, schema, schemaLoader);
+          result.errors.forEach(error => {
+            error.details = {
+              ...error.details,
+              field: `${blockPath}.${error.details?.field || 'attrs'}`
+            };
+            errors.push(error);
+          });
+          warnings.push(...result.warnings.map(warning => `${warning} at ${blockPath}`));
+        }
+      }
+
+      if (Array.isArray(block.innerBlocks) && block.innerBlocks.length > 0) {
+        await visit(block.innerBlocks, `${blockPath}.innerBlocks`);
+      }
+    }
+  };
+
+  if (Array.isArray(blocks)) {
+    await visit(blocks, 'blocks');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Validate block structure and, when a schema loader is available,
+ * attributes against the block schemas
+ */
+export async function validateBlocksWithSchemas(
+  blocks: any[],
+  schemaLoader: SchemaLoader
+): Promise<ValidationResult> {
+  const structural = validateBlocks(blocks);
+  if (!Array.isArray(blocks)) {
+    return structural;
+  }
+
+  const schemaResult = await validateBlocksAgainstSchemas(blocks, schemaLoader);
+
+  return {
+    valid: structural.valid && schemaResult.valid,
+    errors: [...structural.errors, ...schemaResult.errors],
+    warnings: [...structural.warnings, ...schemaResult.warnings]
+  };
+}
+
+/**
+ * Suggest schema attribute names close to a misspelled one
+ */
+function getSuggestedAttributeNames(input: string, known: string[]): string[] {
+  const lower = input.toLowerCase();
+
+  return known
+    .map(name => {
+      const candidate = name.toLowerCase();
+      let score = levenshtein(lower, candidate);
+      if (candidate.includes(lower) || lower.includes(candidate)) {
+        score = Math.min(score, Math.abs(candidate.length - lower.length));
+      }
+      return { name, score };
+    })
+    .filter(({ score }) => score <= Math.max(2, Math.floor(lower.length / 2)))
+    .sort((a, b) => a.score - b.score)
+    .slice(0, 3)
+    .map(({ name }) => name);
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
 /**
  * Auto-fix common issues
  */
@@ -0,0 +1,137 @@
+/**
+ * Schema Budget Utility
+ *
+ * Loads staged block schemas level by level within a token budget: meta and
+ * core for every block first, then styling, then examples, so a request for
+ * many blocks degrades to their attributes instead of overflowing the context
+ */
+
+import type { SchemaLevel, SchemaLoader } from '../services/schema-loader.js';
+
+/** Rough size of a token in characters of JSON */
+const CHARS_PER_TOKEN = 4;
+
+/** Order levels are filled in; later levels are dropped first */
+const LEVEL_PRIORITY: SchemaLevel[] = ['meta', 'core', 'styling', 'examples'];
+
+export interface SchemaOmission {
+  blockName: string;
+  /** Requested levels left out to stay within the budget */
+  levels: SchemaLevel[];
+  /** Estimated tokens those levels would have taken */
+  tokens: number;
+}
+
+export interface BudgetedSchemas {
+  schemas: any[];
+  /** Levels returned for each block */
+  included: Record<string, SchemaLevel[]>;
+  omitted: SchemaOmission[];
+  /** Requested blocks without a schema */
+  notFound: string[];
+  /** Estimated tokens of the returned schemas */
+  tokens: number;
+}
+
+/**
+ * Estimate the tokens a value takes in a tool response (indentation aside)
+ */
+export function estimateTokens(value: any): number {
+  return Math.ceil((JSON.stringify(value) || '').length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Load schemas for the requested levels ("full" stands for all staged levels),
+ * dropping the lowest-priority levels that don't fit in maxTokens
+ */
+export async function loadSchemasWithinBudget(
+  blockNames: string[],
+  schemaLoader: SchemaLoader,
+  levels: SchemaLevel[],
+  maxTokens: number
+): Promise<BudgetedSchemas> {
+  const requested = levels.includes('full') ? LEVEL_PRIORITY : LEVEL_PRIORITY.filter(level => levels.includes(level));
+
+  // Estimated size of each level of each block
+  const sizes = new Map<string, Map<SchemaLevel, number>>();
+  const notFound: string[] = [];
+  for (const blockName of [...new Set(blockNames)]) {
+    const available = schemaLoader.getSchemaLevels(blockName);
+    const blockSizes = new Map<SchemaLevel, number>();
+
+    if (available.length === 0) {
+      // Legacy flat schemas come whole
+      const schema = await schemaLoader.getBlockSchema(blockName, ['full'], true);
+      if (schema) {
+        blockSizes.set('full', estimateTokens(schema));
+      }
+    } else {
+      for (const level of requested.filter(level => available.includes(level))) {
+        blockSizes.set(level, estimateTokens(await schemaLoader.getBlockSchema(blockName, [level], true)));
+      }
+    }
+
+    if (blockSizes.size > 0) {
+      sizes.set(blockName, blockSizes);
+    } else {
+      notFound.push(blockName);
+    }
+  }
+
+  // Fill level by level across all blocks; a block only gets a level once it has the ones before
+  const included = new Map<string, SchemaLevel[]>([...sizes.keys()].map(blockName => [blockName, []]));
+  const added: string[] = [];
+  let used = 0;
+  for (const level of ['full' as SchemaLevel, ...LEVEL_PRIORITY]) {
+    for (const [blockName, blockSizes] of sizes) {
+      const size = blockSizes.get(level);
+      const blockLevels = included.get(blockName)!;
+      const complete = [...blockSizes.keys()].filter(other => LEVEL_PRIORITY.indexOf(other) < LEVEL_PRIORITY.indexOf(level))
+        .every(other => blockLevels.includes(other));
+
+      if (size !== undefined && complete && used + size <= maxTokens) {
+        blockLevels.push(level);
+        added.push(blockName);
+        used += size;
+      }
+    }
+  }
+
+  const load = async () => {
+    const loaded: any[] = [];
+    for (const [blockName, blockLevels] of included) {
+      if (blockLevels.length > 0) {
+        loaded.push(await schemaLoader.getBlockSchema(blockName, blockLevels, true));
+      }
+    }
+    return loaded;
+  };
+
+  // Merged levels are estimated separately, so drop the last additions if the result runs over
+  let schemas = await load();
+  while (added.length > 0 && estimateTokens(schemas) > maxTokens) {
+    included.get(added.pop()!)!.pop();
+    schemas = await load();
+  }
+
+  const omitted: SchemaOmission[] = [];
+  for (const [blockName, blockLevels] of included) {
+    const blockSizes = sizes.get(blockName)!;
+    const missing = [...blockSizes.keys()].filter(level => !blockLevels.includes(level));
+    if (missing.length > 0) {
+      omitted.push({
+        blockName,
+        levels: missing,
+        tokens: missing.reduce((total, level) => total + blockSizes.get(level)!, 0)
+      });
+    }
+  }
+
+  return {
+    schemas,
+    included: Object.fromEntries([...included].filter(([, blockLevels]) => blockLevels.length > 0)),
+    omitted,
+    notFound,
+    tokens: estimateTokens(schemas)
+  };
+}
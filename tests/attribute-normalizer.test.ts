@@ -0,0 +1,90 @@
+/**
+ * Attribute Normalizer Tests
+ *
+ * Expanding must fill in registered defaults and minimizing must drop them
+ * again, so saved blocks carry only what differs from the defaults
+ */
+
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { normalizeAttributes, normalizeBlocks } from '../src/utils/attribute-normalizer.js';
+import { preprocessBlocks } from '../src/utils/block-formatter.js';
+
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+
+const heading = (attrs: Record<string, any>) => ({ blockName: 'tpgb/tp-heading', attrs: { block_id: 'a3f2', ...attrs } });
+
+describe('normalizeAttributes', () => {
+  it('drops values equal to their default regardless of key order', () => {
+    const { attrs, changed } = normalizeAttributes(
+      { block_id: '', link: { target: '', url: '' }, tag: 'h2' },
+      { block_id: '', link: { url: '', target: '' }, tag: 'h3' },
+      'minimize'
+    );
+
+    expect(attrs).toEqual({ block_id: '', tag: 'h2' });
+    expect(changed).toEqual(['link']);
+  });
+});
+
+describe('normalizeBlocks', () => {
+  it('expands blocks to every attribute with a default', () => {
+    const { blocks, changes } = normalizeBlocks([heading({ title: 'Hello' })], schemaLoader, 'expand');
+
+    expect(blocks[0].attrs).toMatchObject({ block_id: 'a3f2', title: 'Hello', tTag: 'h3', tLink: { url: '', target: '', nofollow: '' } });
+    expect(changes[0].path).toBe('0');
+    expect(changes[0].attributes).toContain('tTag');
+    expect(changes[0].attributes).not.toContain('title');
+  });
+
+  it('minimizes expanded blocks back to what was set, including inner blocks', () => {
+    const original = [{ blockName: 'core/group', attrs: {}, innerBlocks: [heading({ title: 'Hello', tTag: 'h2' })] }];
+    const expanded = normalizeBlocks(original, schemaLoader, 'expand').blocks;
+    const { blocks, changes } = normalizeBlocks(expanded, schemaLoader, 'minimize');
+
+    expect(blocks).toEqual(original);
+    expect(changes.map(change => change.path)).toEqual(['0.innerBlocks.0']);
+  });
+});
+
+describe('preprocessBlocks', () => {
+  it('leaves defaults out of saved attributes', () => {
+    const { formatted } = preprocessBlocks([heading({ title: 'Hello', tTag: 'h3', tLink: { url: '', target: '', nofollow: '' } })], schemaLoader);
+
+    expect(formatted[0].attrs).toEqual({ block_id: 'a3f2', title: 'Hello' });
+    expect(formatted[0].innerHTML).toContain('Hello');
+  });
+
+  it('minimizes against the registered defaults, not the curated schema ones', () => {
+    const { formatted } = preprocessBlocks([
+      { blockName: 'tpgb/tp-container', attrs: { block_id: 'c1a0', animdur: '3' } },
+      { blockName: 'tpgb/tp-container', attrs: { block_id: 'c2b1', animdur: 3 } },
+      { blockName: 'tpgb/tp-pro-paragraph', attrs: { block_id: 'p3c2', content: '' } }
+    ], schemaLoader);
+
+    expect(formatted.map(block => block.attrs)).toEqual([
+      { block_id: 'c1a0', animdur: '3' },
+      { block_id: 'c2b1' },
+      { block_id: 'p3c2', content: '' }
+    ]);
+  });
+
+  it('passes blocks already saved in the post through untouched', () => {
+    const saved = {
+      blockName: 'tpgb/tp-heading',
+      attrs: { block_id: 'b7e1', title: 'Saved', tTag: 'h3' },
+      innerBlocks: [],
+      innerHTML: '<h3 class="tp-core-heading">Saved</h3>',
+      innerContent: ['<h3 class="tp-core-heading">Saved</h3>']
+    };
+    const existing = [{ blockName: 'core/group', attrs: {}, innerBlocks: [saved], innerHTML: '<div></div>', innerContent: ['<div>', null, '</div>'] }];
+    const edited = [
+      { ...existing[0], innerBlocks: [{ ...saved, attrs: { ...saved.attrs } }, heading({ title: 'New', tTag: 'h3' })], innerContent: ['<div>', null, null, '</div>'] }
+    ];
+
+    const { formatted } = preprocessBlocks(edited, schemaLoader, existing);
+
+    expect(formatted[0].innerBlocks[0]).toEqual(saved);
+    expect(formatted[0].innerBlocks[1].attrs).toEqual({ block_id: 'a3f2', title: 'New' });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Auth Tests
+ *
+ * HMAC signatures must bind the method, path and session of a request and
+ * be usable once, so captured requests can't be replayed or repurposed;
+ * credentials configured without scopes only get schemas:read
+ */
+
+import { createAuthMiddleware, loadAuthConfig, signRequest } from '../src/utils/auth.js';
+
+const SECRET = 'test-secret';
+
+function signedRequest(method: string, body: string, sign: { method?: string; sessionId?: string } = {}) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = signRequest(SECRET, { timestamp, method: sign.method || method, path: '/mcp', sessionId: sign.sessionId, body });
+  const headers: Record<string, string> = {
+    'x-mcp-timestamp': timestamp,
+    'x-mcp-signature': `sha256=${signature}`,
+    'mcp-session-id': 'session-1'
+  };
+
+  return {
+    method,
+    originalUrl: '/mcp',
+    rawBody: Buffer.from(body),
+    header: (name: string) => headers[name.toLowerCase()]
+  } as any;
+}
+
+function run(middleware: ReturnType<typeof createAuthMiddleware>, req: any): { status: number; auth?: any } {
+  let status = 200;
+  const res: any = {
+    setHeader: () => res,
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res
+  };
+  middleware(req, res, () => {});
+  return { status, auth: req.auth };
+}
+
+describe('HMAC auth', () => {
+  const middleware = () => createAuthMiddleware(loadAuthConfig({ MCP_HMAC_SECRET: SECRET, MCP_HMAC_SCOPES: 'content:read' }));
+
+  it('accepts a signed request once', () => {
+    const auth = middleware();
+    const req = signedRequest('POST', '{"jsonrpc":"2.0","id":1,"method":"tools/list"}', { sessionId: 'session-1' });
+
+    expect(run(auth, req)).toMatchObject({ status: 200, auth: { clientId: 'hmac', scopes: ['content:read'] } });
+    expect(run(auth, { ...req }).status).toBe(401);
+  });
+
+  it('rejects signatures made for another method or session', () => {
+    const auth = middleware();
+
+    expect(run(auth, signedRequest('DELETE', '', { method: 'GET', sessionId: 'session-1' })).status).toBe(401);
+    expect(run(auth, signedRequest('POST', '{}', { sessionId: 'session-2' })).status).toBe(401);
+  });
+
+  it('grants only schemas:read unless scopes are configured', () => {
+    expect(loadAuthConfig({ MCP_HMAC_SECRET: SECRET }).hmacScopes).toEqual(['schemas:read']);
+    expect(loadAuthConfig({ MCP_HMAC_SECRET: SECRET, MCP_HMAC_SCOPES: '*' }).hmacScopes).toContain('schemas:admin');
+  });
+});
+
+describe('bearer tokens', () => {
+  it('grants only schemas:read unless scopes are configured', () => {
+    const { tokens } = loadAuthConfig({ MCP_AUTH_TOKENS: 'bare, empty=, admin=*, editor=content:read|content:write' });
+
+    expect(tokens.get('bare')).toEqual(['schemas:read']);
+    expect(tokens.get('empty')).toEqual(['schemas:read']);
+    expect(tokens.get('admin')).toContain('schemas:admin');
+    expect(tokens.get('editor')).toEqual(['content:read', 'content:write']);
+  });
+});
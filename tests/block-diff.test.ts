@@ -0,0 +1,28 @@
+/**
+ * Block Diff Tests
+ *
+ * Blocks are matched by block_id; blocks sharing an id (pasted or duplicated
+ * in the editor) must be matched by position instead
+ */
+
+import { diffBlocks } from '../src/utils/block-diff.js';
+
+const heading = (block_id: string, title: string) => ({ blockName: 'tpgb/tp-heading', attrs: { block_id, title }, innerBlocks: [] });
+
+describe('diffBlocks', () => {
+  it('matches blocks by block_id across moves', () => {
+    const diff = diffBlocks([heading('aaaa', 'A'), heading('bbbb', 'B')], [heading('bbbb', 'B'), heading('aaaa', 'A')]);
+
+    expect(diff.summary).toEqual({ added: 0, removed: 0, moved: 2, modified: 0, unchanged: 0 });
+  });
+
+  it('matches blocks with duplicate block_ids by position', () => {
+    const diff = diffBlocks(
+      [heading('aaaa', 'A'), heading('aaaa', 'Copy of A'), heading('bbbb', 'B')],
+      [heading('aaaa', 'A'), heading('bbbb', 'B')]
+    );
+
+    expect(diff.removed).toEqual([{ block_id: 'aaaa', blockName: 'tpgb/tp-heading', path: '1' }]);
+    expect(diff.summary).toEqual({ added: 0, removed: 1, moved: 0, modified: 0, unchanged: 2 });
+  });
+});
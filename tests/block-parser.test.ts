@@ -0,0 +1,71 @@
+/**
+ * Block Parser Tests
+ *
+ * parseBlocks()/serializeBlocks() must behave like parse_blocks() and
+ * serialize_blocks(): recorded post_content survives a round trip unchanged
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { isWhitespaceBlock, parseBlocks, serializeBlockAttributes, serializeBlocks } from '../src/utils/block-parser.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'post-content');
+const fixtures = fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html')).sort();
+
+describe('parseBlocks / serializeBlocks', () => {
+  it.each(fixtures)('round-trips %s byte-for-byte', (file) => {
+    const content = fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8');
+    expect(serializeBlocks(parseBlocks(content))).toBe(content);
+  });
+
+  it('parses the same shape as parse_blocks()', () => {
+    const blocks = parseBlocks('<!-- wp:tpgb/tp-tab-item {"block_id":"4c7a"} -->\n<!-- wp:tpgb/tp-empty-space {"block_id":"0e6f"} /-->\n<!-- /wp:tpgb/tp-tab-item -->');
+
+    expect(blocks).toEqual([{
+      blockName: 'tpgb/tp-tab-item',
+      attrs: { block_id: '4c7a' },
+      innerBlocks: [{
+        blockName: 'tpgb/tp-empty-space',
+        attrs: { block_id: '0e6f' },
+        innerBlocks: [],
+        innerHTML: '',
+        innerContent: []
+      }],
+      innerHTML: '\n\n',
+      innerContent: ['\n', null, '\n']
+    }]);
+  });
+
+  it('keeps HTML between blocks as freeform blocks', () => {
+    const blocks = parseBlocks('<p>Intro</p>\n\n<!-- wp:separator /-->\n\n');
+
+    expect(blocks.map(block => block.blockName)).toEqual([null, 'core/separator', null]);
+    expect(blocks[0].innerHTML).toBe('<p>Intro</p>\n\n');
+    expect(isWhitespaceBlock(blocks[0])).toBe(false);
+    expect(isWhitespaceBlock(blocks[2])).toBe(true);
+  });
+
+  it('adds unclosed blocks at the top level and stops at a stray closer', () => {
+    expect(parseBlocks('<!-- wp:tpgb/tp-heading {"block_id":"8c2e"} --><h3>Open</h3>')).toEqual([{
+      blockName: 'tpgb/tp-heading',
+      attrs: { block_id: '8c2e' },
+      innerBlocks: [],
+      innerHTML: '<h3>Open</h3>',
+      innerContent: ['<h3>Open</h3>']
+    }]);
+
+    const stray = parseBlocks('<!-- /wp:tpgb/tp-heading --><!-- wp:separator /-->');
+    expect(stray).toHaveLength(1);
+    expect(stray[0].blockName).toBeNull();
+  });
+
+  it('escapes attribute JSON like serialize_block_attributes()', () => {
+    expect(serializeBlockAttributes({ content: '<b>A & B</b> -- "quoted"' }))
+      .toBe('{"content":"\\u003cb\\u003eA \\u0026 B\\u003c/b\\u003e \\u002d\\u002d \\u0022quoted\\u0022"}');
+  });
+
+  it('omits the core namespace and empty attributes', () => {
+    expect(serializeBlocks([{ blockName: 'core/separator', attrs: {}, innerBlocks: [], innerHTML: '', innerContent: [] }]))
+      .toBe('<!-- wp:separator /-->');
+  });
+});
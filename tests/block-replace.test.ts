@@ -0,0 +1,130 @@
+/**
+ * Block Replace Tests
+ *
+ * Replacements must reach text stored in attributes and in saved markup,
+ * and leave the tree serializable exactly as the editor would save it
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { parseBlocks, serializeBlocks } from '../src/utils/block-parser.js';
+import { replaceInBlocks } from '../src/utils/block-replace.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'post-content');
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+
+function fixture(file: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8');
+}
+
+describe('replaceInBlocks', () => {
+  it('replaces text that only exists in markup (source: html attributes)', () => {
+    const content = fixture('heading.html');
+    const result = replaceInBlocks(parseBlocks(content), { find: 'Nexter', replace: 'Nexter Blocks' }, schemaLoader);
+
+    expect(result.count).toBe(1);
+    expect(result.changes).toEqual([{
+      path: '0',
+      block_id: '3f1a',
+      blockName: 'tpgb/tp-heading',
+      field: 'markup',
+      count: 1,
+      before: '…p-core-heading tpgb-block-3f1a">Build pages faster with <em>Nexter</em></h2>\n',
+      after: '…p-core-heading tpgb-block-3f1a">Build pages faster with <em>Nexter Blocks</em></h2>\n'
+    }]);
+    expect(serializeBlocks(result.blocks)).toBe(content.replace('<em>Nexter</em>', '<em>Nexter Blocks</em>'));
+  });
+
+  it('keeps escaped markup in step with attributes', () => {
+    const content = fixture('button-core.html');
+    const result = replaceInBlocks(parseBlocks(content), {
+      find: 'plan=pro&ref=home',
+      replace: 'plan=team&ref=home'
+    }, schemaLoader);
+
+    // The href follows the attribute: one change, counted once
+    expect(result.changes.map(change => change.field)).toEqual(['bLink.url']);
+    expect(result.count).toBe(1);
+    expect(serializeBlocks(result.blocks)).toBe(content
+      .replace('plan=pro\\u0026ref=home', 'plan=team\\u0026ref=home')
+      .replace('plan=pro&amp;ref=home', 'plan=team&amp;ref=home'));
+  });
+
+  it('limits replacements to block types and attributes, updating the markup they render', () => {
+    const content = fixture('button-core.html') + fixture('heading.html');
+    const result = replaceInBlocks(parseBlocks(content), {
+      find: 'https://example.com/',
+      replace: 'https://example.org/',
+      blockTypes: ['tpgb/tp-button-core'],
+      attributes: ['bLink']
+    }, schemaLoader);
+
+    expect(result.changes.map(change => [change.block_id, change.field])).toEqual([
+      ['b7c4', 'bLink.url'],
+      ['c015', 'bLink.url']
+    ]);
+
+    const output = serializeBlocks(result.blocks);
+    expect(output).toContain('href="https://example.org/signup?plan=pro&amp;ref=home"');
+    expect(output).toContain('href="https://example.org/docs/"');
+    // Heading links are out of scope
+    expect(output).toContain('"url":"https://example.com/pricing/"');
+  });
+
+  it('replaces text in markup without rewriting tags, classes or attribute values', () => {
+    const innerHTML = '<div class="tpgb-stylist-list tpgb-block-5d2e"><div class="tpgb-icon-list-items"><ul>'
+      + '<li class="tpgb-icon-list-item"><span class="tpgb-icon-list-text"><p>Price list</p></span></li>'
+      + '<li class="tpgb-icon-list-item" data-list="list"><span class="tpgb-icon-list-text">Wish list</span></li>'
+      + '</ul></div></div>';
+    const blocks = [{
+      blockName: 'tpgb/tp-stylist-list',
+      attrs: { block_id: '5d2e', listsRepeater: [{ _key: '0', description: '<p>Price list</p>' }] },
+      innerBlocks: [],
+      innerHTML,
+      innerContent: [innerHTML]
+    }];
+    const result = replaceInBlocks(blocks, { find: 'list', replace: 'catalog' }, schemaLoader);
+
+    expect(result.changes.map(change => [change.field, change.count])).toEqual([
+      ['listsRepeater.0.description', 1],
+      ['markup', 1]
+    ]);
+    expect(result.count).toBe(2);
+    expect(result.changes[1].before).toContain('Wish list');
+    expect(result.blocks[0].attrs.listsRepeater[0].description).toBe('<p>Price catalog</p>');
+    expect(result.blocks[0].innerHTML).toBe(innerHTML.replace('Price list', 'Price catalog').replace('Wish list', 'Wish catalog'));
+    expect(result.blocks[0].innerContent).toEqual([result.blocks[0].innerHTML]);
+  });
+
+  it('replaces once when the replacement contains the search text', () => {
+    const innerHTML = '<div class="tpgb-infobox tpgb-block-1c4f"><div class="service-title">Acme</div><div class="service-desc">Made by Acme</div></div>';
+    const blocks = [{
+      blockName: 'tpgb/tp-infobox',
+      attrs: { block_id: '1c4f', Title: 'Acme' },
+      innerBlocks: [],
+      innerHTML,
+      innerContent: [innerHTML]
+    }];
+    const result = replaceInBlocks(blocks, { find: 'Acme', replace: 'Acme Inc' }, schemaLoader);
+
+    expect(result.changes.map(change => [change.field, change.count])).toEqual([['Title', 1], ['markup', 1]]);
+    expect(result.count).toBe(2);
+    expect(result.changes[1].before).toContain('Made by Acme</div>');
+    expect(result.blocks[0].attrs.Title).toBe('Acme Inc');
+    expect(result.blocks[0].innerHTML).toBe(innerHTML.replace('>Acme<', '>Acme Inc<').replace('Made by Acme', 'Made by Acme Inc'));
+    expect(result.blocks[0].innerContent).toEqual([result.blocks[0].innerHTML]);
+  });
+
+  it('matches case-insensitively on request and never touches block_id', () => {
+    const blocks = [{
+      blockName: 'tpgb/tp-pro-paragraph',
+      attrs: { block_id: 'acme', content: 'ACME and Acme', Showtitle: false },
+      innerBlocks: []
+    }];
+    const result = replaceInBlocks(blocks, { find: 'acme', replace: 'Globex', caseSensitive: false }, schemaLoader);
+
+    expect(result.count).toBe(2);
+    expect(result.blocks[0].attrs).toEqual({ block_id: 'acme', content: 'Globex and Globex', Showtitle: false });
+  });
+});
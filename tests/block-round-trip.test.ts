@@ -0,0 +1,103 @@
+/**
+ * Block Round-Trip Tests
+ *
+ * Each fixture is post_content generated by the plugin's own save() functions
+ * (see fixtures/post-content/README.md for the source of each file). The
+ * blocks are parsed, their markup is thrown away, and the formatter
+ * regenerates it from the attributes alone: the re-serialized content must be
+ * byte-identical to the fixture, delimiters included, once the editor's line
+ * breaks around delimiters are removed (see withoutEditorWhitespace)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { formatBlocksForWordPress, preprocessBlocks } from '../src/utils/block-formatter.js';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { parseBlocks, serializeBlocks, ParsedBlock } from '../src/utils/block-parser.js';
+import { queryInnerHtml } from '../src/utils/content-exporter.js';
+import type { AttributeSource } from '../src/utils/block-renderers.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'post-content');
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+
+/**
+ * The editor (and the fixture generator) put "\n" between a block's
+ * delimiters and its markup and "\n\n" between blocks, where the server
+ * serializes nothing, as serialize_blocks() does. Only those line breaks are
+ * removed before comparing: newlines right after a block delimiter
+ * (<!-- wp:... -->, <!-- wp:... /-->, <!-- /wp:... -->) or right before one,
+ * and the file's final newline. Everything else, whitespace inside a block's
+ * markup included, is compared byte for byte
+ */
+function withoutEditorWhitespace(content: string): string {
+  return content
+    .replace(/(<!-- \/?wp:[^>]*-->)\n+/g, '$1')
+    .replace(/\n+(?=<!-- \/?wp:)/g, '')
+    .replace(/\n$/, '');
+}
+
+/**
+ * Attributes sourced from markup stay out of the delimiter, as the editor saves them
+ */
+function withoutSourcedAttributes(block: any): any {
+  const sourced = schemaLoader.getAttributeSources(block.blockName);
+  return {
+    ...block,
+    attrs: Object.fromEntries(Object.entries(block.attrs).filter(([key]) => !sourced[key])),
+    innerBlocks: block.innerBlocks.map(withoutSourcedAttributes)
+  };
+}
+
+function serialize(blocks: any[]): string {
+  return serializeBlocks(blocks.map(withoutSourcedAttributes));
+}
+
+/**
+ * Drop the fixture's markup, keeping only what an agent would send: attributes,
+ * including those the editor reads back from the markup (source: html)
+ */
+function toInputBlock(block: ParsedBlock): any {
+  const attrs = { ...block.attrs };
+  const sources: Record<string, AttributeSource> = schemaLoader.getAttributeSources(block.blockName!);
+
+  for (const [name, source] of Object.entries(sources)) {
+    const value = source.source === 'html' && source.selector ? queryInnerHtml(block.innerHTML, source.selector) : undefined;
+    if (value !== undefined) {
+      attrs[name] = value;
+    }
+  }
+
+  return {
+    blockName: block.blockName,
+    attrs,
+    innerBlocks: block.innerBlocks.map(toInputBlock)
+  };
+}
+
+const fixtures = fs.readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.html')).sort();
+
+describe('block round trip against the plugin save output', () => {
+  it('has fixtures to check', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  describe.each(fixtures)('%s', (file) => {
+    const expected = withoutEditorWhitespace(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+    const blocks = () => parseBlocks(expected).map(toInputBlock);
+
+    it('parses into blocks only', () => {
+      expect(parseBlocks(expected).every(block => block.blockName !== null)).toBe(true);
+    });
+
+    it('preprocessBlocks regenerates identical markup', () => {
+      const { formatted, warnings } = preprocessBlocks(blocks(), schemaLoader);
+      expect(warnings).toEqual([]);
+      expect(serialize(formatted)).toBe(expected);
+    });
+
+    it('formatBlocksForWordPress regenerates identical markup', () => {
+      const formatted = formatBlocksForWordPress(blocks(), undefined, schemaLoader);
+      expect(serialize(formatted)).toBe(expected);
+    });
+  });
+});
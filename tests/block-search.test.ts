@@ -0,0 +1,46 @@
+/**
+ * Block Search Tests
+ *
+ * Free-text queries must rank the block an agent is looking for first,
+ * using the catalog's keywords, use cases and descriptions
+ */
+
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { findBlocks, tokenize } from '../src/utils/block-search.js';
+
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+
+describe('findBlocks', () => {
+  it('finds a block from a description of what it should do', async () => {
+    const result = await findBlocks('a countdown for a product launch', schemaLoader);
+
+    expect(result.hits[0]).toMatchObject({
+      name: 'tpgb/tp-countdown',
+      category: 'marketing',
+      useCases: expect.arrayContaining(['Product launches'])
+    });
+    expect(result.hits[0].matched.sort()).toEqual(['countdown', 'launch', 'product']);
+    expect(result.hits[0].score).toBeGreaterThan(result.hits[1].score * 2);
+    expect(result.hits[0]).not.toHaveProperty('attributes');
+  });
+
+  it('points child blocks at their parent', async () => {
+    const { hits } = await findBlocks('faq accordion', schemaLoader, { limit: 2 });
+
+    expect(hits.map(hit => hit.name)).toEqual(['tpgb/tp-accordion', 'tpgb/tp-accordion-inner']);
+    expect(hits[1].parent).toBe('tpgb/tp-accordion');
+  });
+
+  it('filters by category and complexity', async () => {
+    const { hits } = await findBlocks('email', schemaLoader, { category: 'forms', maxComplexity: 'simple', limit: 20 });
+
+    expect(hits.length).toBeGreaterThan(0);
+    expect(hits.every(hit => hit.category === 'forms' && hit.complexity === 'simple')).toBe(true);
+  });
+
+  it('returns nothing for unrelated text', async () => {
+    expect(await findBlocks('xyzzy', schemaLoader)).toEqual({ hits: [], total: 0 });
+    expect(tokenize('Show me the Testimonials for heroSection')).toEqual(['testimonial', 'hero', 'section']);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Block Tree Tests
+ *
+ * Structural edits must work at any depth, keep innerContent placeholders in
+ * step with innerBlocks, and give duplicated blocks fresh ids without
+ * touching unrelated markup
+ */
+
+import { duplicateBlockAt, getBlockAtPath, moveBlockAt, swapBlocksAt } from '../src/utils/block-tree.js';
+
+function heading(blockId: string, text: string): any {
+  const html = `<h2 class="tp-core-heading tpgb-block-${blockId}">${text}</h2>`;
+  return { blockName: 'tpgb/tp-heading', attrs: { block_id: blockId, title: text }, innerBlocks: [], innerHTML: html, innerContent: [html] };
+}
+
+function container(blockId: string, innerBlocks: any[]): any {
+  return {
+    blockName: 'tpgb/tp-container',
+    attrs: { block_id: blockId },
+    innerBlocks,
+    innerHTML: '<div class="wp-block-tpgb-tp-container"></div>',
+    innerContent: ['<div class="wp-block-tpgb-tp-container">', ...innerBlocks.map(() => null), '</div>']
+  };
+}
+
+/** [0] container(a0, a1), [1] b, [2] c */
+function tree(): any[] {
+  return [container('aa00', [heading('aa01', 'A1'), heading('aa02', 'A2')]), heading('bb00', 'B'), heading('cc00', 'C')];
+}
+
+function ids(blocks: any[]): string[] {
+  return blocks.map(block => block.attrs.block_id);
+}
+
+function slots(block: any): number {
+  return block.innerContent.filter((chunk: any) => chunk === null).length;
+}
+
+describe('duplicateBlockAt', () => {
+  it('inserts a copy after a top-level block', () => {
+    const { blocks, blockId } = duplicateBlockAt(tree(), [1]);
+
+    expect(blocks).toHaveLength(4);
+    expect(blocks[2].attrs.block_id).toBe(blockId);
+    expect(blockId).not.toBe('bb00');
+    expect(blocks[2].innerHTML).toBe(`<h2 class="tp-core-heading tpgb-block-${blockId}">B</h2>`);
+    expect(blocks[1]).toEqual(heading('bb00', 'B'));
+  });
+
+  it('duplicates nested blocks and their descendants with fresh, distinct ids', () => {
+    const nested = duplicateBlockAt(tree(), [0, 1]).blocks;
+    expect(nested[0].innerBlocks).toHaveLength(3);
+    expect(slots(nested[0])).toBe(3);
+    expect(nested[0].innerBlocks[2].attrs.title).toBe('A2');
+
+    const copied = duplicateBlockAt(tree(), [0]).blocks;
+    const all = [...ids(copied), ...ids(copied[0].innerBlocks), ...ids(copied[1].innerBlocks)];
+    expect(new Set(all).size).toBe(all.length);
+    expect(copied[1].innerBlocks.map((block: any) => block.attrs.title)).toEqual(['A1', 'A2']);
+  });
+
+  it('rewrites only class and id references to the old block_id', () => {
+    const html = '<div id="tpag-tab-title-ab121" class="tpgb-wrap-ab12"><div class="tpgb-accordion tpgb-block-ab12 tpgb-block-ab12x" style="color:#ab12ff">'
+      + '<a href="https://example.com/ab12" aria-controls="tpag-tab-title-ab121">ab12</a></div></div>';
+    const block = { blockName: 'tpgb/tp-accordion', attrs: { block_id: 'ab12_42' }, innerBlocks: [], innerHTML: html, innerContent: [html] };
+    const original = { ...block, attrs: { block_id: 'ab12' } };
+
+    const suffixed = duplicateBlockAt([block], [0]).blocks[1];
+    expect(suffixed.attrs.block_id).toMatch(/^[a-f0-9]{4}_42$/);
+
+    const { blocks, blockId } = duplicateBlockAt([original], [0]);
+    const expected = '<div id="tpag-tab-title-' + blockId + '1" class="tpgb-wrap-' + blockId + '"><div class="tpgb-accordion tpgb-block-' + blockId
+      + ' tpgb-block-ab12x" style="color:#ab12ff"><a href="https://example.com/ab12" aria-controls="tpag-tab-title-' + blockId + '1">ab12</a></div></div>';
+    expect(blocks[1].innerHTML).toBe(expected);
+    expect(blocks[1].innerContent).toEqual([expected]);
+  });
+});
+
+describe('moveBlockAt', () => {
+  it('moves top-level blocks, with the index referring to the tree before the move', () => {
+    expect(ids(moveBlockAt(tree(), [2], [], 0))).toEqual(['cc00', 'aa00', 'bb00']);
+    expect(ids(moveBlockAt(tree(), [0], [], 3))).toEqual(['bb00', 'cc00', 'aa00']);
+  });
+
+  it('moves blocks into and out of a container, updating its placeholders', () => {
+    const into = moveBlockAt(tree(), [1], [0], 1);
+    expect(ids(into)).toEqual(['aa00', 'cc00']);
+    expect(ids(into[0].innerBlocks)).toEqual(['aa01', 'bb00', 'aa02']);
+    expect(slots(into[0])).toBe(3);
+
+    const out = moveBlockAt(tree(), [0, 0], [], 2);
+    expect(ids(out)).toEqual(['aa00', 'bb00', 'aa01', 'cc00']);
+    expect(ids(out[0].innerBlocks)).toEqual(['aa02']);
+    expect(slots(out[0])).toBe(1);
+  });
+
+  it('refuses to move a block inside itself', () => {
+    expect(() => moveBlockAt(tree(), [0], [0, 1], 0)).toThrow('Cannot move a block inside itself');
+  });
+});
+
+describe('swapBlocksAt', () => {
+  it('swaps top-level and nested blocks', () => {
+    expect(ids(swapBlocksAt(tree(), [0], [2]))).toEqual(['cc00', 'bb00', 'aa00']);
+
+    const swapped = swapBlocksAt(tree(), [0, 1], [1]);
+    expect(ids(swapped)).toEqual(['aa00', 'aa02', 'cc00']);
+    expect(getBlockAtPath(swapped, [0, 1]).attrs.block_id).toBe('bb00');
+  });
+
+  it('refuses to swap a block with its ancestor', () => {
+    expect(() => swapBlocksAt(tree(), [0], [0, 1])).toThrow('Cannot swap a block with its own ancestor or descendant');
+  });
+});
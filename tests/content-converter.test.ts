@@ -0,0 +1,123 @@
+/**
+ * Content Converter Tests
+ *
+ * Markdown and HTML copy must map onto the Nexter blocks agents would build by hand
+ */
+
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { serializeBlocks } from '../src/utils/block-parser.js';
+import { preprocessBlocks } from '../src/utils/block-formatter.js';
+import { convertToBlocks, markdownToHtml } from '../src/utils/content-converter.js';
+
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+
+/** Block names and attributes, without the generated block_ids */
+function shape(blocks: any[]): any[] {
+  return blocks.map(({ blockName, attrs: { block_id: _blockId, ...attrs }, innerBlocks }) => ({
+    blockName,
+    attrs,
+    ...(innerBlocks.length > 0 ? { innerBlocks: shape(innerBlocks) } : {})
+  }));
+}
+
+describe('convertToBlocks', () => {
+  it('maps Markdown onto Nexter blocks', () => {
+    const { blocks, warnings } = convertToBlocks([
+      '## Pricing *plans*',
+      '',
+      'Simple plans for [everyone](https://example.com/plans).',
+      '',
+      '![Plans](https://example.com/plans.png)',
+      '',
+      '[Start trial](https://example.com/signup){.button}',
+      '',
+      '- No setup fee',
+      '- Cancel anytime'
+    ].join('\n'), 'markdown');
+
+    expect(warnings).toEqual([]);
+    expect(shape(blocks)).toEqual([
+      { blockName: 'tpgb/tp-heading', attrs: { title: 'Pricing <em>plans</em>', tTag: 'h2' } },
+      { blockName: 'tpgb/tp-pro-paragraph', attrs: { Showtitle: false, content: 'Simple plans for <a href="https://example.com/plans">everyone</a>.' } },
+      { blockName: 'tpgb/tp-image', attrs: { tImg: { url: 'https://example.com/plans.png', Id: '', alt: 'Plans' } } },
+      { blockName: 'tpgb/tp-button', attrs: { btnText: 'Start trial', btnLink: { url: 'https://example.com/signup', target: '', nofollow: '' } } },
+      {
+        blockName: 'tpgb/tp-stylist-list',
+        attrs: {
+          listsRepeater: [
+            { _key: '0', description: 'No setup fee', selectIcon: 'fontawesome', iconFontawesome: 'fas fa-check-circle' },
+            { _key: '1', description: 'Cancel anytime', selectIcon: 'fontawesome', iconFontawesome: 'fas fa-check-circle' }
+          ]
+        }
+      }
+    ]);
+  });
+
+  it('groups consecutive <details> into one accordion', () => {
+    const { blocks } = convertToBlocks(
+      '<details><summary>Returns?</summary><p>Within 30 days.</p></details>\n<details><summary>Shipping?</summary><h4>Worldwide</h4></details>',
+      'html'
+    );
+
+    expect(shape(blocks)).toEqual([{
+      blockName: 'tpgb/tp-accordion',
+      attrs: { accorType: 'editor', toggleIcon: true },
+      innerBlocks: [
+        {
+          blockName: 'tpgb/tp-accordion-inner',
+          attrs: { title: 'Returns?', index: 1, toggleIcon: true },
+          innerBlocks: [{ blockName: 'tpgb/tp-pro-paragraph', attrs: { Showtitle: false, content: 'Within 30 days.' } }]
+        },
+        {
+          blockName: 'tpgb/tp-accordion-inner',
+          attrs: { title: 'Shipping?', index: 2, toggleIcon: true },
+          innerBlocks: [{ blockName: 'tpgb/tp-heading', attrs: { title: 'Worldwide', tTag: 'h4' } }]
+        }
+      ]
+    }]);
+  });
+
+  it('renders converted <details> as accordion items holding the questions and answers', () => {
+    const { blocks } = convertToBlocks('<details><summary>Returns?</summary><p>Within 30 days.</p></details>', 'html');
+    const html = serializeBlocks(preprocessBlocks(blocks, schemaLoader).formatted);
+
+    expect(html).toContain('<h3 class="accordion-title">Returns?</h3>');
+    expect(html).toContain('Within 30 days.');
+    expect(html).toContain('data-tab="1"');
+    expect(html).toContain('accordion-toggle-icon');
+    expect(html).not.toContain('Accordion 1');
+  });
+
+  it('unwraps containers, reads figures and button links, and keeps unknown elements as HTML', () => {
+    const { blocks, warnings } = convertToBlocks(
+      '<section><figure><img src="/a.png" alt="A &amp; B"><figcaption>Team</figcaption></figure>' +
+      '<p><a class="wp-block-button__link" href="/join" target="_blank" rel="nofollow">Join</a></p>' +
+      '<table><tr><td>1</td></tr></table></section>',
+      'html'
+    );
+
+    expect(shape(blocks)).toEqual([
+      { blockName: 'tpgb/tp-image', attrs: { tImg: { url: '/a.png', Id: '', alt: 'A & B' }, tiCap: 'custom', ctmCap: 'Team' } },
+      { blockName: 'tpgb/tp-button', attrs: { btnText: 'Join', btnLink: { url: '/join', target: '_blank', nofollow: true } } },
+      { blockName: 'tpgb/tp-pro-paragraph', attrs: { Showtitle: false, content: '<table><tr><td>1</td></tr></table>', descTag: 'div' } }
+    ]);
+    expect(warnings).toEqual(['No Nexter block for <table>; kept as paragraph HTML']);
+  });
+
+  it('generates a unique block_id for every block', () => {
+    const { blocks } = convertToBlocks(Array.from({ length: 50 }, (_, index) => `Paragraph ${index}`).join('\n\n'), 'markdown');
+    const ids = blocks.map(block => block.attrs.block_id);
+
+    expect(ids.every(id => /^[a-f0-9]{4}$/.test(id))).toBe(true);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('markdownToHtml', () => {
+  it('keeps raw HTML blocks and code as-is', () => {
+    expect(markdownToHtml('<details>\n<summary>Q</summary>\n\nA\n\n</details>\n\n`<b>`')).toBe(
+      '<details>\n<summary>Q</summary>\n\nA\n\n</details>\n<p><code>&lt;b&gt;</code></p>'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Content Exporter Tests
+ *
+ * Recorded post_content must export to clean copy, with source: html
+ * attributes read back from the markup, and imported Markdown must export
+ * back to itself
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { parseBlocks } from '../src/utils/block-parser.js';
+import { convertToBlocks } from '../src/utils/content-converter.js';
+import { exportBlocks } from '../src/utils/content-exporter.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'post-content');
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+
+function fixture(file: string) {
+  return parseBlocks(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+}
+
+describe('exportBlocks', () => {
+  it('reads sourced headings back from the saved markup', () => {
+    expect(exportBlocks(fixture('heading.html'), 'markdown', schemaLoader)).toEqual({
+      content: '## Build pages faster with *Nexter*\n\n### Why teams switch\n\n#### See pricing',
+      warnings: []
+    });
+  });
+
+  it('exports quotes and buttons as semantic HTML', () => {
+    expect(exportBlocks(fixture('blockquote.html'), 'html', schemaLoader).content).toBe(
+      '<blockquote><p>Simplicity is the ultimate sophistication.</p></blockquote>\n' +
+      '<blockquote><p>Design is how it works.</p><cite>Steve Jobs</cite></blockquote>'
+    );
+    expect(exportBlocks(fixture('button-core.html'), 'html', schemaLoader).content.split('\n')[0]).toBe(
+      '<p><a class="button" href="https://example.com/signup?plan=pro&amp;ref=home">Start free trial</a></p>'
+    );
+  });
+
+  it('normalizes core blocks and skips layout-only blocks', () => {
+    const blocks = parseBlocks(
+      '<!-- wp:heading -->\n<h2 class="wp-block-heading">Core <strong>heading</strong></h2>\n<!-- /wp:heading -->\n\n' +
+      '<!-- wp:tpgb/tp-empty-space {"block_id":"0e6f"} /-->\n\n' +
+      '<!-- wp:list --><ul class="wp-block-list"><li>One</li><li>Two</li></ul><!-- /wp:list -->'
+    );
+
+    expect(exportBlocks(blocks, 'markdown', schemaLoader)).toEqual({
+      content: '## Core **heading**\n\n- One\n- Two',
+      warnings: []
+    });
+  });
+
+  it('reports Nexter blocks it cannot export', () => {
+    expect(exportBlocks(fixture('form.html'), 'markdown', schemaLoader).warnings)
+      .toContain('No extractor for tpgb/tp-form-email-field; its content was not exported');
+  });
+
+  it('round-trips Markdown through convertToBlocks', () => {
+    const markdown = [
+      '## Pricing *plans*',
+      'Simple plans for [everyone](https://example.com/plans).',
+      '![Plans](https://example.com/plans.png)',
+      '[Start trial](https://example.com/signup){.button}',
+      '- No setup fee\n- Cancel **anytime**',
+      '> Worth every penny',
+      '<details>\n<summary>Returns?</summary>\n\nWithin 30 days.\n\n</details>'
+    ].join('\n\n');
+
+    expect(exportBlocks(convertToBlocks(markdown, 'markdown').blocks, 'markdown', schemaLoader).content).toBe(markdown);
+  });
+});
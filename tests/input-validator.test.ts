@@ -0,0 +1,53 @@
+/**
+ * Input Validator Tests
+ *
+ * Attributes the curated schemas don't list must not block saves of pages
+ * built in the editor, while wrong values and names the plugin doesn't
+ * register still fail
+ */
+
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { validateBlocksAgainstSchemas } from '../src/utils/input-validator.js';
+
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+
+describe('validateBlocksAgainstSchemas', () => {
+  it('reports attributes missing from the schema as warnings', async () => {
+    const result = await validateBlocksAgainstSchemas([
+      { blockName: 'tpgb/tp-button', attrs: { block_id: 'a3f2', normalBG: { openBg: 1 }, btnWidth: { md: 200 } } }
+    ], schemaLoader);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([
+      expect.stringContaining('Unknown attribute "normalBG" for block "tpgb/tp-button"'),
+      expect.stringContaining('Unknown attribute "btnWidth" for block "tpgb/tp-button"')
+    ]);
+  });
+
+  it('reports attributes the plugin does not register as errors', async () => {
+    const result = await validateBlocksAgainstSchemas([
+      { blockName: 'tpgb/tp-heading', attrs: { block_id: 'a3f2', tag: 'h3', extBtnshow: true, globalClasses: 'hero' } }
+    ], schemaLoader);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      error_code: 'SCHEMA_VALIDATION_FAILED',
+      details: { field: 'blocks[0].attrs.tag', attribute: 'tag', suggestions: expect.arrayContaining(['tTag']) }
+    });
+    expect(result.errors[0].message).toContain('did you mean "tTag"?');
+    // Options the plugin merges into every block are registered too
+    expect(result.warnings.filter(warning => warning.includes('extBtnshow'))).toHaveLength(1);
+  });
+
+  it('keeps wrong values as errors', async () => {
+    const result = await validateBlocksAgainstSchemas([
+      { blockName: 'tpgb/tp-heading', attrs: { block_id: 'a3f2', tTag: 'h9', title: 5 } }
+    ], schemaLoader);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => error.details?.field)).toEqual(['blocks[0].attrs.tTag', 'blocks[0].attrs.title']);
+  });
+});
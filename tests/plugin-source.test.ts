@@ -0,0 +1,145 @@
+/**
+ * Plugin Source Tests
+ *
+ * Attributes must be read from the plugins' PHP registrations and block.json
+ * files as the editor sees them, and differences with curated schemas reported
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  diffAttributes,
+  extractPhpBlock,
+  hasDrift,
+  parsePhpValue,
+  PhpExpression,
+  pluginAttributeNames,
+  pluginDefaults,
+  readSharedAttributes,
+  readSourceBlocks
+} from '../scripts/plugin-source.js';
+
+const ROOT = path.join(__dirname, '..');
+
+describe('parsePhpValue', () => {
+  it('reads nested arrays, strings and scalars', () => {
+    const value = parsePhpValue(`[
+      'type' => 'object', // trailing comment
+      'default' => array( 'md' => '', "unit" => 'px', 'list' => [ 1, -2.5, true, null ] ),
+      'label' => esc_html__( 'Read ' . 'More', 'tpgb' ),
+    ]`);
+
+    expect(value).toEqual({
+      type: 'object',
+      default: { md: '', unit: 'px', list: [1, -2.5, true, null] },
+      label: 'Read More'
+    });
+  });
+
+  it('keeps runtime values as expressions and turns (object) lists into objects', () => {
+    const value = parsePhpValue(`[ 'id' => get_the_ID(), 'items' => (object) [ [ 'a' => 1 ] ], 'empty' => [], 'on' => $x ? 'yes' : 'no' ]`);
+
+    expect(value.id).toEqual(new PhpExpression('get_the_ID()'));
+    expect(value.items).toEqual({ 0: { a: 1 } });
+    expect(value.empty).toEqual([]);
+    expect(value.on).toBeInstanceOf(PhpExpression);
+  });
+});
+
+describe('extractPhpBlock', () => {
+  it('reads the registered name and attributes', () => {
+    const block = extractPhpBlock(`<?php
+      function tpgb_demo() {
+        $attributesOptions = array( 'block_id' => [ 'type' => 'string', 'default' => '' ] );
+        register_block_type( 'tpgb/tp-demo', array( 'attributes' => $attributesOptions ) );
+      }`);
+
+    expect(block).toEqual({ blockName: 'tpgb/tp-demo', attributes: { block_id: { type: 'string', default: '' } } });
+    expect(extractPhpBlock('<?php echo 1;')).toBeNull();
+  });
+});
+
+describe('readSourceBlocks', () => {
+  it('reads blocks from both plugins', () => {
+    const { blocks, errors } = readSourceBlocks(
+      path.join(ROOT, 'the-plus-addons-for-block-editor'),
+      path.join(ROOT, 'the-plus-addons-for-block-editor-pro')
+    );
+
+    expect(errors).toEqual([]);
+    const heading = blocks.get('tpgb/tp-heading')!;
+    expect(heading.editions).toContain('free');
+    expect(heading.attributes.title).toMatchObject({ type: 'string', source: 'html', selector: '.tp-core-heading' });
+    // Style rules stay in the plugin
+    expect(Object.values(heading.attributes).some((attribute: any) => 'style' in attribute)).toBe(false);
+  });
+});
+
+describe('pluginDefaults', () => {
+  it('matches the committed _meta/plugin-defaults.json', () => {
+    const { blocks } = readSourceBlocks(
+      path.join(ROOT, 'the-plus-addons-for-block-editor'),
+      path.join(ROOT, 'the-plus-addons-for-block-editor-pro')
+    );
+    const defaults = pluginDefaults(blocks);
+    const committed = JSON.parse(fs.readFileSync(path.join(ROOT, 'schemas', '_meta', 'plugin-defaults.json'), 'utf8'));
+
+    expect(committed.blocks).toEqual(defaults);
+    expect(defaults['tpgb/tp-container'].animdur).toBe(3);
+    // Defaults computed at runtime have no static value to compare with
+    for (const block of blocks.values()) {
+      expect(block.dynamicDefaults.filter(name => name in defaults[block.blockName])).toEqual([]);
+    }
+  });
+});
+
+describe('pluginAttributeNames', () => {
+  it('matches the committed _meta/plugin-defaults.json, shared options included', () => {
+    const freeRoot = path.join(ROOT, 'the-plus-addons-for-block-editor');
+    const proRoot = path.join(ROOT, 'the-plus-addons-for-block-editor-pro');
+    const { blocks } = readSourceBlocks(freeRoot, proRoot);
+    const shared = [...new Set([...readSharedAttributes(freeRoot), ...readSharedAttributes(proRoot)])].sort();
+    const committed = JSON.parse(fs.readFileSync(path.join(ROOT, 'schemas', '_meta', 'plugin-defaults.json'), 'utf8'));
+
+    expect(committed.attributes).toEqual(pluginAttributeNames(blocks));
+    expect(committed.shared).toEqual(shared);
+    expect(committed.attributes['tpgb/tp-heading']).toContain('tTag');
+    expect(committed.attributes['tpgb/tp-heading']).not.toContain('tag');
+    // Background, positioning, Plus button and Pro carousel options
+    expect(shared).toEqual(expect.arrayContaining(['globalMargin', 'extBtnshow', 'sliderMode', 'dotsBorderColor']));
+  });
+});
+
+describe('diffAttributes', () => {
+  it('reports every kind of drift', () => {
+    const drift = diffAttributes(
+      'tpgb/tp-demo',
+      {
+        title: { type: 'string', default: 'Hi', source: 'html', selector: 'h2' },
+        count: { type: 'string', default: '2' },
+        typo: { $ref: 'definitions://typography' },
+        removed: { type: 'string' }
+      },
+      {
+        title: { type: 'string', default: 'Hi', source: 'html', selector: 'h3' },
+        count: { type: 'number', default: 2 },
+        typo: { type: 'object', default: { openTypography: 0 } },
+        added: { type: 'boolean' }
+      }
+    );
+
+    expect(drift).toEqual({
+      blockName: 'tpgb/tp-demo',
+      missingInSchema: ['added'],
+      notInSource: ['removed'],
+      typeMismatches: [{ attribute: 'count', schema: 'string', source: 'number' }],
+      defaultMismatches: [{ attribute: 'count', schema: '2', source: 2 }],
+      sourceMismatches: [{
+        attribute: 'title',
+        schema: { source: 'html', selector: 'h2', attribute: undefined },
+        source: { source: 'html', selector: 'h3', attribute: undefined }
+      }]
+    });
+    expect(hasDrift(diffAttributes('tpgb/tp-demo', { a: { type: 'object', default: { x: 1, y: 2 } } }, { a: { type: 'object', default: { y: 2, x: 1 } } }))).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Schema Budget Tests
+ *
+ * A token budget must keep core attributes for as many blocks as possible,
+ * dropping examples and styling first and reporting what was left out
+ */
+
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { estimateTokens, loadSchemasWithinBudget } from '../src/utils/schema-budget.js';
+
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+const BLOCKS = ['tpgb/tp-heading', 'tpgb/tp-blockquote', 'tpgb/tp-stylist-list'];
+
+describe('loadSchemasWithinBudget', () => {
+  it('returns every requested level when the budget allows', async () => {
+    const result = await loadSchemasWithinBudget(BLOCKS, schemaLoader, ['core', 'styling'], 100000);
+
+    expect(result.omitted).toEqual([]);
+    expect(result.included['tpgb/tp-heading']).toEqual(['core', 'styling']);
+    expect(result.schemas[0]).toEqual(await schemaLoader.getBlockSchema('tpgb/tp-heading', ['core', 'styling'], true));
+  });
+
+  it('fills core for every block before styling and examples', async () => {
+    // Levels are sized separately
+    let budget = 200;
+    for (const name of BLOCKS) {
+      budget += estimateTokens(await schemaLoader.getBlockSchema(name, ['meta'], true));
+      budget += estimateTokens(await schemaLoader.getBlockSchema(name, ['core'], true));
+    }
+
+    const result = await loadSchemasWithinBudget(BLOCKS, schemaLoader, ['full'], budget);
+
+    expect(result.tokens).toBeLessThanOrEqual(budget);
+    for (const name of BLOCKS) {
+      expect(result.included[name].slice(0, 2)).toEqual(['meta', 'core']);
+    }
+    expect(result.omitted.find(omission => omission.blockName === 'tpgb/tp-heading')).toEqual({
+      blockName: 'tpgb/tp-heading',
+      levels: ['styling', 'examples'],
+      tokens: expect.any(Number)
+    });
+  });
+
+  it('reports blocks without a schema', async () => {
+    const result = await loadSchemasWithinBudget(['tpgb/tp-heading', 'tpgb/tp-missing'], schemaLoader, ['core'], 100);
+
+    expect(result.notFound).toEqual(['tpgb/tp-missing']);
+    expect(result.schemas).toEqual([]);
+    expect(result.omitted).toEqual([{ blockName: 'tpgb/tp-heading', levels: ['core'], tokens: expect.any(Number) }]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Schema Loader Reload Tests
+ *
+ * Reloads swap in a whole new snapshot of the schemas directory, report
+ * what changed, and keep the loaded schemas when new files are invalid
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+
+let schemasPath: string;
+
+function write(file: string, data: any) {
+  const target = path.join(schemasPath, file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, typeof data === 'string' ? data : JSON.stringify(data));
+}
+
+function heading(titleDefault: string) {
+  return {
+    blockName: 'tpgb/tp-heading',
+    attributes: {
+      title: { type: 'string', default: titleDefault },
+      titleTypo: { $ref: 'definitions://typography' }
+    }
+  };
+}
+
+beforeEach(() => {
+  schemasPath = fs.mkdtempSync(path.join(os.tmpdir(), 'schemas-'));
+  write('_meta/catalog.json', { totalBlocks: 1, categories: { content: { blocks: [{ name: 'tpgb/tp-heading' }] } } });
+  write('_definitions/typography.json', { $id: 'definitions://typography', type: 'object', default: { size: 16 } });
+  write('blocks/tp-heading/full.json', heading('Heading'));
+  write('blocks/tp-heading/examples.json', '{ "broken": ');
+});
+
+afterEach(() => {
+  fs.rmSync(schemasPath, { recursive: true, force: true });
+});
+
+describe('SchemaLoader.reload', () => {
+  it('swaps in changed files and reports what changed', async () => {
+    const loader = new SchemaLoader(schemasPath);
+    expect((await loader.getSchemas(['tpgb/tp-heading']))[0].attributes.title.default).toBe('Heading');
+
+    write('blocks/tp-heading/full.json', heading('Title'));
+    write('blocks/tp-button/full.json', { blockName: 'tpgb/tp-button', attributes: {} });
+    write('_definitions/typography.json', { $id: 'definitions://typography', type: 'object', default: { size: 18 } });
+
+    // The already-broken examples.json does not block the reload
+    expect(await loader.reload()).toEqual({
+      applied: true,
+      blocks: { added: ['tpgb/tp-button'], removed: [], changed: ['tpgb/tp-heading'] },
+      definitions: { added: [], removed: [], changed: ['typography'] },
+      indexes: [],
+      errors: [],
+      totalBlocks: 1
+    });
+
+    const [schema] = await loader.getSchemas(['tpgb/tp-heading']);
+    expect(schema.attributes.title.default).toBe('Title');
+    expect(schema.attributes.titleTypo.default).toEqual({ size: 18 });
+  });
+
+  it('keeps the loaded schemas when new files are invalid', async () => {
+    const loader = new SchemaLoader(schemasPath);
+
+    write('blocks/tp-heading/full.json', '{ "blockName": ');
+    write('blocks/tp-button/full.json', { blockName: 'tpgb/tp-button', attributes: { icon: { $ref: 'definitions://icon' } } });
+
+    const report = await loader.reload();
+    expect(report.applied).toBe(false);
+    expect(report.blocks.changed).toEqual(['tpgb/tp-heading']);
+    expect(report.errors).toHaveLength(2);
+    expect(report.errors[1]).toBe('blocks/tp-button/full.json: unresolved $ref definitions://icon');
+
+    expect((await loader.getBlockSchema('tpgb/tp-heading')).attributes.title.default).toBe('Heading');
+    expect(await loader.getBlockSchema('tpgb/tp-button')).toBeNull();
+  });
+
+  it('reloads when watched files change', async () => {
+    const loader = new SchemaLoader(schemasPath);
+    loader.watch(20);
+
+    try {
+      write('_meta/catalog.json', { totalBlocks: 2, categories: {} });
+
+      for (let attempt = 0; attempt < 100 && loader.getCatalog().totalBlocks !== 2; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      expect(loader.getCatalog().totalBlocks).toBe(2);
+    } finally {
+      loader.close();
+    }
+  });
+});
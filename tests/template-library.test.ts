@@ -0,0 +1,94 @@
+/**
+ * Template Library Tests
+ *
+ * Every shipped section template must instantiate into blocks that pass the
+ * same validation as validate_content
+ */
+
+import path from 'path';
+import { SchemaLoader } from '../src/services/schema-loader.js';
+import { TemplateLibrary } from '../src/services/template-library.js';
+import { validateAndFix, validateBlocksAgainstSchemas } from '../src/utils/input-validator.js';
+import { preprocessBlocks } from '../src/utils/block-formatter.js';
+import { serializeBlocks } from '../src/utils/block-parser.js';
+
+const schemaLoader = new SchemaLoader(path.join(__dirname, '..', 'schemas'));
+const templates = new TemplateLibrary(path.join(__dirname, '..', 'templates'));
+
+/** Sample value for each slot type */
+function sampleSlots(name: string): Record<string, any> {
+  const template = templates.getTemplate(name)!;
+  return Object.fromEntries(Object.entries(template.slots).map(([slot, { type }]) => [
+    slot,
+    type === 'url' ? 'https://example.com/a.png' : type === 'array' ? [{ question: 'Q?', answer: 'A.' }] : `Sample ${slot}`
+  ]));
+}
+
+function blockIds(blocks: any[]): string[] {
+  return blocks.flatMap(block => [block.attrs.block_id, ...blockIds(block.innerBlocks || [])]);
+}
+
+describe('TemplateLibrary', () => {
+  it('loads the section templates', () => {
+    expect(templates.getTemplateNames()).toEqual(expect.arrayContaining(['hero-section', 'faq-section', 'cta-section', 'feature-list']));
+  });
+
+  it.each(templates.getTemplateNames())('%s instantiates into valid blocks', async (name) => {
+    const template = templates.getTemplate(name)!;
+    const values = sampleSlots(name);
+    expect(templates.checkSlots(template, values)).toEqual([]);
+
+    const fixed = validateAndFix(templates.instantiate(template, values));
+    const schemaResult = await validateBlocksAgainstSchemas(fixed.blocks, schemaLoader);
+
+    expect(fixed.fixes_applied).toEqual([]);
+    expect(fixed.errors).toEqual([]);
+    expect(schemaResult.errors).toEqual([]);
+  });
+
+  it('repeats $each templates per item and keeps whole-placeholder types', () => {
+    const blocks = templates.instantiate(templates.getTemplate('faq-section')!, {
+      items: [
+        { question: 'Can I cancel?', answer: 'Yes.' },
+        { question: 'Is there a trial?', answer: '<strong>14 days</strong>.' }
+      ]
+    });
+
+    expect(blocks[0].attrs.title).toBe('Frequently Asked Questions');
+    expect(blocks[1].innerBlocks.map((item: any) => [item.attrs.title, item.attrs.index, item.innerBlocks[0].attrs.content])).toEqual([
+      ['Can I cancel?', 1, 'Yes.'],
+      ['Is there a trial?', 2, '<strong>14 days</strong>.']
+    ]);
+
+    const ids = blockIds(blocks);
+    expect(ids.every(id => /^[a-f0-9]{4}$/.test(id))).toBe(true);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('renders the FAQ questions and answers as accordion items', () => {
+    const blocks = templates.instantiate(templates.getTemplate('faq-section')!, {
+      items: [
+        { question: 'Can I cancel?', answer: 'Yes, at any time.' },
+        { question: 'Is there a trial?', answer: '<strong>14 days</strong>.' }
+      ]
+    });
+    const html = serializeBlocks(preprocessBlocks(blocks, schemaLoader).formatted);
+
+    expect(html).toContain('<h3 class="accordion-title">Can I cancel?</h3>');
+    expect(html).toContain('<h3 class="accordion-title">Is there a trial?</h3>');
+    expect(html).toContain('Yes, at any time.');
+    expect(html).toContain('<strong>14 days</strong>.');
+    expect(html).toContain('role="tab" data-tab="1"');
+    expect(html).toContain('role="tab" data-tab="2"');
+    expect(html.match(/accordion-toggle-icon/g)).toHaveLength(2);
+    expect(html).not.toContain('Accordion 1');
+  });
+
+  it('reports missing, unknown and malformed slots', () => {
+    expect(templates.checkSlots(templates.getTemplate('hero-section')!, { image_url: 'hero.png', tagline: 'x' })).toEqual([
+      'Unknown slot "tagline" (available: headline, subheadline, image_url, image_alt, cta_label, cta_url)',
+      'Missing required slot "headline": Main headline (h1)',
+      'Slot "image_url" must be an absolute URL, a site path or an anchor (got "hero.png")'
+    ]);
+  });
+});
@@ -109,6 +109,14 @@ class Nexter_MCP_REST_API {
                 'create_revision' => [
                     'type' => 'boolean',
                     'default' => true
+                ],
+                'expected_modified' => [
+                    'type' => 'string',
+                    'sanitize_callback' => 'sanitize_text_field'
+                ],
+                'expected_hash' => [
+                    'type' => 'string',
+                    'sanitize_callback' => 'sanitize_text_field'
                 ]
             ]
         ]);
@@ -181,6 +189,67 @@ class Nexter_MCP_REST_API {
                 ]
             ]
         ]);
+        
+        // 8. Get a single revision with parsed blocks
+        register_rest_route($namespace, '/content/(?P<id>\d+)/revisions/(?P<revision_id>\d+)', [
+            'methods' => 'GET',
+            'callback' => [$this, 'get_revision'],
+            'permission_callback' => [$this, 'check_permission'],
+            'args' => [
+                'id' => [
+                    'required' => true,
+                    'type' => 'integer',
+                    'sanitize_callback' => 'absint'
+                ],
+                'revision_id' => [
+                    'required' => true,
+                    'type' => 'integer',
+                    'sanitize_callback' => 'absint'
+                ]
+            ]
+        ]);
+        
+        // 9. Restore a revision
+        register_rest_route($namespace, '/content/(?P<id>\d+)/revisions/(?P<revision_id>\d+)/restore', [
+            'methods' => 'POST',
+            'callback' => [$this, 'restore_revision'],
+            'permission_callback' => [$this, 'check_permission'],
+            'args' => [
+                'id' => [
+                    'required' => true,
+                    'type' => 'integer',
+                    'sanitize_callback' => 'absint'
+                ],
+                'revision_id' => [
+                    'required' => true,
+                    'type' => 'integer',
+                    'sanitize_callback' => 'absint'
+                ]
+            ]
+        ]);
+        
+        // 10. Change post status (publish, schedule, private, back to draft)
+        register_rest_route($namespace, '/content/(?P<id>\d+)/status', [
+            'methods' => 'POST',
+            'callback' => [$this, 'set_status'],
+            'permission_callback' => [$this, 'check_permission'],
+            'args' => [
+                'id' => [
+                    'required' => true,
+                    'type' => 'integer',
+                    'sanitize_callback' => 'absint'
+                ],
+                'status' => [
+                    'required' => true,
+                    'enum' => ['draft', 'pending', 'publish', 'future', 'private'],
+                    'sanitize_callback' => 'sanitize_text_field'
+                ],
+                'date' => [
+                    'type' => 'string',
+                    'sanitize_callback' => 'sanitize_text_field'
+                ]
+            ]
+        ]);
     }
     
     /**
@@ -252,6 +321,7 @@ class Nexter_MCP_REST_API {
                 'status' => $post->post_status,
                 'type' => $post->post_type,
                 'modified' => $post->post_modified,
+                'content_hash' => md5($post->post_content),
                 'author' => get_the_author_meta('display_name', $post->post_author),
                 'blocks' => $enhanced_blocks,
                 'block_types' => array_values($block_types),
@@ -376,6 +446,26 @@ class Nexter_MCP_REST_API {
             return new WP_Error('forbidden', 'Cannot edit this post', ['status' => 403]);
         }
         
+        // Optimistic concurrency: refuse to overwrite changes made since the caller loaded the post
+        $expected_modified = $request->get_param('expected_modified');
+        $expected_hash = $request->get_param('expected_hash');
+        $current_hash = md5($post->post_content);
+        
+        if (
+            ($expected_modified && $expected_modified !== $post->post_modified) ||
+            ($expected_hash && $expected_hash !== $current_hash)
+        ) {
+            return new WP_Error(
+                'edit_conflict',
+                'Post was modified after it was loaded. Reload the content and reapply your changes.',
+                [
+                    'status' => 409,
+                    'current_modified' => $post->post_modified,
+                    'current_hash' => $current_hash
+                ]
+            );
+        }
+        
         // ✅ WORDPRESS BEST PRACTICE: Ensure block_ids have post_id suffix
         // If blocks don't have post_id suffix yet, add it
         $blocks_with_post_id = $this->ensure_blocks_have_post_id($blocks, $post_id);
@@ -561,6 +651,7 @@ class Nexter_MCP_REST_API {
                 'date_gmt' => $rev->post_modified_gmt,
                 'author' => get_the_author_meta('display_name', $rev->post_author),
                 'parent_id' => $rev->post_parent,
+                'content_hash' => md5($rev->post_content),
                 'restore_url' => wp_nonce_url(
                     admin_url("revision.php?action=restore&revision={$rev->ID}"),
                     "restore-post_{$rev->post_parent}"
@@ -578,6 +669,152 @@ class Nexter_MCP_REST_API {
         ]);
     }
     
+    /**
+     * Change the status of a post, scheduling it when status is 'future'
+     */
+    public function set_status($request) {
+        $post_id = $request->get_param('id');
+        $status = $request->get_param('status');
+        $date = $request->get_param('date');
+        
+        $post = get_post($post_id);
+        if (!$post) {
+            return new WP_Error('not_found', 'Post not found', ['status' => 404]);
+        }
+        
+        if (!current_user_can('edit_post', $post_id)) {
+            return new WP_Error('forbidden', 'Cannot edit this post', ['status' => 403]);
+        }
+        
+        // Publishing, scheduling and private posts need the post type's publish capability
+        $post_type = get_post_type_object($post->post_type);
+        if (in_array($status, ['publish', 'future', 'private'], true) && !current_user_can($post_type->cap->publish_posts)) {
+            return new WP_Error('forbidden', 'User cannot publish this post type', ['status' => 403]);
+        }
+        
+        $previous_status = $post->post_status;
+        $update_data = [
+            'ID' => $post_id,
+            'post_status' => $status
+        ];
+        
+        if ($status === 'future') {
+            $timestamp = $date ? strtotime($date) : false;
+            if (!$timestamp || $timestamp <= time()) {
+                return new WP_Error('invalid_date', 'Scheduling requires a date in the future', ['status' => 400]);
+            }
+            
+            $update_data['post_date_gmt'] = gmdate('Y-m-d H:i:s', $timestamp);
+            $update_data['post_date'] = get_date_from_gmt($update_data['post_date_gmt']);
+            $update_data['edit_date'] = true;
+        }
+        
+        $result = wp_update_post($update_data, true);
+        
+        if (is_wp_error($result)) {
+            return new WP_Error(
+                'status_update_failed',
+                $result->get_error_message(),
+                ['status' => 500]
+            );
+        }
+        
+        $post = get_post($post_id);
+        
+        return rest_ensure_response([
+            'success' => true,
+            'data' => [
+                'post_id' => $post_id,
+                'previous_status' => $previous_status,
+                'status' => $post->post_status,
+                'date' => $post->post_date,
+                'date_gmt' => $post->post_date_gmt,
+                'url' => get_permalink($post_id),
+                'preview_url' => get_preview_post_link($post_id),
+                'edit_url' => get_edit_post_link($post_id, 'raw'),
+                'message' => 'Post status changed to ' . $post->post_status
+            ]
+        ]);
+    }
+    
+    /**
+     * Get a single revision of a post with parsed blocks
+     */
+    public function get_revision($request) {
+        $post_id = $request->get_param('id');
+        $revision = $this->get_post_revision($post_id, $request->get_param('revision_id'));
+        
+        if (is_wp_error($revision)) {
+            return $revision;
+        }
+        
+        return rest_ensure_response([
+            'success' => true,
+            'data' => [
+                'post_id' => $post_id,
+                'revision_id' => $revision->ID,
+                'title' => $revision->post_title,
+                'date' => $revision->post_modified,
+                'author' => get_the_author_meta('display_name', $revision->post_author),
+                'content_hash' => md5($revision->post_content),
+                'blocks' => parse_blocks($revision->post_content)
+            ]
+        ]);
+    }
+    
+    /**
+     * Restore a post to one of its revisions (WordPress records the restore as a new revision)
+     */
+    public function restore_revision($request) {
+        $post_id = $request->get_param('id');
+        $revision = $this->get_post_revision($post_id, $request->get_param('revision_id'));
+        
+        if (is_wp_error($revision)) {
+            return $revision;
+        }
+        
+        $result = wp_restore_post_revision($revision->ID);
+        
+        if (!$result || is_wp_error($result)) {
+            return new WP_Error(
+                'restore_failed',
+                is_wp_error($result) ? $result->get_error_message() : 'Revision could not be restored',
+                ['status' => 500]
+            );
+        }
+        
+        $post = get_post($post_id);
+        
+        return rest_ensure_response([
+            'success' => true,
+            'data' => [
+                'post_id' => $post_id,
+                'restored_revision_id' => $revision->ID,
+                'modified' => $post->post_modified,
+                'preview_url' => get_preview_post_link($post_id),
+                'edit_url' => get_edit_post_link($post_id, 'raw'),
+                'message' => 'Revision restored successfully.'
+            ]
+        ]);
+    }
+    
+    /**
+     * Load a revision, making sure it belongs to the post and the user may edit it
+     */
+    private function get_post_revision($post_id, $revision_id) {
+        if (!current_user_can('edit_post', $post_id)) {
+            return new WP_Error('forbidden', 'Cannot access revisions', ['status' => 403]);
+        }
+        
+        $revision = wp_get_post_revision($revision_id);
+        
+        if (!$revision || (int) $revision->post_parent !== (int) $post_id) {
+            return new WP_Error('not_found', 'Revision not found for this post', ['status' => 404]);
+        }
+        
+        return $revision;
+    }
+    
     /**
      * Validate blocks array structure
      */